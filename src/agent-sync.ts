@@ -0,0 +1,266 @@
+/**
+ * @module
+ *
+ * "Agents as code": compare a directory of {@link Seclai.exportAgent} files
+ * with an account, then create or update agents to match. Agents are matched
+ * by name, so the same files can be promoted from one account to another.
+ */
+import type { Seclai } from "./client";
+import { diffAgentDefinitions, type AgentDefinitionDiff } from "./definition-diff";
+import { SeclaiError } from "./errors";
+import type { AgentExportResponse, AgentSummaryResponse, UnresolvedAgentRef } from "./types";
+
+/** An agent export read from disk, or supplied directly. */
+export interface AgentFile {
+  /** Where the export came from, used in plans and errors. */
+  path: string;
+  payload: AgentExportResponse;
+}
+
+/** One agent in an {@link AgentSyncPlan}. */
+export interface AgentSyncChange {
+  file: string;
+  name: string;
+  /** `create` when no agent has this name, `update` when its definition differs, `noop` otherwise. */
+  action: "create" | "update" | "noop";
+  /** The matched agent, for `update` and `noop`. */
+  agentId: string | undefined;
+  /** The definition's `change_id` when planned; apply fails if it has moved on. */
+  expectedChangeId: string | undefined;
+  /** Changes from the account's definition to the file's, for `update` and `noop`. */
+  diff: AgentDefinitionDiff | undefined;
+  /** References the target account lacks and the plan's `entityRemap` does not cover. */
+  unresolvedRefs: UnresolvedAgentRef[];
+  payload: AgentExportResponse;
+}
+
+/** Result of {@link Seclai.planAgentSync}. */
+export interface AgentSyncPlan {
+  changes: AgentSyncChange[];
+  /** Source-to-target id substitutions applied to every agent. */
+  entityRemap: Record<string, string>;
+}
+
+/** Options for {@link Seclai.planAgentSync}. */
+export interface PlanAgentSyncOptions {
+  /** Source-account id → target-account id, for references that do not resolve as-is. */
+  entityRemap?: Record<string, string> | undefined;
+  signal?: AbortSignal | undefined;
+}
+
+/** Options for {@link Seclai.applyAgentSync}. */
+export interface ApplyAgentSyncOptions {
+  /** Apply even when the plan has unresolved references. */
+  allowUnresolved?: boolean | undefined;
+  /** Check each definition with `validateAgentDefinition` before sending it. */
+  validate?: boolean | undefined;
+}
+
+/** Outcome for one agent of {@link Seclai.applyAgentSync}. */
+export interface AgentSyncResult {
+  file: string;
+  name: string;
+  /**
+   * `failed` carries the `error`; agents after a failure are `skipped`. An
+   * update whose definition changed since planning fails with
+   * {@link SeclaiConflictError} — plan again.
+   */
+  status: "created" | "updated" | "unchanged" | "failed" | "skipped";
+  agentId: string | undefined;
+  error: unknown;
+}
+
+interface FsModule {
+  readdirSync(path: string): string[];
+  readFileSync(path: string, encoding: string): string;
+}
+
+interface PathModule {
+  join(...parts: string[]): string;
+}
+
+/**
+ * Read every `*.json` agent export in a directory, in file-name order.
+ *
+ * **Node.js only** — uses `node:fs` and `node:path`.
+ *
+ * @param dir - Directory of files written from {@link Seclai.exportAgent}.
+ * @throws {@link SeclaiError} If a file is not an agent export, or two files name the same agent.
+ */
+export async function loadAgentFiles(dir: string): Promise<AgentFile[]> {
+  // @ts-expect-error -- resolved at runtime; no @types/node in this package
+  const fs = (await import("node:fs")) as unknown as FsModule;
+  // @ts-expect-error -- resolved at runtime; no @types/node in this package
+  const pathMod = (await import("node:path")) as unknown as PathModule;
+
+  const files = fs
+    .readdirSync(dir)
+    .filter((name) => name.endsWith(".json"))
+    .sort()
+    .map((name) => {
+      const path = pathMod.join(dir, name);
+      let payload: unknown;
+      try {
+        payload = JSON.parse(fs.readFileSync(path, "utf-8"));
+      } catch (err) {
+        throw new SeclaiError(`${path}: not valid JSON (${(err as Error).message}).`);
+      }
+      return { path, payload: payload as AgentExportResponse };
+    });
+  checkAgentFiles(files);
+  return files;
+}
+
+function agentName(file: AgentFile): string {
+  return file.payload.agent["name"] as string;
+}
+
+function checkAgentFiles(files: AgentFile[]): void {
+  const seen = new Map<string, string>();
+  for (const file of files) {
+    const agent = (file.payload as { agent?: unknown } | null)?.agent as Record<string, unknown> | undefined;
+    if (typeof agent?.["name"] !== "string" || typeof agent["definition"] !== "object" || agent["definition"] === null) {
+      throw new SeclaiError(`${file.path}: not an agent export (expected agent.name and agent.definition).`);
+    }
+    const other = seen.get(agent["name"]);
+    if (other) throw new SeclaiError(`${file.path} and ${other} both define agent ${JSON.stringify(agent["name"])}.`);
+    seen.set(agent["name"], file.path);
+  }
+}
+
+/** @internal Replace every string equal to a key of `remap` with its value. */
+export function remapIds<T>(value: T, remap: Record<string, string>): T {
+  if (typeof value === "string") return (Object.hasOwn(remap, value) ? remap[value] : value) as T;
+  if (Array.isArray(value)) return value.map((v) => remapIds(v, remap)) as T;
+  if (typeof value === "object" && value !== null) {
+    return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, remapIds(v, remap)])) as T;
+  }
+  return value;
+}
+
+/** @internal The trigger type to create an agent from `payload` with: its own, else the API default. */
+export function triggerTypeOf(payload: AgentExportResponse): string {
+  const trigger = payload.agent["trigger_type"];
+  return typeof trigger === "string" ? trigger : "dynamic_input";
+}
+
+function isEmptyDiff(diff: AgentDefinitionDiff): boolean {
+  return [diff.added, diff.removed, diff.moved, diff.modified, diff.metadata].every((list) => list.length === 0);
+}
+
+/** @internal Implementation of {@link Seclai.planAgentSync}. */
+export async function planAgentSync(
+  client: Seclai,
+  source: string | AgentFile[],
+  opts: PlanAgentSyncOptions = {},
+): Promise<AgentSyncPlan> {
+  const files = typeof source === "string" ? await loadAgentFiles(source) : source;
+  if (typeof source !== "string") checkAgentFiles(files);
+  const entityRemap = opts.entityRemap ?? {};
+
+  const existing = new Map<string, AgentSummaryResponse[]>();
+  for await (const agent of client.iterAgents(opts.signal ? { signal: opts.signal } : {})) {
+    existing.set(agent.name, [...(existing.get(agent.name) ?? []), agent]);
+  }
+
+  const changes: AgentSyncChange[] = [];
+  for (const file of files) {
+    const name = agentName(file);
+    const preview = await client.previewImportAgent({ agent_definition: file.payload });
+    const unresolvedRefs = ((preview.unresolved_refs ?? []) as unknown as UnresolvedAgentRef[]).filter(
+      (ref) => !Object.hasOwn(entityRemap, ref.ref_id),
+    );
+    const matches = existing.get(name) ?? [];
+    if (matches.length > 1) {
+      throw new SeclaiError(`${file.path}: ${matches.length} agents in the account are named ${JSON.stringify(name)}.`);
+    }
+    const match = matches[0];
+    if (!match) {
+      changes.push({
+        file: file.path,
+        name,
+        action: "create",
+        agentId: undefined,
+        expectedChangeId: undefined,
+        diff: undefined,
+        unresolvedRefs,
+        payload: file.payload,
+      });
+      continue;
+    }
+    const current = await client.getAgentDefinition(match.id);
+    const desired = remapIds(file.payload.agent["definition"] as Record<string, unknown>, entityRemap);
+    const diff = diffAgentDefinitions(current.definition, desired);
+    changes.push({
+      file: file.path,
+      name,
+      action: isEmptyDiff(diff) ? "noop" : "update",
+      agentId: match.id,
+      expectedChangeId: current.change_id,
+      diff,
+      unresolvedRefs,
+      payload: file.payload,
+    });
+  }
+  return { changes, entityRemap };
+}
+
+/** @internal Implementation of {@link Seclai.applyAgentSync}. */
+export async function applyAgentSync(
+  client: Seclai,
+  plan: AgentSyncPlan,
+  opts: ApplyAgentSyncOptions = {},
+): Promise<AgentSyncResult[]> {
+  const unresolved = plan.changes.filter((c) => c.unresolvedRefs.length > 0);
+  if (unresolved.length > 0 && !opts.allowUnresolved) {
+    throw new SeclaiError(
+      `Unresolved references in ${unresolved.map((c) => c.name).join(", ")}; add them to entityRemap and plan again.`,
+    );
+  }
+  const validate = opts.validate ?? false;
+  const results: AgentSyncResult[] = [];
+  let failed = false;
+  for (const change of plan.changes) {
+    const result: AgentSyncResult = {
+      file: change.file,
+      name: change.name,
+      status: "skipped",
+      agentId: change.agentId,
+      error: undefined,
+    };
+    results.push(result);
+    if (failed) continue;
+    try {
+      if (change.action === "create") {
+        const created = await client.createAgent(
+          {
+            name: change.name,
+            trigger_type: triggerTypeOf(change.payload),
+            agent_definition: change.payload,
+            ...(Object.keys(plan.entityRemap).length > 0 ? { entity_remap: plan.entityRemap } : {}),
+          },
+          { validate },
+        );
+        result.status = "created";
+        result.agentId = created.id;
+      } else if (change.action === "update") {
+        await client.updateAgentDefinition(
+          change.agentId!,
+          {
+            definition: remapIds(change.payload.agent["definition"] as Record<string, unknown>, plan.entityRemap),
+            expected_change_id: change.expectedChangeId!,
+          },
+          { validate },
+        );
+        result.status = "updated";
+      } else {
+        result.status = "unchanged";
+      }
+    } catch (err) {
+      result.status = "failed";
+      result.error = err;
+      failed = true;
+    }
+  }
+  return results;
+}
@@ -0,0 +1,166 @@
+/**
+ * @module
+ *
+ * Attachment references: the `{storage_key, mime, name, bytes}` entries that
+ * run output manifests and webhook/email payloads carry for files a step
+ * produced, and the ids `downloadAgentRunAttachment` needs to fetch them.
+ */
+import type { Seclai } from "./client";
+import { SeclaiError } from "./errors";
+
+/** Content type of a run output that is an {@link AttachmentManifest}. */
+export const ATTACHMENT_MANIFEST_CONTENT_TYPE = "application/vnd.seclai.manifest+json";
+
+/** A file a step produced, as listed in a manifest or payload. */
+export interface AttachmentRef {
+  storage_key: string;
+  /** MIME type, when known. */
+  mime?: string | null | undefined;
+  /** File name, when known. */
+  name?: string | null | undefined;
+  /** Size in bytes, when known. */
+  bytes?: number | null | undefined;
+}
+
+/** A multi-asset run output (`output_content_type` {@link ATTACHMENT_MANIFEST_CONTENT_TYPE}). */
+export interface AttachmentManifest {
+  text: string | null;
+  attachments: AttachmentRef[];
+}
+
+/**
+ * The `attachment_id` that `downloadAgentRunAttachment` takes for a storage
+ * key: the URL-safe base64 of its UTF-8 bytes, with padding.
+ *
+ * @param storageKey - The attachment's `storage_key`.
+ */
+export function encodeAttachmentId(storageKey: string): string {
+  let binary = "";
+  for (const byte of new TextEncoder().encode(storageKey)) binary += String.fromCharCode(byte);
+  return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_");
+}
+
+/**
+ * The storage key an `attachment_id` encodes; the inverse of
+ * {@link encodeAttachmentId}. Accepts ids with or without padding.
+ *
+ * @param attachmentId - A URL-safe base64 attachment id.
+ * @throws {@link SeclaiError} If it is not URL-safe base64 of UTF-8 text.
+ */
+export function decodeAttachmentId(attachmentId: string): string {
+  const base64 = attachmentId.replace(/-/g, "+").replace(/_/g, "/");
+  if (!/^[A-Za-z0-9+/]*={0,2}$/.test(base64) || base64.replace(/=+$/, "").length % 4 === 1) {
+    throw new SeclaiError(`Not a URL-safe base64 attachment id: ${JSON.stringify(attachmentId)}.`);
+  }
+  const padded = base64.padEnd(Math.ceil(base64.length / 4) * 4, "=");
+  try {
+    return new TextDecoder("utf-8", { fatal: true }).decode(Uint8Array.from(atob(padded), (c) => c.charCodeAt(0)));
+  } catch {
+    throw new SeclaiError(`Attachment id ${JSON.stringify(attachmentId)} does not encode UTF-8 text.`);
+  }
+}
+
+function isAttachmentRef(value: unknown): value is AttachmentRef {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    typeof (value as { storage_key?: unknown }).storage_key === "string"
+  );
+}
+
+/**
+ * Find every attachment reference in a run output, manifest, or webhook/email
+ * payload.
+ *
+ * Searches the whole value for objects with a string `storage_key`, including
+ * manifests serialized as JSON strings (as in a run's `output`). Each storage
+ * key is reported once, in the order first found.
+ *
+ * @param value - A parsed payload, manifest, or manifest JSON text.
+ * @returns The references found.
+ *
+ * @example
+ * ```ts
+ * const run = await client.getAgentRun(runId);
+ * for (const ref of findAttachmentRefs(run.output)) {
+ *   const res = await client.downloadAttachmentRef(runId, ref);
+ *   await save(ref.name ?? ref.storage_key, await res.arrayBuffer());
+ * }
+ * ```
+ */
+export function findAttachmentRefs(value: unknown): AttachmentRef[] {
+  const found = new Map<string, AttachmentRef>();
+  const visit = (v: unknown): void => {
+    if (typeof v === "string") {
+      // Only strings that look like a serialized manifest are worth parsing.
+      if (!v.startsWith("{") || !v.includes("storage_key")) return;
+      try {
+        visit(JSON.parse(v));
+      } catch {
+        // Not JSON after all.
+      }
+    } else if (Array.isArray(v)) {
+      v.forEach(visit);
+    } else if (typeof v === "object" && v !== null) {
+      if (isAttachmentRef(v) && !found.has(v.storage_key)) found.set(v.storage_key, v);
+      Object.values(v).forEach(visit);
+    }
+  };
+  visit(value);
+  return [...found.values()];
+}
+
+/** An attachment of a run, from {@link Seclai.listRunAttachments}, ready to download. */
+export interface RunAttachment {
+  runId: string;
+  /** The step whose output listed it; `undefined` when only the run's final output did. */
+  stepId: string | undefined;
+  storageKey: string;
+  /** {@link encodeAttachmentId} of the storage key. */
+  attachmentId: string;
+  mime: string | undefined;
+  name: string | undefined;
+  bytes: number | undefined;
+  /** Download it as a raw `Response`. */
+  download(): Promise<Response>;
+  /** Download its bytes. */
+  arrayBuffer(): Promise<ArrayBuffer>;
+  /** Download it as a byte stream, without buffering. */
+  stream(): Promise<ReadableStream<Uint8Array>>;
+}
+
+/** @internal Implementation of {@link Seclai.listRunAttachments}. */
+export async function* listRunAttachments(
+  client: Seclai,
+  runId: string,
+): AsyncGenerator<RunAttachment, void, undefined> {
+  const run = await client.getAgentRun(runId, { includeStepOutputs: true });
+  const seen = new Set<string>();
+  const sources: [string | undefined, unknown][] = [
+    ...(run.steps ?? []).map((step): [string, unknown] => [step.agent_step_id, step.output]),
+    [undefined, run.output],
+  ];
+  for (const [stepId, output] of sources) {
+    for (const ref of findAttachmentRefs(output)) {
+      if (seen.has(ref.storage_key)) continue;
+      seen.add(ref.storage_key);
+      const download = () => client.downloadAttachmentRef(runId, ref);
+      yield {
+        runId,
+        stepId,
+        storageKey: ref.storage_key,
+        attachmentId: encodeAttachmentId(ref.storage_key),
+        mime: ref.mime ?? undefined,
+        name: ref.name ?? undefined,
+        bytes: ref.bytes ?? undefined,
+        download,
+        arrayBuffer: async () => (await download()).arrayBuffer(),
+        stream: async () => {
+          const response = await download();
+          if (!response.body) throw new SeclaiError(`Attachment ${ref.storage_key} has no response body.`);
+          return response.body;
+        },
+      };
+    }
+  }
+}
@@ -0,0 +1,351 @@
+/**
+ * @module
+ *
+ * Record/replay "cassettes": a `fetch` wrapper that records real Seclai
+ * interactions to a JSON file, then replays them in later test runs so the
+ * tests are deterministic and need no network or credentials.
+ */
+import type { FetchLike } from "./client";
+import { SeclaiError } from "./errors";
+
+/** One recorded request and its response. */
+export interface CassetteInteraction {
+  request: {
+    method: string;
+    url: string;
+    headers: Record<string, string>;
+    /** The request body: text, or base64 when `bodyEncoding` says so. `null` when there was none. */
+    body: string | null;
+    bodyEncoding: "utf8" | "base64";
+  };
+  response: {
+    status: number;
+    statusText: string;
+    headers: Record<string, string>;
+    /** The response body: text (including SSE streams), or base64 for binary content. */
+    body: string;
+    bodyEncoding: "utf8" | "base64";
+  };
+}
+
+/** The JSON document a cassette file holds. */
+export interface CassetteFile {
+  version: 1;
+  interactions: CassetteInteraction[];
+}
+
+/** A part of the request {@link CassetteOptions.match} can compare. */
+export type CassetteMatchField = "method" | "path" | "query" | "body";
+
+/** Options for {@link createCassette}. */
+export interface CassetteOptions {
+  /**
+   * `replay` serves only recorded responses, `record` sends every request and
+   * records it, and `auto` (the default) replays when the file exists and
+   * records otherwise.
+   */
+  mode?: "replay" | "record" | "auto" | undefined;
+  /** The `fetch` used to record. Defaults to `globalThis.fetch`. */
+  fetch?: FetchLike | undefined;
+  /**
+   * What must agree for a recorded interaction to answer a request: a list of
+   * fields, or a predicate. Defaults to method, path, query and body. JSON
+   * bodies are compared as values, so key order does not matter.
+   */
+  match?:
+    | CassetteMatchField[]
+    | ((request: CassetteInteraction["request"], recorded: CassetteInteraction["request"]) => boolean)
+    | undefined;
+  /**
+   * Headers to redact from recorded requests and responses, on top of
+   * `authorization` and `x-api-key`, which are always redacted.
+   */
+  redactHeaders?: string[] | undefined;
+  /** Edit each interaction before it is saved, e.g. to scrub secrets from bodies. */
+  redact?: ((interaction: CassetteInteraction) => CassetteInteraction) | undefined;
+}
+
+/** A cassette opened by {@link createCassette}. */
+export interface Cassette {
+  /** Pass as the client's `fetch` option. */
+  readonly fetch: FetchLike;
+  /** Whether requests are being recorded or replayed. */
+  readonly mode: "replay" | "record";
+  /** The interactions recorded, or loaded to replay. */
+  readonly interactions: CassetteInteraction[];
+  /**
+   * Write the recorded interactions to the file once every response body has
+   * been read. Does nothing when replaying.
+   *
+   * @throws {@link SeclaiError} Without writing anything if a response body
+   *   failed before it was fully read, since the cassette would be incomplete.
+   */
+  save(): Promise<void>;
+}
+
+const REDACTED = "[REDACTED]";
+const ALWAYS_REDACTED = ["authorization", "x-api-key"];
+const DEFAULT_MATCH: CassetteMatchField[] = ["method", "path", "query", "body"];
+
+interface FsModule {
+  existsSync(path: string): boolean;
+  readFileSync(path: string, encoding: string): string;
+  writeFileSync(path: string, data: string): void;
+  mkdirSync(path: string, options?: { recursive?: boolean }): void;
+  unlinkSync(path: string): void;
+  renameSync(oldPath: string, newPath: string): void;
+}
+
+interface PathModule {
+  dirname(path: string): string;
+}
+
+function isTextual(contentType: string | null): boolean {
+  if (!contentType) return true;
+  return /^text\/|json|xml|x-www-form-urlencoded|multipart\/form-data/i.test(contentType);
+}
+
+function toBase64(bytes: Uint8Array): string {
+  let binary = "";
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
+
+function fromBase64(text: string): Uint8Array {
+  return Uint8Array.from(atob(text), (c) => c.charCodeAt(0));
+}
+
+function encodeBody(bytes: Uint8Array, contentType: string | null): { body: string; bodyEncoding: "utf8" | "base64" } {
+  return isTextual(contentType)
+    ? { body: new TextDecoder().decode(bytes), bodyEncoding: "utf8" }
+    : { body: toBase64(bytes), bodyEncoding: "base64" };
+}
+
+function redactHeaders(headers: Headers, names: Set<string>): Record<string, string> {
+  const out: Record<string, string> = {};
+  headers.forEach((value, key) => {
+    out[key] = names.has(key.toLowerCase()) ? REDACTED : value;
+  });
+  return out;
+}
+
+/** The request as a cassette records it; multipart boundaries are fixed so uploads match across runs. */
+async function describeRequest(request: Request, redacted: Set<string>): Promise<CassetteInteraction["request"]> {
+  const headers = redactHeaders(request.headers, redacted);
+  let body: string | null = null;
+  let bodyEncoding: "utf8" | "base64" = "utf8";
+  if (request.body) {
+    const contentType = request.headers.get("content-type");
+    ({ body, bodyEncoding } = encodeBody(new Uint8Array(await request.arrayBuffer()), contentType));
+    const boundary = /boundary=("?)([^";]+)\1/i.exec(contentType ?? "")?.[2];
+    if (boundary && bodyEncoding === "utf8") {
+      body = body.split(boundary).join("cassette-boundary");
+      headers["content-type"] = contentType!.replace(boundary, "cassette-boundary");
+    }
+  }
+  return { method: request.method, url: request.url, headers, body, bodyEncoding };
+}
+
+/**
+ * A copy of the request to record from, leaving what the client passed usable
+ * for the real fetch. Only a stream body cannot be read twice: it is teed, and
+ * the fetch gets one branch in its place.
+ */
+function copyRequest(
+  input: RequestInfo | URL,
+  init: RequestInit | undefined,
+): { copy: Request; init: RequestInit | undefined } {
+  const source = input instanceof Request ? input.clone() : input;
+  if (!(init?.body instanceof ReadableStream)) return { copy: new Request(source, init), init };
+  const [body, copy] = init.body.tee();
+  return { copy: new Request(source, { ...init, body: copy }), init: { ...init, body } };
+}
+
+/** A JSON body parsed for comparison, so key order and whitespace do not matter. */
+function normalizeBody(req: CassetteInteraction["request"]): string | null {
+  if (req.body === null || req.bodyEncoding !== "utf8") return req.body;
+  try {
+    return JSON.stringify(sortKeys(JSON.parse(req.body)));
+  } catch {
+    return req.body;
+  }
+}
+
+function sortKeys(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(sortKeys);
+  if (typeof value === "object" && value !== null) {
+    return Object.fromEntries(
+      Object.keys(value)
+        .sort()
+        .map((k) => [k, sortKeys((value as Record<string, unknown>)[k])]),
+    );
+  }
+  return value;
+}
+
+function sortedQuery(url: URL): string {
+  return [...url.searchParams].sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0)).map(([k, v]) => `${k}=${v}`).join("&");
+}
+
+function fieldsMatch(
+  fields: CassetteMatchField[],
+  request: CassetteInteraction["request"],
+  recorded: CassetteInteraction["request"],
+): boolean {
+  const a = new URL(request.url);
+  const b = new URL(recorded.url);
+  return fields.every((field) => {
+    switch (field) {
+      case "method":
+        return request.method.toUpperCase() === recorded.method.toUpperCase();
+      case "path":
+        return a.pathname.replace(/\/+$/, "") === b.pathname.replace(/\/+$/, "");
+      case "query":
+        return sortedQuery(a) === sortedQuery(b);
+      case "body":
+        return normalizeBody(request) === normalizeBody(recorded);
+    }
+  });
+}
+
+/** Serve a recorded response; SSE bodies arrive one event per chunk, as they would live. */
+function replayResponse(recorded: CassetteInteraction["response"]): Response {
+  const init = { status: recorded.status, statusText: recorded.statusText, headers: recorded.headers };
+  if (recorded.status === 204 || recorded.status === 304) return new Response(null, init);
+  if (recorded.bodyEncoding === "base64") return new Response(fromBase64(recorded.body), init);
+  if (!recorded.headers["content-type"]?.includes("text/event-stream")) return new Response(recorded.body, init);
+
+  const chunks = recorded.body.split(/(?<=\n\n)/);
+  const encoder = new TextEncoder();
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      for (const chunk of chunks) {
+        controller.enqueue(encoder.encode(chunk));
+        await Promise.resolve();
+      }
+      controller.close();
+    },
+  });
+  return new Response(stream, init);
+}
+
+/**
+ * Open a cassette file for recording or replaying Seclai HTTP interactions.
+ *
+ * Recording passes each response through as it arrives — streamed runs stay
+ * streamed — while a copy of the body is recorded, as text for JSON and SSE or
+ * base64 for binary downloads such as `downloadSourceExport`. Replaying
+ * answers each request with the first unused recorded interaction that
+ * matches it, so repeated calls (like polling) replay in order.
+ *
+ * **Node.js only** — reads and writes the file with `node:fs`.
+ *
+ * @param path - The cassette's JSON file.
+ * @param opts - Mode, matching and redaction.
+ * @returns The cassette; pass its `fetch` to the client and, when recording, `save()` it at the end.
+ * @throws {@link SeclaiError} When replaying a file that does not exist; the
+ *   cassette's `fetch` rejects with one for a request no interaction matches.
+ *
+ * @example
+ * ```ts
+ * const cassette = await createCassette("tests/cassettes/run-agent.json");
+ * const client = new Seclai({ apiKey: process.env.SECLAI_API_KEY ?? "replay", fetch: cassette.fetch });
+ * const run = await client.runStreamingAgentAndWait("agent-id", { input: "Hello" });
+ * await cassette.save();
+ * ```
+ */
+export async function createCassette(path: string, opts: CassetteOptions = {}): Promise<Cassette> {
+  // @ts-expect-error -- resolved at runtime; no @types/node in this package
+  const fs = (await import("node:fs")) as unknown as FsModule;
+  // @ts-expect-error -- resolved at runtime; no @types/node in this package
+  const pathMod = (await import("node:path")) as unknown as PathModule;
+
+  const requested = opts.mode ?? "auto";
+  const exists = fs.existsSync(path);
+  if (requested === "replay" && !exists) throw new SeclaiError(`Cassette ${path} does not exist; record it first.`);
+  const mode = requested === "record" || (requested === "auto" && !exists) ? "record" : "replay";
+  const redacted = new Set([...ALWAYS_REDACTED, ...(opts.redactHeaders ?? []).map((h) => h.toLowerCase())]);
+  const match = opts.match ?? DEFAULT_MATCH;
+  const matches = typeof match === "function" ? match : fieldsMatch.bind(undefined, match);
+
+  if (mode === "replay") {
+    const file = JSON.parse(fs.readFileSync(path, "utf-8")) as CassetteFile;
+    if (file?.version !== 1 || !Array.isArray(file.interactions)) {
+      throw new SeclaiError(`${path} is not a version 1 cassette.`);
+    }
+    const used = new Set<CassetteInteraction>();
+    return {
+      mode,
+      interactions: file.interactions,
+      save: async () => {},
+      fetch: async (input, init) => {
+        const request = await describeRequest(new Request(input, init), redacted);
+        const hit = file.interactions.find((i) => !used.has(i) && matches(request, i.request));
+        if (!hit) {
+          throw new SeclaiError(`Cassette ${path} has no unused interaction for ${request.method} ${request.url}.`);
+        }
+        used.add(hit);
+        return replayResponse(hit.response);
+      },
+    };
+  }
+
+  const fetcher = opts.fetch ?? (globalThis.fetch as FetchLike | undefined);
+  if (!fetcher) throw new SeclaiError("No fetch implementation is available to record with.");
+  const interactions: CassetteInteraction[] = [];
+  const recorded: (CassetteInteraction | undefined)[] = [];
+  const pending = new Set<Promise<void>>();
+  const failures: string[] = [];
+  let slots = 0;
+  return {
+    mode,
+    interactions,
+    fetch: async (input, init) => {
+      const { copy: request, init: forwarded } = copyRequest(input, init);
+      const recordedRequest = await describeRequest(request, redacted);
+      const response = await fetcher(input, forwarded);
+      // Keep request order even when a streamed body finishes after later requests.
+      const index = slots++;
+      // Record from one branch of the body while the caller reads the other.
+      const [live, copy] = response.body ? response.body.tee() : [null, null];
+      const recording = (async () => {
+        const bytes = copy ? new Uint8Array(await new Response(copy).arrayBuffer()) : new Uint8Array();
+        const interaction: CassetteInteraction = {
+          request: recordedRequest,
+          response: {
+            status: response.status,
+            statusText: response.statusText,
+            headers: redactHeaders(response.headers, redacted),
+            ...encodeBody(bytes, response.headers.get("content-type")),
+          },
+        };
+        recorded[index] = opts.redact ? opts.redact(interaction) : interaction;
+        interactions.splice(0, interactions.length, ...recorded.filter((i) => i !== undefined));
+      })().catch((err: unknown) => {
+        const reason = err instanceof Error ? err.message : String(err);
+        failures.push(`${recordedRequest.method} ${recordedRequest.url}: ${reason}`);
+      });
+      pending.add(recording);
+      void recording.finally(() => pending.delete(recording));
+      return new Response(live, { status: response.status, statusText: response.statusText, headers: response.headers });
+    },
+    save: async () => {
+      await Promise.allSettled(pending);
+      if (failures.length > 0) {
+        throw new SeclaiError(
+          `Cassette ${path} was not saved; ${failures.length} response(s) could not be recorded: ${failures.join("; ")}`,
+        );
+      }
+      fs.mkdirSync(pathMod.dirname(path), { recursive: true });
+      const tmpPath = `${path}.tmp`;
+      fs.writeFileSync(tmpPath, `${JSON.stringify({ version: 1, interactions } satisfies CassetteFile, null, 2)}\n`);
+      // On Windows, renameSync fails if destination exists — delete first (best-effort)
+      if (fs.existsSync(path)) {
+        try { fs.unlinkSync(path); } catch { /* let renameSync throw if needed */ }
+      }
+      fs.renameSync(tmpPath, path);
+    },
+  };
+}
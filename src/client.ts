@@ -11,14 +11,79 @@
 import {
   SeclaiAPIStatusError,
   SeclaiAPIValidationError,
+  SeclaiAuthenticationError,
   SeclaiConfigurationError,
+  SeclaiConflictError,
+  SeclaiDefinitionValidationError,
   SeclaiError,
+  SeclaiInsufficientCreditsError,
+  SeclaiNotFoundError,
+  SeclaiPermissionDeniedError,
+  SeclaiRateLimitError,
+  SeclaiServerError,
   SeclaiStreamingError,
+  SeclaiTimeoutError,
 } from "./errors";
 import type { ApiVersion } from "./versions";
 import { KNOWN_API_VERSIONS } from "./versions";
 import type { AuthState } from "./auth";
 import { resolveCredentialChain, resolveAuthHeaders } from "./auth";
+import type { RetryOptions } from "./retry";
+import {
+  backoffDelay,
+  computeRetryDelay,
+  isRetryableMethod,
+  parseRetryAfter,
+  resolveRetryPolicy,
+  sleep,
+} from "./retry";
+import type { Middleware } from "./middleware";
+import { applyMiddleware } from "./middleware";
+import { isInitEvent, isJsonObject } from "./events";
+import { AgentTextStream } from "./text-stream";
+import { RunStream } from "./run-stream";
+import { validateAgentDefinition } from "./definition-validation";
+import {
+  applyAgentSync,
+  planAgentSync,
+  type AgentFile,
+  type AgentSyncPlan,
+  type AgentSyncResult,
+  type ApplyAgentSyncOptions,
+  type PlanAgentSyncOptions,
+} from "./agent-sync";
+import { migrateAgent, type MigrateAgentOptions, type MigrateAgentResult } from "./migrate";
+import {
+  exportSolutionBundle,
+  importSolutionBundle,
+  type ImportSolutionBundleOptions,
+  type ImportSolutionBundleResult,
+  type SolutionBundle,
+} from "./solution-bundle";
+import {
+  downloadToBlob,
+  downloadToFile,
+  sourceExportDownload,
+  type DownloadOptions,
+  type DownloadToFileOptions,
+  type DownloadToFileResult,
+} from "./downloads";
+import { encodeAttachmentId, listRunAttachments, type AttachmentRef, type RunAttachment } from "./attachments";
+import { inferMimeType } from "./mime";
+import { isStreamSource, multipartBody, openPathUpload, type MultipartBody, type UploadProgressCallback, type UploadSource } from "./uploads";
+import {
+  AgentsResource,
+  AiAssistantResource,
+  AlertsResource,
+  ContentsResource,
+  EmailResource,
+  GovernanceResource,
+  KnowledgeBasesResource,
+  MemoryBanksResource,
+  ModelsResource,
+  SolutionsResource,
+  SourcesResource,
+} from "./resources";
 import type {
   AgentRunEvent,
   AddEmailDomainInput,
@@ -27,6 +92,7 @@ import type {
   AgentDefinitionImportErrorResponse,
   AgentDefinitionResponse,
   AgentEmailOptOutListResponse,
+  AgentEmailOptOutResponse,
   AgentExportResponse,
   AgentImportPreviewRequest,
   AgentImportPreviewResponse,
@@ -53,8 +119,10 @@ import type {
   CancelQueuedRunsResponse,
   ChangeStatusRequest,
   CompatibleRunListResponse,
+  CompatibleRunResponse,
   CompactionTestResponse,
   ContentDetailResponse,
+  ContentEmbeddingResponse,
   ContentEmbeddingsListResponse,
   ContentFileUploadResponse,
   CreateAgentRequest,
@@ -99,7 +167,9 @@ import type {
   EvaluationResultResponse,
   EvaluationResultSummaryResponse,
   EvaluationResultWithCriteriaListResponse,
+  EvaluationResultWithCriteriaResponse,
   EvaluationRunSummaryListResponse,
+  EvaluationRunSummaryResponse,
   ExportListResponse,
   ExportResponse,
   FileUploadResponse,
@@ -113,8 +183,10 @@ import type {
   GovernanceConversationResponse,
   InboundEmailRejectionResponse,
   InboundEmailStatusResponse,
+  InsufficientCreditsResponse,
   InlineTextReplaceRequest,
   InlineTextUploadRequest,
+  IterateOptions,
   KnowledgeBaseListResponse,
   KnowledgeBaseResponse,
   LinkResourcesRequest,
@@ -143,6 +215,8 @@ import type {
   SolutionConversationResponse,
   SolutionListResponse,
   SolutionResponse,
+  SolutionSummaryResponse,
+  StreamingRunOptions,
   SortableListOptions,
   SourceEmbeddingMigrationResponse,
   SourceListResponse,
@@ -238,6 +312,36 @@ export interface SeclaiOptions {
    * silently. Prefer upgrading the package.
    */
   allowUnknownApiVersion?: boolean;
+  /**
+   * Retry transient failures — by default HTTP 429, 502, 503 and 504 and
+   * network errors — with exponential backoff, honoring `Retry-After`.
+   *
+   * Off unless set: each request is sent once. Only idempotent methods are
+   * retried unless `retryNonIdempotent` is set. Individual calls to
+   * {@link Seclai.request} and {@link Seclai.requestRaw} can override this with
+   * their own `retry` option, or pass `retry: false` to opt out.
+   */
+  retry?: RetryOptions;
+  /**
+   * Default timeout in milliseconds for every non-streaming call. Unset, calls
+   * wait as long as the server takes.
+   *
+   * Covers the whole call, retries included — and for JSON methods reading the
+   * body too. {@link Seclai.request}, {@link Seclai.requestRaw} and the upload
+   * methods accept their own `timeoutMs` (`0` disables it for that call). Expiry throws
+   * {@link SeclaiTimeoutError}. Streaming runs keep their own `timeoutMs`.
+   */
+  timeoutMs?: number;
+  /**
+   * Interceptors run around every HTTP call the client makes — JSON and raw
+   * requests, uploads, streaming runs and SSO token refreshes — first entry
+   * outermost. Each sees the resolved method, URL, headers and body and can
+   * rewrite them, observe the response, or return a synthetic `Response`
+   * without calling `next`.
+   *
+   * Middleware sits inside the retry loop, so it runs once per attempt.
+   */
+  middleware?: Middleware[];
 }
 
 // ─── Internal Helpers ────────────────────────────────────────────────────────
@@ -278,6 +382,116 @@ async function safeJson(response: Response): Promise<unknown | undefined> {
   }
 }
 
+/**
+ * Build the error for a non-success response: a status-specific subclass of
+ * {@link SeclaiAPIStatusError} where one exists, the base class otherwise.
+ */
+async function statusError(response: Response, method: string, url: URL): Promise<SeclaiAPIStatusError> {
+  const opts = {
+    message: `Request failed with status ${response.status}`,
+    statusCode: response.status,
+    method,
+    url: url.toString(),
+    responseText: await safeText(response),
+  };
+  switch (response.status) {
+    case 401:
+      return new SeclaiAuthenticationError(opts);
+    case 402: {
+      const body = (await safeJson(response)) as Partial<InsufficientCreditsResponse> | undefined;
+      if (body?.detail?.error === "insufficient_credits") {
+        return new SeclaiInsufficientCreditsError({ ...opts, detail: body.detail });
+      }
+      break;
+    }
+    case 403:
+      return new SeclaiPermissionDeniedError(opts);
+    case 404:
+      return new SeclaiNotFoundError(opts);
+    case 409:
+      return new SeclaiConflictError(opts);
+    case 422:
+      return new SeclaiAPIValidationError({
+        ...opts,
+        message: "Validation error",
+        validationError: await safeJson(response),
+      });
+    case 429:
+      return new SeclaiRateLimitError({
+        ...opts,
+        retryAfter: parseRetryAfter(response.headers.get("retry-after")),
+      });
+  }
+  return response.status >= 500 ? new SeclaiServerError(opts) : new SeclaiAPIStatusError(opts);
+}
+
+/** Pagination metadata in any of the shapes the list endpoints have used. */
+type PageMeta = {
+  page?: number | undefined;
+  pages?: number | undefined;
+  total_pages?: number | undefined;
+  total?: number | undefined;
+  limit?: number | undefined;
+  has_next?: boolean | undefined;
+};
+
+/**
+ * A single page from a list endpoint: the canonical `{data, pagination}`
+ * envelope, a legacy `{<items>, total, page, limit}` body, the `{items,
+ * pagination}` shape {@link Seclai.paginate} originally accepted, or a bare array.
+ */
+type PageLike<T> =
+  | T[]
+  | ({
+      data?: T[] | undefined;
+      items?: T[] | undefined;
+      pagination?: PageMeta | undefined;
+    } & Omit<PageMeta, "has_next">);
+
+/**
+ * Read the items and the "is there another page" signal out of any list shape.
+ *
+ * `hasNext` is `undefined` when the body carries nothing to decide it from; the
+ * caller then falls back to `total` or to a short page.
+ */
+function readPage<T>(
+  res: unknown,
+  itemsKey?: string,
+): { items: T[]; hasNext: boolean | undefined; total: number | undefined } {
+  if (Array.isArray(res)) return { items: res as T[], hasNext: undefined, total: undefined };
+  if (!res || typeof res !== "object") return { items: [], hasNext: false, total: undefined };
+
+  const body = res as Record<string, unknown> & PageMeta & { pagination?: PageMeta };
+  const raw = body.data ?? (itemsKey ? body[itemsKey] : undefined) ?? body.items;
+  const items = Array.isArray(raw) ? (raw as T[]) : [];
+
+  const meta: PageMeta = body.pagination ?? body;
+  let hasNext: boolean | undefined;
+  if (typeof meta.has_next === "boolean") {
+    hasNext = meta.has_next;
+  } else {
+    const pages = meta.pages ?? meta.total_pages;
+    if (meta.page !== undefined && pages !== undefined) {
+      hasNext = meta.page < pages;
+    } else if (meta.page !== undefined && meta.limit !== undefined && meta.total !== undefined) {
+      hasNext = meta.page * meta.limit < meta.total;
+    }
+  }
+  return { items, hasNext, total: meta.total };
+}
+
+/** Add the caller's sort options to a `{ page, limit }` request. */
+function withSort(
+  page: { page: number; limit: number; signal?: AbortSignal | undefined },
+  opts: Pick<SortableListOptions, "sort" | "order">,
+): SortableListOptions {
+  return {
+    ...page,
+    ...(opts.sort !== undefined ? { sort: opts.sort } : {}),
+    ...(opts.order !== undefined ? { order: opts.order } : {}),
+  };
+}
+
 type SseMessage = { event?: string; data?: string };
 
 function createSseParser(onMessage: (msg: SseMessage) => void) {
@@ -328,6 +542,15 @@ function createSseParser(onMessage: (msg: SseMessage) => void) {
   return { feed, end: dispatch };
 }
 
+/** Run statuses after which a run no longer changes. */
+const TERMINAL_RUN_STATUSES: ReadonlySet<string> = new Set(["completed", "failed", "cancelled"]);
+
+/** Throw {@link SeclaiDefinitionValidationError} listing every issue in `definition`. */
+function assertValidDefinition(definition: { [key: string]: unknown }): void {
+  const issues = validateAgentDefinition(definition);
+  if (issues.length > 0) throw new SeclaiDefinitionValidationError(issues);
+}
+
 function anySignal(signals: Array<AbortSignal | undefined>): AbortSignal | undefined {
   const present = signals.filter(Boolean) as AbortSignal[];
   if (present.length === 0) return undefined;
@@ -344,6 +567,31 @@ function anySignal(signals: Array<AbortSignal | undefined>): AbortSignal | undef
   return controller.signal;
 }
 
+/**
+ * Arm a timeout for one call, combined with the caller's signal.
+ *
+ * With no positive `timeoutMs` the caller's signal is passed through untouched.
+ */
+function startTimeout(
+  timeoutMs: number | undefined,
+  signal: AbortSignal | undefined,
+): { signal: AbortSignal | undefined; timedOut: () => boolean; clear: () => void } {
+  if (!timeoutMs || timeoutMs <= 0 || !Number.isFinite(timeoutMs)) {
+    return { signal, timedOut: () => false, clear: () => {} };
+  }
+  const controller = new AbortController();
+  let timedOut = false;
+  const timeoutId = setTimeout(() => {
+    timedOut = true;
+    controller.abort();
+  }, timeoutMs);
+  return {
+    signal: anySignal([signal, controller.signal]),
+    timedOut: () => timedOut,
+    clear: () => clearTimeout(timeoutId),
+  };
+}
+
 function toBlob(
   file: Blob | Uint8Array | ArrayBuffer | BufferSource,
   mimeType?: string,
@@ -354,29 +602,6 @@ function toBlob(
   return new Blob([file as unknown as BlobPart], opts);
 }
 
-const MIME_TYPES: Record<string, string> = {
-  txt: "text/plain", html: "text/html", htm: "text/html", md: "text/markdown",
-  csv: "text/csv", xml: "text/xml", json: "application/json",
-  pdf: "application/pdf", doc: "application/msword",
-  docx: "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
-  ppt: "application/vnd.ms-powerpoint",
-  pptx: "application/vnd.openxmlformats-officedocument.presentationml.presentation",
-  xls: "application/vnd.ms-excel",
-  xlsx: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
-  msg: "application/vnd.ms-outlook", zip: "application/zip",
-  epub: "application/epub+zip",
-  png: "image/png", jpg: "image/jpeg", jpeg: "image/jpeg", gif: "image/gif",
-  bmp: "image/bmp", tiff: "image/tiff", webp: "image/webp",
-  mp3: "audio/mpeg", wav: "audio/wav", m4a: "audio/mp4", flac: "audio/flac",
-  ogg: "audio/ogg", mp4: "video/mp4", mov: "video/quicktime", avi: "video/x-msvideo",
-};
-
-function inferMimeType(fileName: string | undefined): string | undefined {
-  if (!fileName) return undefined;
-  const ext = fileName.split(".").pop()?.toLowerCase();
-  return ext ? MIME_TYPES[ext] : undefined;
-}
-
 // ─── Client ──────────────────────────────────────────────────────────────────
 
 /**
@@ -407,10 +632,24 @@ export class Seclai {
   private readonly baseUrl: string;
   private readonly defaultHeaders: Record<string, string>;
   private readonly fetcher: FetchLike;
+  private readonly retry: RetryOptions | undefined;
+  private readonly timeoutMs: number | undefined;
   private _authState: AuthState | null = null;
   private _authInitPromise: Promise<void> | null = null;
   private _authInitError: SeclaiConfigurationError | null = null;
 
+  private _agents: AgentsResource | undefined;
+  private _knowledgeBases: KnowledgeBasesResource | undefined;
+  private _memoryBanks: MemoryBanksResource | undefined;
+  private _sources: SourcesResource | undefined;
+  private _contents: ContentsResource | undefined;
+  private _solutions: SolutionsResource | undefined;
+  private _governance: GovernanceResource | undefined;
+  private _alerts: AlertsResource | undefined;
+  private _models: ModelsResource | undefined;
+  private _email: EmailResource | undefined;
+  private _ai: AiAssistantResource | undefined;
+
   /**
    * Create a new Seclai client.
    *
@@ -481,7 +720,9 @@ export class Seclai {
       );
     }
     this.defaultHeaders = merged;
-    this.fetcher = fetcher;
+    this.fetcher = applyMiddleware(fetcher, opts.middleware ?? []);
+    this.retry = opts.retry;
+    this.timeoutMs = opts.timeoutMs;
 
     // Resolve credential chain (may be async for SSO profile loading)
     const accessTokenProvider =
@@ -498,7 +739,7 @@ export class Seclai {
       autoRefresh: opts.autoRefresh,
       accountId: opts.accountId,
       apiKeyHeader: opts.apiKeyHeader,
-      fetch: fetcher,
+      fetch: this.fetcher,
     }).then((state) => {
       this._authState = state;
     }).catch((err) => {
@@ -508,6 +749,61 @@ export class Seclai {
     });
   }
 
+  /** Agents, their definitions, runs and evaluations. */
+  get agents(): AgentsResource {
+    return (this._agents ??= new AgentsResource(this));
+  }
+
+  /** Knowledge bases. */
+  get knowledgeBases(): KnowledgeBasesResource {
+    return (this._knowledgeBases ??= new KnowledgeBasesResource(this));
+  }
+
+  /** Memory banks. */
+  get memoryBanks(): MemoryBanksResource {
+    return (this._memoryBanks ??= new MemoryBanksResource(this));
+  }
+
+  /** Sources, their uploads, exports and embedding migrations. */
+  get sources(): SourcesResource {
+    return (this._sources ??= new SourcesResource(this));
+  }
+
+  /** Content versions and their embeddings. */
+  get contents(): ContentsResource {
+    return (this._contents ??= new ContentsResource(this));
+  }
+
+  /** Solutions, their linked resources, conversations and AI assistant. */
+  get solutions(): SolutionsResource {
+    return (this._solutions ??= new SolutionsResource(this));
+  }
+
+  /** Governance AI assistant. */
+  get governance(): GovernanceResource {
+    return (this._governance ??= new GovernanceResource(this));
+  }
+
+  /** Alerts, alert configs and alert preferences. */
+  get alerts(): AlertsResource {
+    return (this._alerts ??= new AlertsResource(this));
+  }
+
+  /** Models, model alerts and playground experiments. */
+  get models(): ModelsResource {
+    return (this._models ??= new ModelsResource(this));
+  }
+
+  /** Agent email domains, opt-outs, blocked senders and inbound status. */
+  get email(): EmailResource {
+    return (this._email ??= new EmailResource(this));
+  }
+
+  /** Top-level AI assistant. */
+  get ai(): AiAssistantResource {
+    return (this._ai ??= new AiAssistantResource(this));
+  }
+
   /** Ensure the credential chain has been resolved. */
   private async ensureAuth(): Promise<AuthState> {
     if (this._authInitPromise) {
@@ -531,6 +827,73 @@ export class Seclai {
     return resolveAuthHeaders(state);
   }
 
+  /**
+   * Send a request through the fetcher, retrying transient failures per the
+   * resolved retry policy.
+   *
+   * Returns the last response whatever its status — callers own the error
+   * mapping — including one whose `Retry-After` exceeds the policy's
+   * `maxDelayMs`, which is not waited out. A network error is rethrown once
+   * attempts are exhausted, and an aborted signal is never retried.
+   */
+  private async send(
+    method: string,
+    url: URL,
+    init: RequestInit,
+    retry?: RetryOptions | false,
+  ): Promise<Response> {
+    const policy = resolveRetryPolicy(this.retry, retry);
+    const maxAttempts = isRetryableMethod(method, policy) ? Math.max(1, policy.maxAttempts) : 1;
+    const signal = init.signal ?? undefined;
+
+    for (let attempt = 1; ; attempt++) {
+      let response: Response;
+      try {
+        response = await this.fetcher(url, init);
+      } catch (err) {
+        if (attempt >= maxAttempts || !policy.retryOnNetworkError || signal?.aborted) throw err;
+        await sleep(backoffDelay(attempt, policy), signal);
+        continue;
+      }
+
+      if (attempt >= maxAttempts || !policy.retryOnStatus.includes(response.status)) {
+        return response;
+      }
+
+      const retryAfterMs = parseRetryAfter(response.headers.get("retry-after"));
+      const delay = computeRetryDelay(attempt, policy, retryAfterMs);
+      // The server asked for a longer wait than the policy allows; let the caller see it.
+      if (delay === undefined) return response;
+      // Release the connection before waiting; the body is never read.
+      await response.body?.cancel().catch(() => undefined);
+      await sleep(delay, signal);
+    }
+  }
+
+  /**
+   * Run one call under a timeout combined with the caller's signal, turning
+   * expiry into a {@link SeclaiTimeoutError}.
+   */
+  private async withTimeout<T>(
+    method: string,
+    url: URL,
+    timeoutMs: number | undefined,
+    signal: AbortSignal | undefined,
+    run: (signal: AbortSignal | undefined) => Promise<T>,
+  ): Promise<T> {
+    const timeout = startTimeout(timeoutMs, signal);
+    try {
+      return await run(timeout.signal);
+    } catch (err) {
+      if (timeout.timedOut()) {
+        throw new SeclaiTimeoutError({ method, url: url.toString(), timeoutMs: timeoutMs! });
+      }
+      throw err;
+    } finally {
+      timeout.clear();
+    }
+  }
+
   // ═══════════════════════════════════════════════════════════════════════════
   // Low-level request
   // ═══════════════════════════════════════════════════════════════════════════
@@ -542,10 +905,11 @@ export class Seclai {
    *
    * @param method - HTTP method (e.g. `"GET"`, `"POST"`).
    * @param path - Request path relative to `baseUrl` (e.g. `"/sources/"`).
-   * @param opts - Query params, JSON body, per-request headers, and optional AbortSignal.
+   * @param opts - Query params, JSON body, per-request headers, optional AbortSignal, and retry and timeout overrides.
    * @returns Parsed JSON for JSON responses, raw text for non-JSON responses, or `null` for empty bodies.
    * @throws {@link SeclaiAPIValidationError} For validation errors (typically HTTP 422).
    * @throws {@link SeclaiAPIStatusError} For other non-success HTTP status codes.
+   * @throws {@link SeclaiTimeoutError} If the call exceeds its timeout.
    */
   async request(
     method: string,
@@ -554,7 +918,11 @@ export class Seclai {
       query?: Record<string, unknown>;
       json?: unknown;
       headers?: Record<string, string>;
-      signal?: AbortSignal;
+      signal?: AbortSignal | undefined;
+      /** Override the client's retry policy for this call, or `false` to send once. */
+      retry?: RetryOptions | false;
+      /** Override the client's timeout for this call, in ms. `0` disables it. */
+      timeoutMs?: number;
     }
   ): Promise<unknown | string | null> {
     const url = buildURL(this.baseUrl, path, opts?.query);
@@ -572,48 +940,31 @@ export class Seclai {
       body = JSON.stringify(opts.json);
     }
 
-    const init: RequestInit = { method, headers };
-    if (body !== undefined) {
-      init.body = body;
-    }
-    if (opts?.signal) {
-      init.signal = opts.signal;
-    }
-    const response = await this.fetcher(url, init);
-
-    if (response.status === 204) return null;
-
-    const contentType = response.headers.get("content-type") ?? "";
-    const isJson = contentType.includes("application/json");
-
-    if (!response.ok) {
-      const responseText = await safeText(response);
-      if (response.status === 422) {
-        const validation = await safeJson(response);
-        throw new SeclaiAPIValidationError({
-          message: "Validation error",
-          statusCode: response.status,
-          method,
-          url: url.toString(),
-          responseText,
-          validationError: validation,
-        });
+    const timeoutMs = opts?.timeoutMs ?? this.timeoutMs;
+    return await this.withTimeout(method, url, timeoutMs, opts?.signal, async (signal) => {
+      const init: RequestInit = { method, headers };
+      if (body !== undefined) {
+        init.body = body;
       }
-      throw new SeclaiAPIStatusError({
-        message: `Request failed with status ${response.status}`,
-        statusCode: response.status,
-        method,
-        url: url.toString(),
-        responseText,
-      });
-    }
+      if (signal) {
+        init.signal = signal;
+      }
+      const response = await this.send(method, url, init, opts?.retry);
 
-    if (!response.body) return null;
+      if (response.status === 204) return null;
 
-    if (isJson) {
-      return (await response.json()) as unknown;
-    }
-    return await response.text();
+      const contentType = response.headers.get("content-type") ?? "";
+      const isJson = contentType.includes("application/json");
+
+      if (!response.ok) throw await statusError(response, method, url);
+
+      if (!response.body) return null;
+
+      if (isJson) {
+        return (await response.json()) as unknown;
+      }
+      return await response.text();
+    });
   }
 
   /**
@@ -621,10 +972,11 @@ export class Seclai {
    *
    * @param method - HTTP method.
    * @param path - Request path relative to `baseUrl`.
-   * @param opts - Query params, JSON body, per-request headers, and optional AbortSignal.
+   * @param opts - Query params, JSON body, per-request headers, optional AbortSignal, and retry and timeout overrides.
    * @returns The raw `Response` object.
    * @throws {SeclaiAPIValidationError} On HTTP 422 responses.
    * @throws {SeclaiAPIStatusError} On other non-2xx responses.
+   * @throws {SeclaiTimeoutError} If the response headers do not arrive within the timeout.
    */
   async requestRaw(
     method: string,
@@ -633,7 +985,11 @@ export class Seclai {
       query?: Record<string, unknown>;
       json?: unknown;
       headers?: Record<string, string>;
-      signal?: AbortSignal;
+      signal?: AbortSignal | undefined;
+      /** Override the client's retry policy for this call, or `false` to send once. */
+      retry?: RetryOptions | false;
+      /** Override the client's timeout for this call, in ms. `0` disables it. */
+      timeoutMs?: number;
     }
   ): Promise<Response> {
     const url = buildURL(this.baseUrl, path, opts?.query);
@@ -651,47 +1007,42 @@ export class Seclai {
       body = JSON.stringify(opts.json);
     }
 
-    const init: RequestInit = { method, headers };
-    if (body !== undefined) init.body = body;
-    if (opts?.signal) init.signal = opts.signal;
-
-    const response = await this.fetcher(url, init);
-
-    if (!response.ok) {
-      const responseText = await safeText(response);
-      if (response.status === 422) {
-        const validation = await safeJson(response);
-        throw new SeclaiAPIValidationError({
-          message: "Validation error",
-          statusCode: response.status,
-          method,
-          url: url.toString(),
-          responseText,
-          validationError: validation,
-        });
-      }
-      throw new SeclaiAPIStatusError({
-        message: `Request failed with status ${response.status}`,
-        statusCode: response.status,
-        method,
-        url: url.toString(),
-        responseText,
-      });
-    }
+    // The timer stops once headers arrive: the caller reads the body, and a
+    // long download must not be cut off by a timeout meant for the request.
+    const timeoutMs = opts?.timeoutMs ?? this.timeoutMs;
+    return await this.withTimeout(method, url, timeoutMs, opts?.signal, async (signal) => {
+      const init: RequestInit = { method, headers };
+      if (body !== undefined) init.body = body;
+      if (signal) init.signal = signal;
+
+      const response = await this.send(method, url, init, opts?.retry);
+
+      if (!response.ok) throw await statusError(response, method, url);
 
-    return response;
+      return response;
+    });
   }
 
-  /** Shared multipart upload helper. */
+  /**
+   * Shared multipart upload helper.
+   *
+   * Buffered payloads go through `FormData`. Streams, and any payload when
+   * `onUploadProgress` is set, are sent as a hand-built multipart body that is
+   * read as fetch sends it; such a body cannot be replayed, so it is sent once.
+   */
   private async uploadFile(
     path: string,
     opts: {
-      file: Blob | Uint8Array | ArrayBuffer | BufferSource;
+      file: UploadSource;
       title?: string;
       metadata?: Record<string, unknown>;
       fileName?: string;
       mimeType?: string;
+      size?: number;
+      onUploadProgress?: UploadProgressCallback;
       signal?: AbortSignal;
+      /** Override the client's timeout for this upload, in ms. `0` disables it. */
+      timeoutMs?: number;
     },
   ): Promise<unknown> {
     const url = buildURL(this.baseUrl, path);
@@ -705,42 +1056,58 @@ export class Seclai {
     delete headers["content-type"];
     delete headers["Content-Type"];
 
-    const form = new FormData();
     const mimeType = opts.mimeType ?? inferMimeType(opts.fileName);
-    const blob = toBlob(opts.file, mimeType);
-    form.set("file", blob, opts.fileName ?? "upload");
-
-    if (opts.title !== undefined) form.set("title", opts.title);
-    if (opts.metadata !== undefined) form.set("metadata", JSON.stringify(opts.metadata));
-
-    const init: RequestInit = { method: "POST", headers, body: form };
-    if (opts.signal) init.signal = opts.signal;
-
-    const response = await this.fetcher(url, init);
-
-    if (!response.ok) {
-      const responseText = await safeText(response);
-      if (response.status === 422) {
-        const validation = await safeJson(response);
-        throw new SeclaiAPIValidationError({
-          message: "Validation error",
-          statusCode: response.status,
-          method: "POST",
-          url: url.toString(),
-          responseText,
-          validationError: validation,
-        });
+    const fileName = opts.fileName ?? "upload";
+    let body: BodyInit;
+    let multipart: MultipartBody | undefined;
+    if (isStreamSource(opts.file) || opts.onUploadProgress) {
+      let file: ReadableStream<Uint8Array> | AsyncIterable<Uint8Array | string>;
+      let size: number;
+      if (isStreamSource(opts.file)) {
+        if (opts.size === undefined) {
+          throw new SeclaiConfigurationError("Uploading a stream requires its size in bytes as `size`.");
+        }
+        file = opts.file;
+        size = opts.size;
+      } else {
+        const blob = toBlob(opts.file, mimeType);
+        file = blob.stream();
+        size = blob.size;
       }
-      throw new SeclaiAPIStatusError({
-        message: `Request failed with status ${response.status}`,
-        statusCode: response.status,
-        method: "POST",
-        url: url.toString(),
-        responseText,
-      });
+      const fields: [string, string][] = [];
+      if (opts.title !== undefined) fields.push(["title", opts.title]);
+      if (opts.metadata !== undefined) fields.push(["metadata", JSON.stringify(opts.metadata)]);
+      multipart = multipartBody({ fields, file, size, fileName, mimeType, onProgress: opts.onUploadProgress });
+      headers["content-type"] = multipart.contentType;
+      headers["content-length"] = String(multipart.contentLength);
+      body = multipart.body;
+    } else {
+      const form = new FormData();
+      form.set("file", toBlob(opts.file, mimeType), fileName);
+      if (opts.title !== undefined) form.set("title", opts.title);
+      if (opts.metadata !== undefined) form.set("metadata", JSON.stringify(opts.metadata));
+      body = form;
     }
 
-    return await response.json();
+    const timeoutMs = opts.timeoutMs ?? this.timeoutMs;
+    return await this.withTimeout("POST", url, timeoutMs, opts.signal, async (signal) => {
+      // `duplex` is required by fetch for stream bodies but missing from the DOM typings.
+      const init: RequestInit & { duplex?: "half" } = { method: "POST", headers, body };
+      if (multipart) init.duplex = "half";
+      if (signal) init.signal = signal;
+
+      let response: Response;
+      try {
+        response = await this.send("POST", url, init, multipart ? false : undefined);
+      } catch (err) {
+        // fetch reports a failed body stream as a bare network error; surface the cause.
+        throw multipart?.failure ?? err;
+      }
+
+      if (!response.ok) throw await statusError(response, "POST", url);
+
+      return await response.json();
+    });
   }
 
   // ═══════════════════════════════════════════════════════════════════════════
@@ -805,6 +1172,7 @@ export class Seclai {
   async listAgents(opts: ListOptions = {}): Promise<AgentListResponse> {
     return (await this.request("GET", "/agents", {
       query: { page: opts.page, limit: opts.limit },
+      signal: opts.signal,
     })) as AgentListResponse;
   }
 
@@ -812,9 +1180,17 @@ export class Seclai {
    * Create a new agent.
    *
    * @param body - Agent creation payload (name, trigger type, template, etc.).
+   * @param opts - `validate` checks `agent_definition` with
+   *   {@link validateAgentDefinition} before sending. It accepts both the
+   *   {@link exportAgent} shape and a bare definition.
    * @returns Summary of the created agent.
+   * @throws {@link SeclaiDefinitionValidationError} If `validate` is set and the definition fails.
    */
-  async createAgent(body: CreateAgentRequest): Promise<AgentSummaryResponse> {
+  async createAgent(body: CreateAgentRequest, opts: { validate?: boolean } = {}): Promise<AgentSummaryResponse> {
+    if (opts.validate && body.agent_definition) {
+      const exported = body.agent_definition["agent"] as { definition?: unknown } | undefined;
+      assertValidDefinition(isJsonObject(exported?.definition) ? exported.definition : body.agent_definition);
+    }
     return (await this.request("POST", "/agents", { json: body })) as AgentSummaryResponse;
   }
 
@@ -952,12 +1328,130 @@ export class Seclai {
    *
    * @param agentId - Agent identifier.
    * @param body - Updated definition payload.
+   * @param opts - `validate` checks the definition with {@link validateAgentDefinition} before sending.
    * @returns Updated agent definition.
+   * @throws {@link SeclaiDefinitionValidationError} If `validate` is set and the definition fails.
    */
-  async updateAgentDefinition(agentId: string, body: UpdateAgentDefinitionRequest): Promise<AgentDefinitionResponse> {
+  async updateAgentDefinition(
+    agentId: string,
+    body: UpdateAgentDefinitionRequest,
+    opts: { validate?: boolean } = {},
+  ): Promise<AgentDefinitionResponse> {
+    if (opts.validate) assertValidDefinition(body.definition);
     return (await this.request("PUT", `/agents/${agentId}/definition`, { json: body })) as AgentDefinitionResponse;
   }
 
+  /**
+   * Edit an agent's definition with optimistic locking.
+   *
+   * Fetches the definition, applies `mutator` to a copy and submits the result
+   * with the fetched `change_id` as `expected_change_id`. When someone else
+   * saved in between (HTTP 409), it refetches and reapplies the mutator, so the
+   * mutator must be safe to run more than once.
+   *
+   * @param agentId - Agent identifier.
+   * @param mutator - Returns the new definition, given a copy of the current one
+   *   and the full response it came from.
+   * @param opts - `maxAttempts` bounds the fetch/apply/submit cycles (default 3);
+   *   `validate` checks each mutated definition before it is submitted.
+   * @returns The saved definition, including any `warnings`.
+   * @throws {@link SeclaiConflictError} If every attempt conflicted.
+   * @throws {@link SeclaiDefinitionValidationError} If `validate` is set and the mutated definition fails.
+   *
+   * @example
+   * ```ts
+   * await client.modifyAgentDefinition("agent-id", (def) => ({ ...def, description: "Updated" }));
+   * ```
+   */
+  async modifyAgentDefinition(
+    agentId: string,
+    mutator: (
+      definition: AgentDefinitionResponse["definition"],
+      current: AgentDefinitionResponse,
+    ) => AgentDefinitionResponse["definition"] | Promise<AgentDefinitionResponse["definition"]>,
+    opts: { maxAttempts?: number; validate?: boolean } = {},
+  ): Promise<AgentDefinitionResponse> {
+    const maxAttempts = Math.max(1, opts.maxAttempts ?? 3);
+    for (let attempt = 1; ; attempt++) {
+      const current = await this.getAgentDefinition(agentId);
+      const definition = await mutator(structuredClone(current.definition), current);
+      try {
+        return await this.updateAgentDefinition(
+          agentId,
+          { definition, expected_change_id: current.change_id },
+          { validate: opts.validate ?? false },
+        );
+      } catch (err) {
+        if (!(err instanceof SeclaiConflictError) || attempt >= maxAttempts) throw err;
+      }
+    }
+  }
+
+  /**
+   * Compare agent export files with this account: which agents would be
+   * created, which definitions updated, and which references do not resolve.
+   * Makes no changes. Agents are matched by name; none are ever deleted.
+   *
+   * @param source - A directory of `*.json` files from {@link exportAgent}
+   *   (**Node.js only**), or the exports themselves.
+   * @param opts - `entityRemap` maps source-account ids to ids in this account.
+   * @returns The plan, to review and pass to {@link applyAgentSync}.
+   * @throws {@link SeclaiError} If a file is not an agent export, or a name matches several agents.
+   *
+   * @example
+   * ```ts
+   * const plan = await prod.planAgentSync("./agents", { entityRemap: { [devKbId]: prodKbId } });
+   * for (const c of plan.changes) console.log(c.action, c.name, c.unresolvedRefs);
+   * const results = await prod.applyAgentSync(plan);
+   * ```
+   */
+  async planAgentSync(source: string | AgentFile[], opts: PlanAgentSyncOptions = {}): Promise<AgentSyncPlan> {
+    return planAgentSync(this, source, opts);
+  }
+
+  /**
+   * Carry out a plan from {@link planAgentSync}: create new agents with
+   * `entity_remap`, and update changed definitions with `expected_change_id`,
+   * so a definition edited since planning fails instead of being overwritten.
+   * Stops at the first failure.
+   *
+   * @param plan - The plan to apply.
+   * @param opts - `allowUnresolved` applies despite unresolved references;
+   *   `validate` checks definitions before sending.
+   * @returns One result per planned agent, in plan order.
+   * @throws {@link SeclaiError} If the plan has unresolved references and `allowUnresolved` is not set.
+   */
+  async applyAgentSync(plan: AgentSyncPlan, opts: ApplyAgentSyncOptions = {}): Promise<AgentSyncResult[]> {
+    return applyAgentSync(this, plan, opts);
+  }
+
+  /**
+   * Copy an agent to another account, relinking what its workflow references.
+   *
+   * Exports the agent, previews the import in `to`, and resolves each
+   * unresolved reference: by name among the target's knowledge bases, memory
+   * banks, source connections and agents, or from an explicit map. With
+   * `createMissing`, unmatched memory banks and knowledge bases are created
+   * from the source's settings and sub-agents are migrated too.
+   *
+   * Every reference is resolved first, including those of sub-agents and the
+   * sources of knowledge bases to create, so nothing is written unless all of
+   * them resolve (or `allowUnresolved` is set). If a create call itself fails,
+   * the dependencies created before it remain in the target account.
+   *
+   * @param opts - The agent, the `from`/`to` clients, and how to remap.
+   * @returns The new agent and a report of each reference.
+   *
+   * @example
+   * ```ts
+   * const { agent, unresolved } = await dev.migrateAgent({ agentId, to: prod, createMissing: true });
+   * if (!agent) console.error(unresolved.map((u) => `${u.ref.ref_name}: ${u.reason}`));
+   * ```
+   */
+  async migrateAgent(opts: MigrateAgentOptions): Promise<MigrateAgentResult> {
+    return migrateAgent(opts.from ?? this, opts);
+  }
+
   // ═══════════════════════════════════════════════════════════════════════════
   // Agent Runs
   // ═══════════════════════════════════════════════════════════════════════════
@@ -986,6 +1480,7 @@ export class Seclai {
   ): Promise<AgentRunListResponse> {
     return (await this.request("GET", `/agents/${agentId}/runs`, {
       query: { page: opts.page, limit: opts.limit, status: opts.status },
+      signal: opts.signal,
     })) as AgentRunListResponse;
   }
 
@@ -1054,14 +1549,15 @@ export class Seclai {
    *
    * @param agentId - Agent identifier.
    * @param body - Streaming run request payload.
-   * @param opts - Timeout and abort signal options.
-   * @returns Final agent run payload from the `done` event.
+   * @param opts - Timeout, abort signal and resume options.
+   * @returns Final agent run payload from the `done` event — or, with `resume`,
+   *   from polling after a dropped connection.
    * @throws {@link SeclaiStreamingError} If the stream ends before a `done` event.
    */
   async runStreamingAgentAndWait(
     agentId: string,
     body: AgentRunStreamRequest,
-    opts?: { timeoutMs?: number; signal?: AbortSignal },
+    opts?: StreamingRunOptions,
   ): Promise<AgentRunResponse> {
     const url = buildURL(this.baseUrl, `/agents/${agentId}/runs/stream`);
 
@@ -1095,27 +1591,7 @@ export class Seclai {
       const contentType = response.headers.get("content-type") ?? "";
       const isJson = contentType.includes("application/json");
 
-      if (!response.ok) {
-        const responseText = await safeText(response);
-        if (response.status === 422) {
-          const validation = await safeJson(response);
-          throw new SeclaiAPIValidationError({
-            message: "Validation error",
-            statusCode: response.status,
-            method: "POST",
-            url: url.toString(),
-            responseText,
-            validationError: validation,
-          });
-        }
-        throw new SeclaiAPIStatusError({
-          message: `Request failed with status ${response.status}`,
-          statusCode: response.status,
-          method: "POST",
-          url: url.toString(),
-          responseText,
-        });
-      }
+      if (!response.ok) throw await statusError(response, "POST", url);
 
       // If server returned JSON instead of SSE
       if (isJson) {
@@ -1144,15 +1620,22 @@ export class Seclai {
         }
       });
 
-      while (!final) {
-        const { value, done } = await reader.read();
-        if (done) break;
-        if (value) parser.feed(decoder.decode(value, { stream: true }));
+      try {
+        while (!final) {
+          const { value, done } = await reader.read();
+          if (done) break;
+          if (value) parser.feed(decoder.decode(value, { stream: true }));
+        }
+      } catch (err) {
+        if (!opts?.resume || !lastSeen?.run_id || signal?.aborted) throw err;
       }
 
       parser.end();
 
       if (final) return final;
+      if (opts?.resume && lastSeen?.run_id) {
+        return await this.awaitTerminalRun(lastSeen.run_id, opts.pollIntervalMs ?? 2_000, signal);
+      }
       if (lastSeen && (lastSeen as any).status && (lastSeen as any).status !== "pending") {
         return lastSeen;
       }
@@ -1179,8 +1662,9 @@ export class Seclai {
    *
    * @param agentId - Agent identifier.
    * @param body - Streaming run request payload.
-   * @param opts - Timeout and abort signal options.
-   * @yields {@link AgentRunEvent} for each SSE message.
+   * @param opts - Timeout, abort signal and resume options.
+   * @yields {@link AgentRunEvent} for each SSE message. With `resume`, a dropped
+   *   connection ends with a synthetic `done` event carrying the polled run.
    *
    * @example
    * ```ts
@@ -1194,7 +1678,7 @@ export class Seclai {
   async *runStreamingAgent(
     agentId: string,
     body: AgentRunStreamRequest,
-    opts?: { timeoutMs?: number; signal?: AbortSignal },
+    opts?: StreamingRunOptions,
   ): AsyncGenerator<AgentRunEvent, void, undefined> {
     const url = buildURL(this.baseUrl, `/agents/${agentId}/runs/stream`);
 
@@ -1216,6 +1700,8 @@ export class Seclai {
 
     const signal = anySignal([opts?.signal, timeoutController.signal]);
 
+    let runId: string | undefined;
+
     try {
       const init: RequestInit = { method: "POST", headers, body: JSON.stringify(body) };
       if (signal) init.signal = signal;
@@ -1225,27 +1711,7 @@ export class Seclai {
       const contentType = response.headers.get("content-type") ?? "";
       const isJson = contentType.includes("application/json");
 
-      if (!response.ok) {
-        const responseText = await safeText(response);
-        if (response.status === 422) {
-          const validation = await safeJson(response);
-          throw new SeclaiAPIValidationError({
-            message: "Validation error",
-            statusCode: response.status,
-            method: "POST",
-            url: url.toString(),
-            responseText,
-            validationError: validation,
-          });
-        }
-        throw new SeclaiAPIStatusError({
-          message: `Request failed with status ${response.status}`,
-          statusCode: response.status,
-          method: "POST",
-          url: url.toString(),
-          responseText,
-        });
-      }
+      if (!response.ok) throw await statusError(response, "POST", url);
 
       // If server returned JSON instead of SSE, yield it as a single "done" event
       if (isJson) {
@@ -1275,13 +1741,30 @@ export class Seclai {
         events.push({ event: msg.event ?? "message", data });
       });
 
+      let finished = false;
+      const take = (): AgentRunEvent => {
+        const event = events.shift()!;
+        if (isInitEvent(event)) runId ??= event.data.run_id;
+        if (event.event === "done") finished = true;
+        return event;
+      };
+
       while (true) {
-        const { value, done } = await reader.read();
-        if (value) parser.feed(decoder.decode(value, { stream: true }));
+        let done: boolean;
+        try {
+          const chunk = await reader.read();
+          done = chunk.done;
+          if (chunk.value) parser.feed(decoder.decode(chunk.value, { stream: true }));
+        } catch (err) {
+          if (!opts?.resume || !runId || finished || signal?.aborted) throw err;
+          break;
+        }
 
-        // Yield all events that were parsed from this chunk
+        // Yield all events that were parsed from this chunk. This stays outside
+        // the try so an error the consumer throws into the generator is not
+        // mistaken for a dropped connection.
         while (events.length > 0) {
-          yield events.shift()!;
+          yield take();
         }
 
         if (done) break;
@@ -1290,12 +1773,18 @@ export class Seclai {
 
       // Yield any remaining events from end()
       while (events.length > 0) {
-        yield events.shift()!;
+        yield take();
+      }
+
+      if (opts?.resume && runId && !finished) {
+        const data = await this.awaitTerminalRun(runId, opts.pollIntervalMs ?? 2_000, signal);
+        yield { event: "done", data };
       }
     } catch (err) {
       if (timedOut) {
         throw new SeclaiStreamingError(
-          `Timed out after ${timeoutMs}ms waiting for streaming agent run to complete.`
+          `Timed out after ${timeoutMs}ms waiting for streaming agent run to complete.`,
+          runId,
         );
       }
       throw err;
@@ -1304,6 +1793,77 @@ export class Seclai {
     }
   }
 
+  /**
+   * Run an agent in streaming mode and rebuild the text of its
+   * `streaming_result` steps token by token.
+   *
+   * The request is sent when the returned stream is first consumed.
+   *
+   * @param agentId - Agent identifier.
+   * @param body - Streaming run request payload.
+   * @param opts - Timeout, abort signal and resume options.
+   * @returns An {@link AgentTextStream} of text deltas and the final run.
+   *
+   * @example
+   * ```ts
+   * const stream = client.streamAgentText("agent-id", { input: "Hello!" });
+   * for await (const { delta } of stream) process.stdout.write(delta);
+   * console.log((await stream.finalRun()).credits);
+   * ```
+   */
+  streamAgentText(
+    agentId: string,
+    body: AgentRunStreamRequest,
+    opts?: StreamingRunOptions,
+  ): AgentTextStream {
+    return new AgentTextStream(this.runStreamingAgent(agentId, body, opts));
+  }
+
+  /**
+   * Run an agent in streaming mode behind an event-emitter style handle.
+   *
+   * Also available as `client.agents.stream()`. The request starts
+   * immediately; see {@link RunStream} for callbacks, `finalRun()`, `abort()`
+   * and async iteration.
+   *
+   * @param agentId - Agent identifier.
+   * @param body - Streaming run request payload.
+   * @param opts - Timeout, abort signal and resume options.
+   * @returns A {@link RunStream} for the run.
+   */
+  streamAgentRun(
+    agentId: string,
+    body: AgentRunStreamRequest,
+    opts?: StreamingRunOptions,
+  ): RunStream {
+    return new RunStream((signal) =>
+      this.runStreamingAgent(agentId, body, { ...opts, signal: anySignal([opts?.signal, signal])! }),
+    );
+  }
+
+  /**
+   * Poll a run whose stream dropped until it reaches a terminal status.
+   *
+   * @param runId - Run identifier captured from the `init` event.
+   * @param pollIntervalMs - Delay between polls.
+   * @param signal - The stream's combined caller/timeout signal.
+   */
+  private async awaitTerminalRun(
+    runId: string,
+    pollIntervalMs: number,
+    signal: AbortSignal | undefined,
+  ): Promise<AgentRunResponse> {
+    while (true) {
+      const run = (await this.request(
+        "GET",
+        `/agents/runs/${runId}`,
+        signal ? { signal } : undefined,
+      )) as AgentRunResponse;
+      if (TERMINAL_RUN_STATUSES.has(run.status)) return run;
+      await sleep(pollIntervalMs, signal);
+    }
+  }
+
   // ═══════════════════════════════════════════════════════════════════════════
   // Agent Runs — Polling
   // ═══════════════════════════════════════════════════════════════════════════
@@ -1351,8 +1911,7 @@ export class Seclai {
       const current = await this.getAgentRun(runId,
         opts?.includeStepOutputs ? { includeStepOutputs: true } : undefined,
       );
-      const status = (current as any).status;
-      if (status === "completed" || status === "failed" || status === "cancelled") {
+      if (TERMINAL_RUN_STATUSES.has((current as any).status)) {
         return current;
       }
     }
@@ -1379,6 +1938,7 @@ export class Seclai {
     // envelope once the caller opts in with apiVersion 2026-07-27 or later.
     const res = (await this.request("GET", `/agents/${agentId}/runs/${runId}/evaluation-results`, {
       query: { page: opts.page, limit: opts.limit },
+      signal: opts.signal,
     })) as EvaluationResultWithCriteriaListResponse | EvaluationResultWithCriteriaListResponse["data"];
     return Array.isArray(res)
       ? ({ data: res } as EvaluationResultWithCriteriaListResponse)
@@ -1393,7 +1953,8 @@ export class Seclai {
    * Upload a file to use as input for a `dynamic_input` agent run.
    *
    * After uploading, poll {@link getAgentInputUploadStatus} until `status` is `ready`,
-   * then pass `input_upload_id` to {@link runAgent}.
+   * then pass `input_upload_id` to {@link runAgent}. Streams and progress
+   * callbacks work as in {@link uploadFileToSource}.
    *
    * @param agentId - Agent identifier.
    * @param opts - File payload and optional metadata.
@@ -1402,9 +1963,16 @@ export class Seclai {
   async uploadAgentInput(
     agentId: string,
     opts: {
-      file: Blob | Uint8Array | ArrayBuffer | BufferSource;
+      file: UploadSource;
       fileName?: string;
       mimeType?: string;
+      /** Size of `file` in bytes; required when it is a stream. */
+      size?: number;
+      /** Called as the file is sent, with bytes sent and the total. */
+      onUploadProgress?: UploadProgressCallback;
+      signal?: AbortSignal;
+      /** Override the client's timeout for this upload, in ms. `0` disables it. */
+      timeoutMs?: number;
     },
   ): Promise<UploadAgentInputApiResponse> {
     return (await this.uploadFile(`/agents/${agentId}/upload-input`, opts)) as UploadAgentInputApiResponse;
@@ -1458,6 +2026,46 @@ export class Seclai {
     });
   }
 
+  /**
+   * Download the file an attachment reference points to — one found in a run
+   * output manifest or a webhook/email payload with {@link findAttachmentRefs}.
+   *
+   * Encodes the reference's `storage_key` as the `attachment_id` and passes its
+   * `name` as the download name.
+   *
+   * @param runId - The run that produced the attachment.
+   * @param ref - The attachment reference.
+   * @returns Raw response with the attachment bytes.
+   */
+  async downloadAttachmentRef(runId: string, ref: AttachmentRef): Promise<Response> {
+    return await this.downloadAgentRunAttachment(
+      runId,
+      encodeAttachmentId(ref.storage_key),
+      ref.name ? { downloadName: ref.name } : {},
+    );
+  }
+
+  /**
+   * Iterate over the files a run's steps produced.
+   *
+   * Fetches the run with its step outputs and yields each attachment
+   * referenced there, or in the run's final output, once. Each handle carries
+   * the MIME type and name from the manifest and downloads on demand.
+   *
+   * @param runId - Run identifier.
+   * @yields A downloadable {@link RunAttachment} per storage key.
+   *
+   * @example
+   * ```ts
+   * for await (const file of client.listRunAttachments("run_id")) {
+   *   if (file.mime?.startsWith("image/")) images.push(await file.arrayBuffer());
+   * }
+   * ```
+   */
+  listRunAttachments(runId: string): AsyncGenerator<RunAttachment, void, undefined> {
+    return listRunAttachments(this, runId);
+  }
+
   // ═══════════════════════════════════════════════════════════════════════════
   // Agent AI Assistant (Steps Generation)
   // ═══════════════════════════════════════════════════════════════════════════
@@ -1557,6 +2165,7 @@ export class Seclai {
   ): Promise<EvaluationCriteriaListResponse> {
     const res = (await this.request("GET", `/agents/${agentId}/evaluation-criteria`, {
       query: { page: opts.page, limit: opts.limit },
+      signal: opts.signal,
     })) as EvaluationCriteriaResponse[] | EvaluationCriteriaListResponse;
     return Array.isArray(res) ? { data: res } : res;
   }
@@ -1621,6 +2230,7 @@ export class Seclai {
   async listEvaluationResults(criteriaId: string, opts: ListOptions = {}): Promise<EvaluationResultListResponse> {
     return (await this.request("GET", `/agents/evaluation-criteria/${criteriaId}/results`, {
       query: { page: opts.page, limit: opts.limit },
+      signal: opts.signal,
     })) as EvaluationResultListResponse;
   }
 
@@ -1644,6 +2254,7 @@ export class Seclai {
   async listCompatibleRuns(criteriaId: string, opts: ListOptions = {}): Promise<CompatibleRunListResponse> {
     return (await this.request("GET", `/agents/evaluation-criteria/${criteriaId}/compatible-runs`, {
       query: { page: opts.page, limit: opts.limit },
+      signal: opts.signal,
     })) as CompatibleRunListResponse;
   }
 
@@ -1667,6 +2278,7 @@ export class Seclai {
   async listAgentEvaluationResults(agentId: string, opts: ListOptions = {}): Promise<EvaluationResultWithCriteriaListResponse> {
     return (await this.request("GET", `/agents/${agentId}/evaluation-results`, {
       query: { page: opts.page, limit: opts.limit },
+      signal: opts.signal,
     })) as EvaluationResultWithCriteriaListResponse;
   }
 
@@ -1679,6 +2291,7 @@ export class Seclai {
   async listEvaluationRuns(agentId: string, opts: ListOptions = {}): Promise<EvaluationRunSummaryListResponse> {
     return (await this.request("GET", `/agents/${agentId}/evaluation-runs`, {
       query: { page: opts.page, limit: opts.limit },
+      signal: opts.signal,
     })) as EvaluationRunSummaryListResponse;
   }
 
@@ -1734,10 +2347,11 @@ export class Seclai {
    * @returns The page of opt-outs plus the total count.
    */
   async listAgentEmailOptOuts(
-    opts: { agentId?: string; limit?: number; offset?: number } = {},
+    opts: { agentId?: string; limit?: number; offset?: number; signal?: AbortSignal | undefined } = {},
   ): Promise<AgentEmailOptOutListResponse> {
     return (await this.request("GET", "/agents/agent-email-optouts", {
       query: { agent_id: opts.agentId, limit: opts.limit, offset: opts.offset },
+      signal: opts.signal,
     })) as AgentEmailOptOutListResponse;
   }
 
@@ -1759,10 +2373,11 @@ export class Seclai {
    * @param opts.offset - Rows to skip (default 0).
    */
   async listBlockedEmailSenders(
-    opts: { limit?: number; offset?: number } = {},
+    opts: { limit?: number; offset?: number; signal?: AbortSignal | undefined } = {},
   ): Promise<BlockedEmailSenderListResponse> {
     return (await this.request("GET", "/agents/blocked-email-senders", {
       query: { limit: opts.limit, offset: opts.offset },
+      signal: opts.signal,
     })) as BlockedEmailSenderListResponse;
   }
 
@@ -1868,6 +2483,7 @@ export class Seclai {
   async listKnowledgeBases(opts: SortableListOptions = {}): Promise<KnowledgeBaseListResponse> {
     return (await this.request("GET", "/knowledge_bases", {
       query: { page: opts.page, limit: opts.limit, sort: opts.sort, order: opts.order },
+      signal: opts.signal,
     })) as KnowledgeBaseListResponse;
   }
 
@@ -1924,6 +2540,7 @@ export class Seclai {
   async listMemoryBanks(opts: SortableListOptions = {}): Promise<MemoryBankListResponse> {
     return (await this.request("GET", "/memory_banks", {
       query: { page: opts.page, limit: opts.limit, sort: opts.sort, order: opts.order },
+      signal: opts.signal,
     })) as MemoryBankListResponse;
   }
 
@@ -2082,6 +2699,7 @@ export class Seclai {
         order: opts.order,
         account_id: opts.accountId,
       },
+      signal: opts.signal,
     })) as SourceListResponse;
   }
 
@@ -2131,6 +2749,15 @@ export class Seclai {
    * Maximum file size: 200 MiB. Supports text, PDF, DOCX, audio, video, images, and more.
    * If `mimeType` is omitted, it will be inferred from the `fileName` extension when possible.
    *
+   * `file` may be a `ReadableStream` or an async iterable such as a Node.js
+   * `ReadStream`, given with its `size`; it is streamed rather than buffered.
+   * Stream uploads and uploads with `onUploadProgress` are sent once, without
+   * retries, and need a runtime whose fetch supports request body streams
+   * (Node.js 18+, Chromium-based browsers).
+   *
+   * The client's `timeoutMs` spans the whole upload, sending the body included;
+   * give a large file a longer `timeoutMs`, or `0` for none.
+   *
    * @param sourceId - Source connection identifier.
    * @param opts - File payload and optional metadata.
    * @returns Upload response details.
@@ -2138,16 +2765,64 @@ export class Seclai {
   async uploadFileToSource(
     sourceId: string,
     opts: {
-      file: Blob | Uint8Array | ArrayBuffer | BufferSource;
+      file: UploadSource;
       title?: string;
       metadata?: Record<string, unknown>;
       fileName?: string;
       mimeType?: string;
+      /** Size of `file` in bytes; required when it is a stream. */
+      size?: number;
+      /** Called as the file is sent, with bytes sent and the total. */
+      onUploadProgress?: UploadProgressCallback;
+      signal?: AbortSignal;
+      /** Override the client's timeout for this upload, in ms. `0` disables it. */
+      timeoutMs?: number;
     },
   ): Promise<FileUploadResponse> {
     return (await this.uploadFile(`/sources/${sourceId}/upload`, opts)) as FileUploadResponse;
   }
 
+  /**
+   * Upload a file from disk to a source, streaming it.
+   *
+   * **Node.js only** — uses `node:fs`.
+   *
+   * `fileName` defaults to the path's base name. The MIME type is detected
+   * from the file's magic bytes (see `sniffMimeType()`), so a missing or
+   * wrong extension does not matter; files without magic bytes, such as text,
+   * fall back to the extension. Use `registerMimeType()` to add types.
+   *
+   * @param sourceId - Source connection identifier.
+   * @param filePath - Path of the file to upload.
+   * @param opts - Optional metadata, overrides for the name and type, and a progress callback.
+   * @returns Upload response details.
+   * @throws {@link SeclaiConfigurationError} If `filePath` is not a file.
+   */
+  async uploadPathToSource(
+    sourceId: string,
+    filePath: string,
+    opts: {
+      title?: string;
+      metadata?: Record<string, unknown>;
+      fileName?: string;
+      mimeType?: string;
+      onUploadProgress?: UploadProgressCallback;
+      signal?: AbortSignal;
+      /** Override the client's timeout for this upload, in ms. `0` disables it. */
+      timeoutMs?: number;
+    } = {},
+  ): Promise<FileUploadResponse> {
+    const upload = await openPathUpload(filePath);
+    const mimeType = opts.mimeType ?? upload.mimeType;
+    return await this.uploadFileToSource(sourceId, {
+      ...opts,
+      file: upload.file,
+      size: upload.size,
+      fileName: opts.fileName ?? upload.fileName,
+      ...(mimeType ? { mimeType } : {}),
+    });
+  }
+
   /**
    * Upload inline text to a source.
    *
@@ -2171,6 +2846,7 @@ export class Seclai {
   async listSourceExports(sourceId: string, opts: ListOptions = {}): Promise<ExportListResponse> {
     return (await this.request("GET", `/sources/${sourceId}/exports`, {
       query: { page: opts.page, limit: opts.limit },
+      signal: opts.signal,
     })) as ExportListResponse;
   }
 
@@ -2219,6 +2895,56 @@ export class Seclai {
     return await this.requestRaw("GET", `/sources/${sourceId}/exports/${exportId}/download`);
   }
 
+  /**
+   * Download a completed source export straight to a file, without holding it
+   * in memory.
+   *
+   * The body is written to `${path}.part` and renamed to `path` once the byte
+   * count matches `Content-Length`, so `path` only ever holds a whole file. If
+   * the download fails, the `.part` file is kept and the next call resumes
+   * from it with an HTTP Range request (when the server supports ranges).
+   *
+   * **Node.js only** — uses `node:fs`. In browsers use {@link downloadSourceExportToBlob}.
+   *
+   * @param sourceId - Source connection identifier.
+   * @param exportId - Export identifier.
+   * @param path - Destination file.
+   * @param opts - `onProgress` callback, `resume` (default `true`) and abort signal.
+   * @returns The path, final size, and whether the download resumed.
+   * @throws {@link SeclaiError} If the body ends short of the announced size.
+   *
+   * @example
+   * ```ts
+   * await client.downloadSourceExportToFile("source_id", "export_id", "./export.parquet", {
+   *   onProgress: ({ loaded, total }) => console.log(total ? `${Math.round((loaded / total) * 100)}%` : loaded),
+   * });
+   * ```
+   */
+  async downloadSourceExportToFile(
+    sourceId: string,
+    exportId: string,
+    path: string,
+    opts: DownloadToFileOptions = {},
+  ): Promise<DownloadToFileResult> {
+    return await downloadToFile(sourceExportDownload(this, sourceId, exportId), path, opts);
+  }
+
+  /**
+   * Download a completed source export into a `Blob`, reporting progress.
+   *
+   * For browsers; in Node.js prefer {@link downloadSourceExportToFile}, which
+   * does not buffer the export in memory.
+   *
+   * @param sourceId - Source connection identifier.
+   * @param exportId - Export identifier.
+   * @param opts - `onProgress` callback and abort signal.
+   * @returns The export, typed with the response's content type.
+   * @throws {@link SeclaiError} If the body ends short of the announced size.
+   */
+  async downloadSourceExportToBlob(sourceId: string, exportId: string, opts: DownloadOptions = {}): Promise<Blob> {
+    return await downloadToBlob(sourceExportDownload(this, sourceId, exportId), opts);
+  }
+
   /**
    * Estimate a source export.
    *
@@ -2325,11 +3051,13 @@ export class Seclai {
   ): Promise<ContentEmbeddingsListResponse> {
     return (await this.request("GET", `/contents/${contentVersionId}/embeddings`, {
       query: { page: opts.page ?? 1, limit: opts.limit ?? 20 },
+      signal: opts.signal,
     })) as ContentEmbeddingsListResponse;
   }
 
   /**
    * Upload a file to replace content for an existing content version.
+   * Streams and progress callbacks work as in {@link uploadFileToSource}.
    *
    * @param contentVersionId - Content version identifier.
    * @param opts - File payload and optional metadata.
@@ -2338,11 +3066,18 @@ export class Seclai {
   async uploadFileToContent(
     contentVersionId: string,
     opts: {
-      file: Blob | Uint8Array | ArrayBuffer | BufferSource;
+      file: UploadSource;
       title?: string;
       metadata?: Record<string, unknown>;
       fileName?: string;
       mimeType?: string;
+      /** Size of `file` in bytes; required when it is a stream. */
+      size?: number;
+      /** Called as the file is sent, with bytes sent and the total. */
+      onUploadProgress?: UploadProgressCallback;
+      signal?: AbortSignal;
+      /** Override the client's timeout for this upload, in ms. `0` disables it. */
+      timeoutMs?: number;
     },
   ): Promise<ContentFileUploadResponse> {
     return (await this.uploadFile(`/contents/${contentVersionId}/upload`, opts)) as ContentFileUploadResponse;
@@ -2361,6 +3096,7 @@ export class Seclai {
   async listSolutions(opts: SortableListOptions = {}): Promise<SolutionListResponse> {
     return (await this.request("GET", "/solutions", {
       query: { page: opts.page, limit: opts.limit, sort: opts.sort, order: opts.order },
+      signal: opts.signal,
     })) as SolutionListResponse;
   }
 
@@ -2472,6 +3208,42 @@ export class Seclai {
     return (await this.request("DELETE", `/solutions/${solutionId}/source-connections`, { json: body })) as SolutionResponse;
   }
 
+  /**
+   * Export a solution with everything needed to recreate it elsewhere: agent
+   * exports, knowledge base, source connection and memory bank settings,
+   * including what its agents depend on without being linked.
+   *
+   * @param solutionId - Solution identifier.
+   * @returns A JSON-serializable {@link SolutionBundle}. Source content is not included.
+   */
+  async exportSolutionBundle(solutionId: string): Promise<SolutionBundle> {
+    return exportSolutionBundle(this, solutionId);
+  }
+
+  /**
+   * Recreate a solution from {@link exportSolutionBundle} in this account:
+   * create its sources, memory banks, knowledge bases and agents with ids
+   * relinked, then create the solution and link them. Resources created
+   * before a failure are left in place.
+   *
+   * @param bundle - The bundle, e.g. `JSON.parse` of a saved file.
+   * @param opts - `name` overrides the solution name.
+   * @returns The new solution and the bundled-to-new id map.
+   * @throws {@link SeclaiError} If `bundle` is not a version 1 solution bundle.
+   *
+   * @example
+   * ```ts
+   * const bundle = await dev.exportSolutionBundle("solution-id");
+   * const { solution, idMap } = await prod.importSolutionBundle(bundle);
+   * ```
+   */
+  async importSolutionBundle(
+    bundle: SolutionBundle,
+    opts: ImportSolutionBundleOptions = {},
+  ): Promise<ImportSolutionBundleResult> {
+    return importSolutionBundle(this, bundle, opts);
+  }
+
   // ─── Solution Conversations ────────────────────────────────────────────────
 
   /**
@@ -2620,6 +3392,7 @@ export class Seclai {
     // call sites keep working.
     return (await this.request("GET", "/alerts", {
       query: { page: opts.page, limit: opts.limit, status: opts.status },
+      signal: opts.signal,
     })) as AlertListResponse;
   }
 
@@ -2688,6 +3461,7 @@ export class Seclai {
   async listAlertConfigs(opts: ListOptions = {}): Promise<AlertConfigListResponse> {
     return (await this.request("GET", "/alerts/configs", {
       query: { page: opts.page, limit: opts.limit },
+      signal: opts.signal,
     })) as AlertConfigListResponse;
   }
 
@@ -2775,6 +3549,7 @@ export class Seclai {
     const offset = opts.page && opts.page > 1 ? (opts.page - 1) * limit : undefined;
     return (await this.request("GET", "/models/alerts", {
       query: { offset, limit: opts.limit },
+      signal: opts.signal,
     })) as ModelAlertListResponse;
   }
 
@@ -2868,9 +3643,10 @@ export class Seclai {
    *
    * @param opts - Optional filters and pagination.
    */
-  async listExperiments(opts: { days?: number; startDate?: string; endDate?: string; limit?: number; offset?: number } = {}): Promise<ExperimentListResponse> {
+  async listExperiments(opts: { days?: number; startDate?: string; endDate?: string; limit?: number; offset?: number; signal?: AbortSignal | undefined } = {}): Promise<ExperimentListResponse> {
     return (await this.request("GET", "/models/playground/experiments", {
       query: { days: opts.days, start_date: opts.startDate, end_date: opts.endDate, limit: opts.limit, offset: opts.offset },
+      signal: opts.signal,
     })) as ExperimentListResponse;
   }
 
@@ -3179,10 +3955,17 @@ export class Seclai {
    * Auto-paginate through a list endpoint.
    *
    * Yields individual items from each page, automatically fetching the next page
-   * until all items have been returned.
+   * until all items have been returned. Understands every list shape the API
+   * returns — the canonical `{data, pagination}` envelope (following
+   * `pagination.has_next`), the legacy flat `total`/`page`/`limit` bodies, and
+   * bare arrays — so it keeps working across `apiVersion` changes.
    *
-   * @param fetchPage - A function that fetches a single page given `{ page, limit }`.
-   * @param opts - Page size (default: 50).
+   * Prefer the typed `iter*` helpers (such as {@link iterAgents}) where one exists.
+   *
+   * @param fetchPage - A function that fetches a single page given `{ page, limit, signal }`;
+   *   pass `signal` on to the list call so an abort cancels the request in flight.
+   * @param opts - Page size (default: 50), item cap, and abort signal.
+   * @throws The signal's reason (an `AbortError` by default) if `opts.signal` aborts.
    *
    * @example
    * ```ts
@@ -3194,26 +3977,319 @@ export class Seclai {
    * ```
    */
   async *paginate<T>(
-    fetchPage: (opts: { page: number; limit: number }) => Promise<{ items: T[]; pagination?: { page: number; total_pages: number } }>,
-    opts?: { limit?: number },
+    fetchPage: (opts: { page: number; limit: number; signal?: AbortSignal | undefined }) => Promise<PageLike<T>>,
+    opts?: IterateOptions,
   ): AsyncGenerator<T, void, undefined> {
-    const limit = opts?.limit ?? 50;
-    let page = 1;
+    yield* this.iterate<T>(fetchPage, undefined, opts);
+  }
 
-    while (true) {
-      const result = await fetchPage({ page, limit });
-      for (const item of result.items) {
+  /** Shared page walker behind {@link paginate} and the `iter*` helpers. */
+  private async *iterate<T>(
+    fetchPage: (opts: { page: number; limit: number; signal?: AbortSignal | undefined }) => Promise<unknown>,
+    itemsKey: string | undefined,
+    opts: IterateOptions = {},
+  ): AsyncGenerator<T, void, undefined> {
+    const limit = opts.limit ?? 50;
+    const maxItems = opts.maxItems ?? Infinity;
+    let seen = 0;
+
+    for (let page = 1; seen < maxItems; page++) {
+      opts.signal?.throwIfAborted();
+      const { items, hasNext, total } = readPage<T>(await fetchPage({ page, limit, signal: opts.signal }), itemsKey);
+
+      for (const item of items) {
+        if (seen >= maxItems) return;
+        opts.signal?.throwIfAborted();
         yield item;
+        seen++;
       }
 
-      if (
-        !result.pagination ||
-        result.items.length < limit ||
-        page >= result.pagination.total_pages
-      ) {
-        break;
+      if (items.length === 0 || hasNext === false) return;
+      if (hasNext === undefined) {
+        if (total !== undefined ? seen >= total : items.length < limit) return;
       }
-      page++;
     }
   }
+
+  // ─── Typed iterators ───────────────────────────────────────────────────────
+
+  /**
+   * Iterate over every agent.
+   *
+   * @param opts - Page size, item cap, and abort signal.
+   * @yields Each {@link AgentSummaryResponse}.
+   */
+  iterAgents(opts?: IterateOptions): AsyncGenerator<AgentSummaryResponse, void, undefined> {
+    return this.iterate((p) => this.listAgents(p), undefined, opts);
+  }
+
+  /**
+   * Iterate over every run of an agent.
+   *
+   * @param agentId - Agent identifier.
+   * @param opts - Status filter, page size, item cap, and abort signal.
+   * @yields Each {@link AgentRunResponse}.
+   */
+  iterAgentRuns(
+    agentId: string,
+    opts: IterateOptions & { status?: string } = {},
+  ): AsyncGenerator<AgentRunResponse, void, undefined> {
+    return this.iterate(
+      (p) => this.listAgentRuns(agentId, opts.status !== undefined ? { ...p, status: opts.status } : p),
+      undefined,
+      opts,
+    );
+  }
+
+  /**
+   * Iterate over every evaluation result recorded against one agent run.
+   *
+   * @param agentId - Agent identifier.
+   * @param runId - Run identifier.
+   * @param opts - Page size, item cap, and abort signal.
+   * @yields Each {@link EvaluationResultWithCriteriaResponse}.
+   */
+  iterRunEvaluationResults(
+    agentId: string,
+    runId: string,
+    opts?: IterateOptions,
+  ): AsyncGenerator<EvaluationResultWithCriteriaResponse, void, undefined> {
+    return this.iterate((p) => this.listRunEvaluationResults(agentId, runId, p), undefined, opts);
+  }
+
+  /**
+   * Iterate over every evaluation criteria of an agent.
+   *
+   * @param agentId - Agent identifier.
+   * @param opts - Page size, item cap, and abort signal.
+   * @yields Each {@link EvaluationCriteriaResponse}.
+   */
+  iterEvaluationCriteria(
+    agentId: string,
+    opts?: IterateOptions,
+  ): AsyncGenerator<EvaluationCriteriaResponse, void, undefined> {
+    return this.iterate((p) => this.listEvaluationCriteriaPage(agentId, p), undefined, opts);
+  }
+
+  /**
+   * Iterate over every result of an evaluation criteria.
+   *
+   * @param criteriaId - Criteria identifier.
+   * @param opts - Page size, item cap, and abort signal.
+   * @yields Each {@link EvaluationResultResponse}.
+   */
+  iterEvaluationResults(
+    criteriaId: string,
+    opts?: IterateOptions,
+  ): AsyncGenerator<EvaluationResultResponse, void, undefined> {
+    return this.iterate((p) => this.listEvaluationResults(criteriaId, p), undefined, opts);
+  }
+
+  /**
+   * Iterate over every run compatible with an evaluation criteria.
+   *
+   * @param criteriaId - Criteria identifier.
+   * @param opts - Page size, item cap, and abort signal.
+   * @yields Each {@link CompatibleRunResponse}.
+   */
+  iterCompatibleRuns(
+    criteriaId: string,
+    opts?: IterateOptions,
+  ): AsyncGenerator<CompatibleRunResponse, void, undefined> {
+    return this.iterate((p) => this.listCompatibleRuns(criteriaId, p), undefined, opts);
+  }
+
+  /**
+   * Iterate over every evaluation result of an agent.
+   *
+   * @param agentId - Agent identifier.
+   * @param opts - Page size, item cap, and abort signal.
+   * @yields Each {@link EvaluationResultWithCriteriaResponse}.
+   */
+  iterAgentEvaluationResults(
+    agentId: string,
+    opts?: IterateOptions,
+  ): AsyncGenerator<EvaluationResultWithCriteriaResponse, void, undefined> {
+    return this.iterate((p) => this.listAgentEvaluationResults(agentId, p), undefined, opts);
+  }
+
+  /**
+   * Iterate over every evaluation run summary of an agent.
+   *
+   * @param agentId - Agent identifier.
+   * @param opts - Page size, item cap, and abort signal.
+   * @yields Each {@link EvaluationRunSummaryResponse}.
+   */
+  iterEvaluationRuns(
+    agentId: string,
+    opts?: IterateOptions,
+  ): AsyncGenerator<EvaluationRunSummaryResponse, void, undefined> {
+    return this.iterate((p) => this.listEvaluationRuns(agentId, p), undefined, opts);
+  }
+
+  /**
+   * Iterate over every agent-email opt-out.
+   *
+   * @param opts - Agent filter, page size, item cap, and abort signal.
+   * @yields Each {@link AgentEmailOptOutResponse}.
+   */
+  iterAgentEmailOptOuts(
+    opts: IterateOptions & { agentId?: string } = {},
+  ): AsyncGenerator<AgentEmailOptOutResponse, void, undefined> {
+    return this.iterate(
+      ({ page, limit, signal }) => this.listAgentEmailOptOuts({
+        ...(opts.agentId !== undefined ? { agentId: opts.agentId } : {}),
+        limit,
+        offset: (page - 1) * limit,
+        signal,
+      }),
+      undefined,
+      opts,
+    );
+  }
+
+  /**
+   * Iterate over every blocked inbound email sender.
+   *
+   * @param opts - Page size, item cap, and abort signal.
+   * @yields Each {@link BlockedEmailSenderResponse}.
+   */
+  iterBlockedEmailSenders(opts?: IterateOptions): AsyncGenerator<BlockedEmailSenderResponse, void, undefined> {
+    return this.iterate(
+      ({ page, limit, signal }) => this.listBlockedEmailSenders({ limit, offset: (page - 1) * limit, signal }),
+      undefined,
+      opts,
+    );
+  }
+
+  /**
+   * Iterate over every knowledge base.
+   *
+   * @param opts - Sorting, page size, item cap, and abort signal.
+   * @yields Each {@link KnowledgeBaseResponse}.
+   */
+  iterKnowledgeBases(
+    opts: IterateOptions & Pick<SortableListOptions, "sort" | "order"> = {},
+  ): AsyncGenerator<KnowledgeBaseResponse, void, undefined> {
+    return this.iterate((p) => this.listKnowledgeBases(withSort(p, opts)), "knowledge_bases", opts);
+  }
+
+  /**
+   * Iterate over every memory bank.
+   *
+   * @param opts - Sorting, page size, item cap, and abort signal.
+   * @yields Each {@link MemoryBankResponse}.
+   */
+  iterMemoryBanks(
+    opts: IterateOptions & Pick<SortableListOptions, "sort" | "order"> = {},
+  ): AsyncGenerator<MemoryBankResponse, void, undefined> {
+    return this.iterate((p) => this.listMemoryBanks(withSort(p, opts)), "memory_banks", opts);
+  }
+
+  /**
+   * Iterate over every source.
+   *
+   * @param opts - Sorting, account filter, page size, item cap, and abort signal.
+   * @yields Each {@link SourceResponse}.
+   */
+  iterSources(
+    opts: IterateOptions & Pick<SortableListOptions, "sort" | "order"> & { accountId?: string } = {},
+  ): AsyncGenerator<SourceResponse, void, undefined> {
+    return this.iterate(
+      (p) => this.listSources({
+        ...withSort(p, opts),
+        ...(opts.accountId !== undefined ? { accountId: opts.accountId } : {}),
+      }),
+      undefined,
+      opts,
+    );
+  }
+
+  /**
+   * Iterate over every export of a source.
+   *
+   * @param sourceId - Source connection identifier.
+   * @param opts - Page size, item cap, and abort signal.
+   * @yields Each {@link ExportResponse}.
+   */
+  iterSourceExports(sourceId: string, opts?: IterateOptions): AsyncGenerator<ExportResponse, void, undefined> {
+    return this.iterate((p) => this.listSourceExports(sourceId, p), undefined, opts);
+  }
+
+  /**
+   * Iterate over every embedding of a content version.
+   *
+   * @param contentVersionId - Content version identifier.
+   * @param opts - Page size, item cap, and abort signal.
+   * @yields Each {@link ContentEmbeddingResponse}.
+   */
+  iterContentEmbeddings(
+    contentVersionId: string,
+    opts?: IterateOptions,
+  ): AsyncGenerator<ContentEmbeddingResponse, void, undefined> {
+    return this.iterate((p) => this.listContentEmbeddings(contentVersionId, p), undefined, opts);
+  }
+
+  /**
+   * Iterate over every solution.
+   *
+   * @param opts - Sorting, page size, item cap, and abort signal.
+   * @yields Each {@link SolutionSummaryResponse}.
+   */
+  iterSolutions(
+    opts: IterateOptions & Pick<SortableListOptions, "sort" | "order"> = {},
+  ): AsyncGenerator<SolutionSummaryResponse, void, undefined> {
+    return this.iterate((p) => this.listSolutions(withSort(p, opts)), undefined, opts);
+  }
+
+  /**
+   * Iterate over every alert.
+   *
+   * @param opts - Status filter, page size, item cap, and abort signal.
+   * @yields Each {@link AlertResponse}.
+   */
+  iterAlerts(opts: IterateOptions & { status?: string } = {}): AsyncGenerator<AlertResponse, void, undefined> {
+    return this.iterate(
+      (p) => this.listAlerts(opts.status !== undefined ? { ...p, status: opts.status } : p),
+      undefined,
+      opts,
+    );
+  }
+
+  /**
+   * Iterate over every alert configuration.
+   *
+   * @param opts - Page size, item cap, and abort signal.
+   * @yields Each {@link AlertConfigResponse}.
+   */
+  iterAlertConfigs(opts?: IterateOptions): AsyncGenerator<AlertConfigResponse, void, undefined> {
+    return this.iterate((p) => this.listAlertConfigs(p), "configs", opts);
+  }
+
+  /**
+   * Iterate over every model lifecycle alert.
+   *
+   * @param opts - Page size, item cap, and abort signal.
+   * @yields Each {@link ModelAlertResponse}.
+   */
+  iterModelAlerts(opts?: IterateOptions): AsyncGenerator<ModelAlertResponse, void, undefined> {
+    return this.iterate((p) => this.listModelAlerts(p), "alerts", opts);
+  }
+
+  /**
+   * Iterate over every model playground experiment.
+   *
+   * @param opts - Date filters, page size, item cap, and abort signal.
+   * @yields Each {@link ExperimentSummaryResponse}.
+   */
+  iterExperiments(
+    opts: IterateOptions & { days?: number; startDate?: string; endDate?: string } = {},
+  ): AsyncGenerator<ExperimentSummaryResponse, void, undefined> {
+    const { limit: _limit, maxItems: _maxItems, signal: _signal, ...filters } = opts;
+    return this.iterate(
+      ({ page, limit, signal }) => this.listExperiments({ ...filters, limit, offset: (page - 1) * limit, signal }),
+      "experiments",
+      opts,
+    );
+  }
 }
@@ -0,0 +1,422 @@
+/**
+ * @module
+ *
+ * Step-aware diff and three-way merge of agent definitions. Steps are matched
+ * by `id`, so a step that moved to another parent shows up as moved rather
+ * than as one removal and one addition.
+ */
+import { walkSteps, type AgentDefinition, type AgentStep } from "./definition";
+import { SeclaiError } from "./errors";
+import { isJsonObject } from "./events";
+
+type Definition = AgentDefinition | { [key: string]: unknown };
+
+/** Where a step sits: its parent, the list within the parent, and its index there. */
+export interface StepPosition {
+  /** ID of the parent step; `undefined` for root steps. */
+  parentId: string | undefined;
+  /**
+   * The parent's list holding the step: `child_steps`, `then_steps`,
+   * `else_steps`, `body` or `cases[<match>].steps`. A switch case is named by
+   * its `match` as JSON rather than its index, so removing or reordering cases
+   * leaves the others' steps in place.
+   */
+  slot: string;
+  index: number;
+  /** Path from the definition root, e.g. `child_steps[0].then_steps[1]`. */
+  path: string;
+}
+
+/** One field that differs. `undefined` means the field is absent. */
+export interface FieldChange {
+  field: string;
+  before: unknown;
+  after: unknown;
+}
+
+/** Result of {@link diffAgentDefinitions}. Every list is empty when the definitions match. */
+export interface AgentDefinitionDiff {
+  /** Steps only in `b`. */
+  added: { id: string; step: AgentStep; position: StepPosition }[];
+  /** Steps only in `a`. */
+  removed: { id: string; step: AgentStep; position: StepPosition }[];
+  /** Steps under a different parent or list, or reordered among their siblings. */
+  moved: { id: string; from: StepPosition; to: StepPosition }[];
+  /** Steps whose own fields changed. Changes to their children are reported separately. */
+  modified: { id: string; position: StepPosition; changes: FieldChange[] }[];
+  /** Changed top-level fields such as `name`, `description` and `tags`. */
+  metadata: FieldChange[];
+}
+
+/** A change both sides made differently, reported by {@link mergeAgentDefinitions}. */
+export interface AgentDefinitionMergeConflict {
+  /**
+   * - `metadata`: a top-level field was changed on both sides;
+   * - `field`: a step field was changed on both sides;
+   * - `delete_modify`: one side removed a step the other changed;
+   * - `position`: both sides moved a step to different places;
+   * - `parent_removed`: a step was kept but its parent was not, so it was dropped.
+   */
+  kind: "metadata" | "field" | "delete_modify" | "position" | "parent_removed";
+  stepId: string | undefined;
+  field: string | undefined;
+  ours: unknown;
+  theirs: unknown;
+}
+
+/** Result of {@link mergeAgentDefinitions}. */
+export interface AgentDefinitionMergeResult {
+  /** The merged definition, with conflicts resolved toward the preferred side. */
+  definition: AgentDefinition;
+  /** Every conflict found; empty for a clean merge. */
+  conflicts: AgentDefinitionMergeConflict[];
+}
+
+/** Options for {@link mergeAgentDefinitions}. */
+export interface MergeAgentDefinitionsOptions {
+  /** Side whose change wins a conflict. Defaults to `"ours"`. */
+  prefer?: "ours" | "theirs" | undefined;
+}
+
+// ─── Indexing ────────────────────────────────────────────────────────────────
+
+const LIST_KEYS = ["child_steps", "then_steps", "else_steps", "body"] as const;
+
+interface IndexedStep {
+  step: AgentStep;
+  /** The step without its nested step lists; `cases` keep everything but `steps`. */
+  own: Record<string, unknown>;
+  position: StepPosition;
+  /** Nested list keys the step had, so empty lists survive a merge. */
+  lists: Set<string>;
+}
+
+function ownFields(step: AgentStep): Record<string, unknown> {
+  const own: Record<string, unknown> = { ...step };
+  for (const key of LIST_KEYS) delete own[key];
+  if (Array.isArray(own["cases"])) {
+    own["cases"] = own["cases"].map((c: unknown) => {
+      if (typeof c !== "object" || c === null) return c;
+      const { steps: _, ...rest } = c as Record<string, unknown>;
+      return rest;
+    });
+  }
+  return own;
+}
+
+/** Slot names for a switch step's cases, keyed by `match`; a repeated match gets `#n` appended. */
+function caseSlots(cases: unknown[]): string[] {
+  const seen = new Map<string, number>();
+  return cases.map((c) => {
+    const key = canonical(typeof c === "object" && c !== null ? (c as { match?: unknown }).match : c);
+    const n = seen.get(key) ?? 0;
+    seen.set(key, n + 1);
+    return `cases[${n === 0 ? key : `${key}#${n}`}].steps`;
+  });
+}
+
+function indexSteps(definition: Definition): Map<string, IndexedStep> {
+  const index = new Map<string, IndexedStep>();
+  walkSteps(definition, (step, { path, ancestors }) => {
+    if (typeof step.id !== "string") {
+      throw new SeclaiError(`Step at ${path} has no id; diff and merge match steps by id.`);
+    }
+    if (index.has(step.id)) throw new SeclaiError(`Step id ${JSON.stringify(step.id)} appears more than once.`);
+    const parent = ancestors[ancestors.length - 1];
+    const parentPath = parent ? index.get(parent.id)!.position.path : undefined;
+    const local = parentPath === undefined ? path : path.slice(parentPath.length + 1);
+    let [, slot = local, i = "0"] = /^(.*)\[(\d+)\]$/.exec(local) ?? [];
+    const caseIndex = /^cases\[(\d+)\]\.steps$/.exec(slot)?.[1];
+    if (caseIndex !== undefined && Array.isArray(parent?.["cases"])) {
+      slot = caseSlots(parent["cases"])[Number(caseIndex)] ?? slot;
+    }
+    index.set(step.id, {
+      step,
+      own: ownFields(step),
+      position: { parentId: parent?.id, slot, index: Number(i), path },
+      lists: new Set(LIST_KEYS.filter((key) => Array.isArray(step[key]))),
+    });
+  });
+  return index;
+}
+
+function metadataOf(definition: Definition): Record<string, unknown> {
+  const { child_steps: _, ...rest } = definition;
+  return rest;
+}
+
+// ─── Comparison helpers ──────────────────────────────────────────────────────
+
+/** JSON with object keys sorted, so key order does not count as a difference. */
+function canonical(value: unknown): string {
+  return JSON.stringify(value, (_, v: unknown) =>
+    isJsonObject(v)
+      ? Object.fromEntries(Object.entries(v).sort(([x], [y]) => (x < y ? -1 : x > y ? 1 : 0)))
+      : v,
+  ) ?? "undefined";
+}
+
+const same = (a: unknown, b: unknown): boolean => canonical(a) === canonical(b);
+
+function fieldChanges(before: Record<string, unknown>, after: Record<string, unknown>): FieldChange[] {
+  const fields = [...new Set([...Object.keys(before), ...Object.keys(after)])];
+  return fields
+    .filter((field) => !same(before[field], after[field]))
+    .map((field) => ({ field, before: before[field], after: after[field] }));
+}
+
+const slotKey = (p: StepPosition): string => `${p.parentId ?? ""}\u0000${p.slot}`;
+
+/** Ids of `index`'s steps in each slot, in order. */
+function slotOrders(index: Map<string, IndexedStep>): Map<string, string[]> {
+  const orders = new Map<string, string[]>();
+  for (const [id, { position }] of index) {
+    const key = slotKey(position);
+    const order = orders.get(key) ?? [];
+    order[position.index] = id;
+    orders.set(key, order);
+  }
+  return orders;
+}
+
+/** Longest common subsequence of two id lists. */
+function lcs(a: string[], b: string[]): Set<string> {
+  const table = a.map(() => new Array<number>(b.length + 1).fill(0));
+  table.push(new Array<number>(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      table[i]![j] = a[i] === b[j] ? table[i + 1]![j + 1]! + 1 : Math.max(table[i + 1]![j]!, table[i]![j + 1]!);
+    }
+  }
+  const common = new Set<string>();
+  for (let i = 0, j = 0; i < a.length && j < b.length; ) {
+    if (a[i] === b[j]) {
+      common.add(a[i]!);
+      i++;
+      j++;
+    } else if (table[i + 1]![j]! >= table[i]![j + 1]!) i++;
+    else j++;
+  }
+  return common;
+}
+
+// ─── Diff ────────────────────────────────────────────────────────────────────
+
+/**
+ * Compare two agent definitions step by step.
+ *
+ * A step counts as moved when its parent or list changed, or when it changed
+ * places relative to the siblings both versions share; a step inserted before
+ * it does not make it moved.
+ *
+ * @param a - The earlier definition.
+ * @param b - The later definition.
+ * @throws {@link SeclaiError} If a step has no `id`, or an id repeats.
+ *
+ * @example
+ * ```ts
+ * const diff = diffAgentDefinitions(before.definition, after.definition);
+ * for (const { id, changes } of diff.modified) console.log(id, changes.map((c) => c.field));
+ * ```
+ */
+export function diffAgentDefinitions(a: Definition, b: Definition): AgentDefinitionDiff {
+  const before = indexSteps(a);
+  const after = indexSteps(b);
+  const diff: AgentDefinitionDiff = {
+    added: [],
+    removed: [],
+    moved: [],
+    modified: [],
+    metadata: fieldChanges(metadataOf(a), metadataOf(b)),
+  };
+
+  for (const [id, { step, position }] of before) {
+    if (!after.has(id)) diff.removed.push({ id, step, position });
+  }
+
+  // Siblings kept in the same slot whose relative order survived.
+  const inOrder = new Set<string>();
+  const afterOrders = slotOrders(after);
+  for (const [key, order] of slotOrders(before)) {
+    const kept = (ids: string[]) =>
+      ids.filter((id) => {
+        const x = before.get(id);
+        const y = after.get(id);
+        return x && y && slotKey(x.position) === slotKey(y.position);
+      });
+    for (const id of lcs(kept(order), kept(afterOrders.get(key) ?? []))) inOrder.add(id);
+  }
+
+  for (const [id, { step, own, position }] of after) {
+    const prior = before.get(id);
+    if (!prior) {
+      diff.added.push({ id, step, position });
+      continue;
+    }
+    if (!inOrder.has(id)) diff.moved.push({ id, from: prior.position, to: position });
+    const changes = fieldChanges(prior.own, own);
+    if (changes.length > 0) diff.modified.push({ id, position, changes });
+  }
+  return diff;
+}
+
+// ─── Merge ───────────────────────────────────────────────────────────────────
+
+type Merged = { value: unknown; conflict: boolean };
+
+function merge3(base: unknown, ours: unknown, theirs: unknown, prefer: "ours" | "theirs"): Merged {
+  if (same(ours, theirs)) return { value: ours, conflict: false };
+  if (same(base, ours)) return { value: theirs, conflict: false };
+  if (same(base, theirs)) return { value: ours, conflict: false };
+  return { value: prefer === "ours" ? ours : theirs, conflict: true };
+}
+
+/**
+ * Three-way merge of agent definitions: apply both sides' changes since
+ * `base`, matching steps by `id`.
+ *
+ * Top-level fields and each step's own fields merge field by field; a step's
+ * parent merges independently of its fields. When both sides changed the same
+ * thing differently, `prefer` decides and the clash is reported in
+ * `conflicts`. Sibling order follows the side that reordered a list, or
+ * `prefer` when both did; steps only one side added are placed after their
+ * preceding sibling on that side.
+ *
+ * @param base - The common ancestor, e.g. the definition you started editing.
+ * @param ours - Your edited definition.
+ * @param theirs - The definition saved in the meantime.
+ * @throws {@link SeclaiError} If a step has no `id`, or an id repeats.
+ *
+ * @example
+ * ```ts
+ * // Resolve a 409 from updateAgentDefinition without losing a teammate's edits
+ * const latest = await client.getAgentDefinition(agentId);
+ * const { definition, conflicts } = mergeAgentDefinitions(base.definition, mine, latest.definition);
+ * if (conflicts.length === 0) {
+ *   await client.updateAgentDefinition(agentId, { definition, expected_change_id: latest.change_id });
+ * }
+ * ```
+ */
+export function mergeAgentDefinitions(
+  base: Definition,
+  ours: Definition,
+  theirs: Definition,
+  opts: MergeAgentDefinitionsOptions = {},
+): AgentDefinitionMergeResult {
+  const prefer = opts.prefer ?? "ours";
+  const conflicts: AgentDefinitionMergeConflict[] = [];
+  const B = indexSteps(base);
+  const O = indexSteps(ours);
+  const T = indexSteps(theirs);
+
+  const mergeFields = (
+    b: Record<string, unknown>,
+    o: Record<string, unknown>,
+    t: Record<string, unknown>,
+    onConflict: (field: string) => void,
+  ): Record<string, unknown> => {
+    const result: Record<string, unknown> = {};
+    for (const field of new Set([...Object.keys(o), ...Object.keys(t), ...Object.keys(b)])) {
+      const { value, conflict } = merge3(b[field], o[field], t[field], prefer);
+      if (conflict) onConflict(field);
+      if (value !== undefined) result[field] = value;
+    }
+    return result;
+  };
+
+  const bMeta = metadataOf(base);
+  const oMeta = metadataOf(ours);
+  const tMeta = metadataOf(theirs);
+  const metadata = mergeFields(bMeta, oMeta, tMeta, (field) =>
+    conflicts.push({ kind: "metadata", stepId: undefined, field, ours: oMeta[field], theirs: tMeta[field] }),
+  );
+
+  // Decide which steps survive, with what fields, and where.
+  const survivors = new Map<string, { own: Record<string, unknown>; position: StepPosition; lists: Set<string> }>();
+  for (const id of new Set([...O.keys(), ...T.keys()])) {
+    const b = B.get(id);
+    const o = O.get(id);
+    const t = T.get(id);
+    const lists = new Set([...(b?.lists ?? []), ...(o?.lists ?? []), ...(t?.lists ?? [])]);
+
+    if (b && (!o || !t)) {
+      // Removed on one side: fine unless the other side changed it.
+      const kept = (o ?? t)!;
+      const untouched = same(kept.own, b.own) && slotKey(kept.position) === slotKey(b.position);
+      if (untouched) continue;
+      conflicts.push({ kind: "delete_modify", stepId: id, field: undefined, ours: o?.step, theirs: t?.step });
+      if ((prefer === "ours" ? o : t) === undefined) continue;
+      survivors.set(id, { own: kept.own, position: kept.position, lists });
+      continue;
+    }
+    if (!o || !t) {
+      const only = (o ?? t)!;
+      survivors.set(id, { own: only.own, position: only.position, lists });
+      continue;
+    }
+
+    const own = mergeFields(b?.own ?? {}, o.own, t.own, (field) =>
+      conflicts.push({ kind: "field", stepId: id, field, ours: o.own[field], theirs: t.own[field] }),
+    );
+    const where = merge3(b && slotKey(b.position), slotKey(o.position), slotKey(t.position), prefer);
+    if (where.conflict) {
+      conflicts.push({ kind: "position", stepId: id, field: undefined, ours: o.position, theirs: t.position });
+    }
+    survivors.set(id, { own, position: where.value === slotKey(o.position) ? o.position : t.position, lists });
+  }
+
+  // Order each slot: take the side that reordered it, then fit in the other side's steps.
+  const orders = { base: slotOrders(B), ours: slotOrders(O), theirs: slotOrders(T) };
+  const children = new Map<string, string[]>();
+  for (const key of new Set([...orders.ours.keys(), ...orders.theirs.keys()])) {
+    const here = (ids: string[] | undefined) =>
+      (ids ?? []).filter((id) => {
+        const s = survivors.get(id);
+        return s !== undefined && slotKey(s.position) === key;
+      });
+    const o = here(orders.ours.get(key));
+    const t = here(orders.theirs.get(key));
+    const shared = (ids: string[]) => ids.filter((id) => o.includes(id) && t.includes(id));
+    const baseOrder = shared(here(orders.base.get(key)));
+    const oursReordered = !same(shared(o), baseOrder);
+    const theirsReordered = !same(shared(t), baseOrder);
+    const oursFirst = oursReordered && (!theirsReordered || prefer === "ours");
+    const [primary, secondary] = oursFirst ? [o, t] : [t, o];
+    const order = [...primary];
+    secondary.forEach((id, i) => {
+      if (order.includes(id)) return;
+      const before = secondary.slice(0, i).reverse().find((prev) => order.includes(prev));
+      order.splice(before === undefined ? 0 : order.indexOf(before) + 1, 0, id);
+    });
+    children.set(key, order);
+  }
+
+  // Rebuild the tree from the root.
+  const placed = new Set<string>();
+  const childrenOf = (parentId: string | undefined, slot: string): AgentStep[] =>
+    (children.get(`${parentId ?? ""}\u0000${slot}`) ?? []).map(build);
+  const build = (id: string): AgentStep => {
+    placed.add(id);
+    const { own, lists } = survivors.get(id)!;
+    const step = { ...own } as AgentStep;
+    for (const key of LIST_KEYS) {
+      const nested = childrenOf(id, key);
+      if (nested.length > 0 || lists.has(key)) step[key] = nested;
+    }
+    if (Array.isArray(own["cases"])) {
+      const slots = caseSlots(own["cases"]);
+      step["cases"] = own["cases"].map((c: unknown, i) =>
+        typeof c === "object" && c !== null ? { ...c, steps: childrenOf(id, slots[i]!) } : c,
+      );
+    }
+    return step;
+  };
+  const definition: AgentDefinition = { ...metadata, child_steps: childrenOf(undefined, "child_steps") };
+
+  for (const id of survivors.keys()) {
+    if (!placed.has(id)) {
+      conflicts.push({ kind: "parent_removed", stepId: id, field: undefined, ours: O.get(id)?.step, theirs: T.get(id)?.step });
+    }
+  }
+  return { definition, conflicts };
+}
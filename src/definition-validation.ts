@@ -0,0 +1,115 @@
+/**
+ * @module
+ *
+ * Offline checks of an agent definition against the structural rules the API
+ * enforces, so a bad workflow is caught before `updateAgentDefinition` or
+ * `createAgent` rejects it.
+ */
+import { NON_COMPOSITE_STEP_TYPES, walkSteps, type AgentDefinition, type StepContainer, type StepType } from "./definition";
+
+/** Which rule an {@link AgentDefinitionIssue} breaks. */
+export type AgentDefinitionIssueCode =
+  | "invalid_structure"
+  | "output_in_branch"
+  | "streaming_result_parent"
+  | "retry_target"
+  | "max_retries"
+  | "non_composite_children";
+
+/** One problem found by {@link validateAgentDefinition}. */
+export interface AgentDefinitionIssue {
+  /** Path from the definition root, e.g. `child_steps[0].then_steps[1]`. */
+  path: string;
+  /** ID of the offending step, when it has one. */
+  stepId: string | undefined;
+  code: AgentDefinitionIssueCode;
+  message: string;
+}
+
+const OUTPUT_STEP_TYPES: readonly StepType[] = ["display_result", "streaming_result"];
+const BRANCH_CONTAINERS: readonly StepContainer[] = ["then_steps", "else_steps", "cases"];
+
+/**
+ * Check a definition against the API's structural rules:
+ *
+ * - `display_result` and `streaming_result` cannot appear anywhere inside
+ *   `then_steps`, `else_steps` or `cases[].steps`;
+ * - `streaming_result` must be a direct child of a `prompt_call`;
+ * - a `retry` step's `target_step_id` must name one of its ancestors;
+ * - `max_retries` must be an integer from 1 to 10;
+ * - `display_result`, `join`, `retry` and `streaming_result` cannot have `child_steps`.
+ *
+ * Step config beyond these rules is left to the server.
+ *
+ * @param definition - The definition, e.g. from {@link defineAgent} or `getAgentDefinition().definition`.
+ * @returns Every issue found, in tree order; empty when the definition passes.
+ *
+ * @example
+ * ```ts
+ * for (const issue of validateAgentDefinition(definition)) {
+ *   console.error(`${issue.path}: ${issue.message}`);
+ * }
+ * ```
+ */
+export function validateAgentDefinition(
+  definition: AgentDefinition | { [key: string]: unknown },
+): AgentDefinitionIssue[] {
+  const issues: AgentDefinitionIssue[] = [];
+  if (!Array.isArray(definition.child_steps)) {
+    issues.push({
+      path: "child_steps",
+      stepId: undefined,
+      code: "invalid_structure",
+      message: "child_steps must be a list of steps.",
+    });
+    return issues;
+  }
+
+  walkSteps(definition, (step, { path, ancestors, container, containers }) => {
+    const stepId = typeof step.id === "string" ? step.id : undefined;
+    const report = (code: AgentDefinitionIssueCode, message: string, at = path) =>
+      issues.push({ path: at, stepId, code, message });
+
+    if (typeof step.step_type !== "string") {
+      report("invalid_structure", "Step has no step_type.", `${path}.step_type`);
+      return;
+    }
+    const type = step.step_type;
+
+    if (OUTPUT_STEP_TYPES.includes(type) && containers.some((c) => BRANCH_CONTAINERS.includes(c))) {
+      report("output_in_branch", `A ${type} step cannot be inside then_steps, else_steps or cases[].steps.`);
+    }
+
+    if (type === "streaming_result") {
+      const parent = ancestors[ancestors.length - 1];
+      if (container !== "child_steps" || parent?.step_type !== "prompt_call") {
+        report("streaming_result_parent", "A streaming_result step must be a direct child of a prompt_call step.");
+      }
+    }
+
+    if (type === "retry") {
+      const target = step["target_step_id"];
+      if (!ancestors.some((a) => a.id === target)) {
+        report(
+          "retry_target",
+          `target_step_id ${JSON.stringify(target)} does not name an ancestor of this retry step.`,
+          `${path}.target_step_id`,
+        );
+      }
+      const maxRetries = step["max_retries"];
+      if (typeof maxRetries !== "number" || !Number.isInteger(maxRetries) || maxRetries < 1 || maxRetries > 10) {
+        report("max_retries", "max_retries must be an integer from 1 to 10.", `${path}.max_retries`);
+      }
+    }
+
+    if (
+      NON_COMPOSITE_STEP_TYPES.includes(type) &&
+      Array.isArray(step.child_steps) &&
+      step.child_steps.length > 0
+    ) {
+      report("non_composite_children", `A ${type} step cannot have child steps.`, `${path}.child_steps`);
+    }
+  });
+  return issues;
+}
+
@@ -0,0 +1,553 @@
+/**
+ * @module
+ *
+ * Typed model of an agent definition's step tree, plus a fluent builder for
+ * writing workflows in code:
+ *
+ * ```ts
+ * const definition = defineAgent(
+ *   { name: "Summarizer" },
+ *   steps.promptCall({ name: "Summarize" }).then(steps.displayResult()),
+ * );
+ * await client.updateAgentDefinition(agentId, { definition, expected_change_id });
+ * ```
+ *
+ * Fields the API documents are typed; any other type-specific config is
+ * accepted as extra properties and sent as-is.
+ */
+import { SeclaiError } from "./errors";
+import { isJsonObject } from "./events";
+
+/** Every step type the API documents. */
+export type StepType =
+  | "prompt_call"
+  | "retrieval"
+  | "regex_replace"
+  | "gate"
+  | "retry"
+  | "evaluate_step"
+  | "extract_data"
+  | "extract_content"
+  | "add_chat_turn"
+  | "load_chat_history"
+  | "add_memory"
+  | "search_memory"
+  | "load_memory"
+  | "streaming_result"
+  | "send_email"
+  | "webhook_call"
+  | "write_aws_s3_object"
+  | "call_agent"
+  | "write_metadata"
+  | "write_content_attachment"
+  | "load_content_attachment"
+  | "load_content"
+  | "display_result"
+  | "join"
+  | "merge"
+  | "text"
+  | "for_each"
+  | "if_else"
+  | "switch";
+
+/** Step types that cannot have `child_steps`. */
+export const NON_COMPOSITE_STEP_TYPES: readonly StepType[] = [
+  "display_result",
+  "join",
+  "retry",
+  "streaming_result",
+];
+
+/** Fields every step has. Extra keys carry type-specific config this SDK does not model. */
+export interface StepCommon {
+  /** Step ID, unique within the definition. */
+  id: string;
+  /** Display name. */
+  name?: string | undefined;
+  [key: string]: unknown;
+}
+
+/** Base of steps that may have children. */
+export interface CompositeStepBase extends StepCommon {
+  /** Steps run after this one, receiving its output. */
+  child_steps?: AgentStep[] | undefined;
+}
+
+/** Base of steps that cannot have children. */
+export interface LeafStepBase extends StepCommon {
+  child_steps?: never;
+}
+
+/** Config of a `retry` step. */
+export interface RetryConfig {
+  /** ID of the ancestor step to re-execute from. */
+  target_step_id: string;
+  /** Retry limit, 1 to 10. */
+  max_retries: number;
+}
+
+/** Config of an `evaluate_step` step. */
+export interface EvaluateStepConfig {
+  /** ID of the earlier step whose output is scored. */
+  target_step_id: string;
+  evaluation_prompt: string;
+  pass_threshold: number;
+  evaluation_tier?: string | undefined;
+  expectation_config?: Record<string, unknown> | undefined;
+}
+
+/** Config of a `gate` step. */
+export interface GateConfig {
+  /** Conditions deciding whether child steps run. */
+  conditions?: unknown;
+}
+
+/** Config of an `if_else` step. */
+export interface IfElseConfig {
+  /** Conditions, in the same shape as a `gate` step's. */
+  conditions: unknown;
+  /** Run when the conditions match. */
+  then_steps: AgentStep[];
+  /** Run otherwise. */
+  else_steps?: AgentStep[] | undefined;
+}
+
+/** One case of a `switch` step. */
+export interface SwitchCase {
+  /** Value compared with the discriminator; a list matches any of its entries. */
+  match: unknown;
+  steps: AgentStep[];
+}
+
+/** Config of a `switch` step. */
+export interface SwitchConfig {
+  /** Template routed on. Defaults to `{{input}}`. */
+  discriminator?: string | undefined;
+  cases: SwitchCase[];
+  /** Run when no case matches. */
+  else_steps?: AgentStep[] | undefined;
+}
+
+/** Config of a `for_each` step. */
+export interface ForEachConfig {
+  /** Steps run once per item. */
+  body: AgentStep[];
+}
+
+/** Config of a `write_metadata` step. */
+export interface WriteMetadataConfig {
+  metadata_key: string;
+  content: string;
+}
+
+/** Config of a `write_content_attachment` step. */
+export interface WriteContentAttachmentConfig {
+  attachment_key: string;
+  content: string;
+  content_type: string;
+  /** Index the attachment for retrieval. */
+  indexed?: boolean | undefined;
+}
+
+/** Config of a `load_content_attachment` step. */
+export interface LoadContentAttachmentConfig {
+  attachment_key: string;
+}
+
+/** Config of a `load_content` step. */
+export interface LoadContentConfig {
+  /** Load this content version instead of the triggering one. */
+  content_version_id?: string | undefined;
+}
+
+export interface PromptCallStep extends CompositeStepBase {
+  step_type: "prompt_call";
+}
+
+export interface RetrievalStep extends CompositeStepBase {
+  step_type: "retrieval";
+}
+
+export interface RegexReplaceStep extends CompositeStepBase {
+  step_type: "regex_replace";
+}
+
+export interface GateStep extends CompositeStepBase, GateConfig {
+  step_type: "gate";
+}
+
+export interface RetryStep extends LeafStepBase, RetryConfig {
+  step_type: "retry";
+}
+
+export interface EvaluateStep extends CompositeStepBase, EvaluateStepConfig {
+  step_type: "evaluate_step";
+}
+
+export interface ExtractDataStep extends CompositeStepBase {
+  step_type: "extract_data";
+}
+
+export interface ExtractContentStep extends CompositeStepBase {
+  step_type: "extract_content";
+}
+
+export interface AddChatTurnStep extends CompositeStepBase {
+  step_type: "add_chat_turn";
+}
+
+export interface LoadChatHistoryStep extends CompositeStepBase {
+  step_type: "load_chat_history";
+}
+
+export interface AddMemoryStep extends CompositeStepBase {
+  step_type: "add_memory";
+}
+
+export interface SearchMemoryStep extends CompositeStepBase {
+  step_type: "search_memory";
+}
+
+export interface LoadMemoryStep extends CompositeStepBase {
+  step_type: "load_memory";
+}
+
+export interface StreamingResultStep extends LeafStepBase {
+  step_type: "streaming_result";
+}
+
+export interface SendEmailStep extends CompositeStepBase {
+  step_type: "send_email";
+}
+
+export interface WebhookCallStep extends CompositeStepBase {
+  step_type: "webhook_call";
+}
+
+export interface WriteAwsS3ObjectStep extends CompositeStepBase {
+  step_type: "write_aws_s3_object";
+}
+
+export interface CallAgentStep extends CompositeStepBase {
+  step_type: "call_agent";
+}
+
+export interface WriteMetadataStep extends CompositeStepBase, WriteMetadataConfig {
+  step_type: "write_metadata";
+}
+
+export interface WriteContentAttachmentStep extends CompositeStepBase, WriteContentAttachmentConfig {
+  step_type: "write_content_attachment";
+}
+
+export interface LoadContentAttachmentStep extends CompositeStepBase, LoadContentAttachmentConfig {
+  step_type: "load_content_attachment";
+}
+
+export interface LoadContentStep extends CompositeStepBase, LoadContentConfig {
+  step_type: "load_content";
+}
+
+export interface DisplayResultStep extends LeafStepBase {
+  step_type: "display_result";
+}
+
+export interface JoinStep extends LeafStepBase {
+  step_type: "join";
+}
+
+export interface MergeStep extends CompositeStepBase {
+  step_type: "merge";
+}
+
+export interface TextStep extends CompositeStepBase {
+  step_type: "text";
+}
+
+export interface ForEachStep extends CompositeStepBase, ForEachConfig {
+  step_type: "for_each";
+}
+
+export interface IfElseStep extends CompositeStepBase, IfElseConfig {
+  step_type: "if_else";
+}
+
+export interface SwitchStep extends CompositeStepBase, SwitchConfig {
+  step_type: "switch";
+}
+
+/** Any step in an agent definition, discriminated on `step_type`. */
+export type AgentStep =
+  | PromptCallStep
+  | RetrievalStep
+  | RegexReplaceStep
+  | GateStep
+  | RetryStep
+  | EvaluateStep
+  | ExtractDataStep
+  | ExtractContentStep
+  | AddChatTurnStep
+  | LoadChatHistoryStep
+  | AddMemoryStep
+  | SearchMemoryStep
+  | LoadMemoryStep
+  | StreamingResultStep
+  | SendEmailStep
+  | WebhookCallStep
+  | WriteAwsS3ObjectStep
+  | CallAgentStep
+  | WriteMetadataStep
+  | WriteContentAttachmentStep
+  | LoadContentAttachmentStep
+  | LoadContentStep
+  | DisplayResultStep
+  | JoinStep
+  | MergeStep
+  | TextStep
+  | ForEachStep
+  | IfElseStep
+  | SwitchStep;
+
+/** Steps that can have `child_steps`. */
+export type CompositeStep = Exclude<AgentStep, RetryStep | StreamingResultStep | DisplayResultStep | JoinStep>;
+
+/**
+ * An agent definition: metadata plus the root steps of the workflow tree.
+ * Accepted wherever the API takes a definition (`createAgent`'s
+ * `agent_definition`, `updateAgentDefinition`'s `definition`).
+ */
+export interface AgentDefinition {
+  name?: string | undefined;
+  description?: string | undefined;
+  tags?: string[] | undefined;
+  /** Root steps, run when the agent is triggered. */
+  child_steps: AgentStep[];
+  [key: string]: unknown;
+}
+
+// ─── Builder ─────────────────────────────────────────────────────────────────
+
+/**
+ * A chain of steps being built: the first step and the step `then` attaches
+ * to. Chains are immutable; `then` and `fanOut` return a new chain over
+ * copies of the steps they extend, so a chain can be reused, e.g. in two
+ * definitions, without one changing the other.
+ */
+export class StepChain<Tail extends AgentStep = AgentStep> {
+  /** The first step of the chain. */
+  readonly root: AgentStep;
+  /** The step the next `then` attaches to. */
+  readonly tail: Tail;
+
+  /** @internal */
+  constructor(
+    /** Steps from the root down to the tail, each in the `child_steps` of the one before. */
+    private readonly path: readonly AgentStep[],
+  ) {
+    this.root = path[0]!;
+    this.tail = path[path.length - 1] as Tail;
+  }
+
+  /**
+   * Run `next` after the last step of this chain.
+   *
+   * @returns A chain whose tail is `next`'s tail, so calls can be chained.
+   * @throws {@link SeclaiError} If the tail cannot have children (`display_result`, `join`, `retry`, `streaming_result`).
+   */
+  then<N extends AgentStep>(this: StepChain<CompositeStep>, next: StepChain<N>): StepChain<N> {
+    return new StepChain<N>([...appendChildren(this.path, [next.root]), ...next.path]);
+  }
+
+  /**
+   * Run several branches in parallel after the last step of this chain.
+   *
+   * @returns A chain with the same tail; a further `then` attaches another branch beside these.
+   * @throws {@link SeclaiError} If the tail cannot have children.
+   */
+  fanOut(this: StepChain<CompositeStep>, ...branches: StepChain[]): StepChain<Tail> {
+    return new StepChain<Tail>(appendChildren(this.path, branches.map((b) => b.root)));
+  }
+
+  /** The root step, with everything chained below it. */
+  build(): AgentStep {
+    return this.root;
+  }
+}
+
+function childrenOf(step: AgentStep): AgentStep[] {
+  if (NON_COMPOSITE_STEP_TYPES.includes(step.step_type)) {
+    throw new SeclaiError(`A ${step.step_type} step cannot have child steps.`);
+  }
+  return (step as CompositeStep).child_steps ?? [];
+}
+
+/**
+ * Copy the steps of `path` with `children` appended to the last one's
+ * `child_steps`, leaving the originals untouched.
+ *
+ * @returns The copied path, from the new root down to the new tail.
+ */
+function appendChildren(path: readonly AgentStep[], children: AgentStep[]): AgentStep[] {
+  const tail = path[path.length - 1]!;
+  const copies = [{ ...tail, child_steps: [...childrenOf(tail), ...children] } as AgentStep];
+  for (let i = path.length - 2; i >= 0; i--) {
+    const step = path[i]!;
+    const [was, now] = [path[i + 1], copies[0]!];
+    copies.unshift({ ...step, child_steps: childrenOf(step).map((c) => (c === was ? now : c)) } as AgentStep);
+  }
+  return copies;
+}
+
+/** Options every builder accepts. `id` defaults to a random UUID. */
+export interface StepOptions {
+  id?: string | undefined;
+  name?: string | undefined;
+  [key: string]: unknown;
+}
+
+/** Builder config for a step: its documented fields plus {@link StepOptions}. */
+type BuilderConfig<C> = C & StepOptions;
+
+function make<S extends AgentStep>(stepType: S["step_type"], config: StepOptions = {}): StepChain<S> {
+  const { id, ...rest } = config;
+  const step = { ...rest, id: id ?? crypto.randomUUID(), step_type: stepType } as S;
+  return new StepChain<S>([step]);
+}
+
+const roots = (chains: StepChain[]): AgentStep[] => chains.map((c) => c.root);
+
+/**
+ * Builders for every step type. Each returns a {@link StepChain}; connect
+ * steps with `then`, build the whole definition with {@link defineAgent}.
+ *
+ * @example
+ * ```ts
+ * steps.retrieval({ name: "Search docs" })
+ *   .then(steps.promptCall({ name: "Answer" }))
+ *   .then(steps.streamingResult());
+ * ```
+ */
+export const steps = {
+  promptCall: (config?: StepOptions) => make<PromptCallStep>("prompt_call", config),
+  retrieval: (config?: StepOptions) => make<RetrievalStep>("retrieval", config),
+  regexReplace: (config?: StepOptions) => make<RegexReplaceStep>("regex_replace", config),
+  gate: (config?: BuilderConfig<GateConfig>) => make<GateStep>("gate", config),
+  retry: (config: BuilderConfig<RetryConfig>) => make<RetryStep>("retry", config),
+  evaluateStep: (config: BuilderConfig<EvaluateStepConfig>) => make<EvaluateStep>("evaluate_step", config),
+  extractData: (config?: StepOptions) => make<ExtractDataStep>("extract_data", config),
+  extractContent: (config?: StepOptions) => make<ExtractContentStep>("extract_content", config),
+  addChatTurn: (config?: StepOptions) => make<AddChatTurnStep>("add_chat_turn", config),
+  loadChatHistory: (config?: StepOptions) => make<LoadChatHistoryStep>("load_chat_history", config),
+  addMemory: (config?: StepOptions) => make<AddMemoryStep>("add_memory", config),
+  searchMemory: (config?: StepOptions) => make<SearchMemoryStep>("search_memory", config),
+  loadMemory: (config?: StepOptions) => make<LoadMemoryStep>("load_memory", config),
+  streamingResult: (config?: StepOptions) => make<StreamingResultStep>("streaming_result", config),
+  sendEmail: (config?: StepOptions) => make<SendEmailStep>("send_email", config),
+  webhookCall: (config?: StepOptions) => make<WebhookCallStep>("webhook_call", config),
+  writeAwsS3Object: (config?: StepOptions) => make<WriteAwsS3ObjectStep>("write_aws_s3_object", config),
+  callAgent: (config?: StepOptions) => make<CallAgentStep>("call_agent", config),
+  writeMetadata: (config: BuilderConfig<WriteMetadataConfig>) => make<WriteMetadataStep>("write_metadata", config),
+  writeContentAttachment: (config: BuilderConfig<WriteContentAttachmentConfig>) =>
+    make<WriteContentAttachmentStep>("write_content_attachment", config),
+  loadContentAttachment: (config: BuilderConfig<LoadContentAttachmentConfig>) =>
+    make<LoadContentAttachmentStep>("load_content_attachment", config),
+  loadContent: (config?: BuilderConfig<LoadContentConfig>) => make<LoadContentStep>("load_content", config),
+  displayResult: (config?: StepOptions) => make<DisplayResultStep>("display_result", config),
+  join: (config?: StepOptions) => make<JoinStep>("join", config),
+  merge: (config?: StepOptions) => make<MergeStep>("merge", config),
+  text: (config?: StepOptions) => make<TextStep>("text", config),
+
+  /** A `for_each` step; `body` runs once per item. */
+  forEach: ({ body, ...config }: StepOptions & { body: StepChain[] }) =>
+    make<ForEachStep>("for_each", { ...config, body: roots(body) }),
+
+  /** An `if_else` step. Branch output flows to the step's own `then` chain. */
+  ifElse: ({
+    then_steps,
+    else_steps,
+    ...config
+  }: StepOptions & { conditions: unknown; then_steps: StepChain[]; else_steps?: StepChain[] | undefined }) =>
+    make<IfElseStep>("if_else", {
+      ...config,
+      then_steps: roots(then_steps),
+      ...(else_steps ? { else_steps: roots(else_steps) } : {}),
+    }),
+
+  /** A `switch` step. The chosen case's output flows to the step's own `then` chain. */
+  switch: ({
+    cases,
+    else_steps,
+    ...config
+  }: StepOptions & {
+    discriminator?: string | undefined;
+    cases: { match: unknown; steps: StepChain[] }[];
+    else_steps?: StepChain[] | undefined;
+  }) =>
+    make<SwitchStep>("switch", {
+      ...config,
+      cases: cases.map((c) => ({ match: c.match, steps: roots(c.steps) })),
+      ...(else_steps ? { else_steps: roots(else_steps) } : {}),
+    }),
+};
+
+/**
+ * Assemble an agent definition from metadata and root step chains.
+ *
+ * @param meta - `name`, `description`, `tags` and any other top-level fields.
+ * @param chains - Root chains, run in parallel when the agent is triggered.
+ */
+export function defineAgent(
+  meta: Omit<AgentDefinition, "child_steps">,
+  ...chains: StepChain[]
+): AgentDefinition {
+  return { ...meta, child_steps: roots(chains) };
+}
+
+// ─── Traversal ───────────────────────────────────────────────────────────────
+
+/** Where a step sits in a definition, as passed to {@link walkSteps}. */
+export interface StepLocation {
+  /** Path from the definition root, e.g. `child_steps[0].then_steps[1]`. */
+  path: string;
+  /** Enclosing steps, outermost first. */
+  ancestors: readonly AgentStep[];
+  /** The list holding the step: a parent's `child_steps`, a branch, a `switch` case, or a `for_each` body. */
+  container: StepContainer;
+  /** The container of each ancestor, then this step's, outermost first. */
+  containers: readonly StepContainer[];
+}
+
+/** A list of steps inside a definition, named by the key that holds it. */
+export type StepContainer = "child_steps" | "then_steps" | "else_steps" | "cases" | "body";
+
+/**
+ * Visit every step of a definition depth-first, parents before children,
+ * following `child_steps`, `then_steps`, `else_steps`, `cases[].steps` and
+ * `body`. Entries that are not objects are skipped.
+ */
+export function walkSteps(
+  definition: { child_steps?: unknown },
+  visit: (step: AgentStep, location: StepLocation) => void,
+): void {
+  const walkList = (list: unknown, path: string, ancestors: AgentStep[], containers: StepContainer[]) => {
+    if (!Array.isArray(list)) return;
+    list.forEach((entry, i) => {
+      if (isJsonObject(entry)) walkStep(entry as AgentStep, `${path}[${i}]`, ancestors, containers);
+    });
+  };
+  const walkStep = (step: AgentStep, path: string, ancestors: AgentStep[], containers: StepContainer[]) => {
+    visit(step, { path, ancestors, container: containers[containers.length - 1]!, containers });
+    const inner = [...ancestors, step];
+    walkList(step["then_steps"], `${path}.then_steps`, inner, [...containers, "then_steps"]);
+    walkList(step["else_steps"], `${path}.else_steps`, inner, [...containers, "else_steps"]);
+    const cases = step["cases"];
+    if (Array.isArray(cases)) {
+      cases.forEach((c, i) => {
+        if (isJsonObject(c)) walkList(c["steps"], `${path}.cases[${i}].steps`, inner, [...containers, "cases"]);
+      });
+    }
+    walkList(step["body"], `${path}.body`, inner, [...containers, "body"]);
+    walkList(step.child_steps, `${path}.child_steps`, inner, [...containers, "child_steps"]);
+  };
+  walkList(definition.child_steps, "child_steps", [], ["child_steps"]);
+}
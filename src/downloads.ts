@@ -0,0 +1,201 @@
+/**
+ * @module
+ *
+ * Downloading large files: stream a response body to disk (Node.js) or into a
+ * `Blob` (browsers), reporting progress and checking the byte count, with
+ * HTTP Range resumption for interrupted disk downloads.
+ */
+import type { Seclai } from "./client";
+import { SeclaiAPIStatusError, SeclaiError } from "./errors";
+
+/** Progress of a download, passed to `onProgress` after each chunk. */
+export interface DownloadProgress {
+  /** Bytes received so far, including any resumed from an earlier attempt. */
+  loaded: number;
+  /** Expected size in bytes, from `Content-Length` or `Content-Range`; `undefined` when the server did not say. */
+  total: number | undefined;
+}
+
+/** Options for the `download*ToBlob` methods. */
+export interface DownloadOptions {
+  onProgress?: ((progress: DownloadProgress) => void) | undefined;
+  signal?: AbortSignal | undefined;
+}
+
+/** Options for the `download*ToFile` methods. */
+export interface DownloadToFileOptions extends DownloadOptions {
+  /**
+   * Continue from the partial file a failed download left behind, using an
+   * HTTP Range request with `If-Range` set to the `ETag` or `Last-Modified`
+   * the partial file was downloaded with. The download restarts from the
+   * beginning when the file has changed since, when the server ignores the
+   * range, or when the first response gave no validator or was
+   * content-encoded. Defaults to `true`.
+   */
+  resume?: boolean | undefined;
+}
+
+/** Result of a `download*ToFile` method. */
+export interface DownloadToFileResult {
+  path: string;
+  /** Size of the finished file. */
+  bytes: number;
+  /** Whether the download continued from an earlier partial file. */
+  resumed: boolean;
+}
+
+interface FsModule {
+  existsSync(path: string): boolean;
+  readFileSync(path: string, encoding: string): string;
+  writeFileSync(path: string, data: string): void;
+  statSync(path: string): { size: number };
+  openSync(path: string, flags: string): number;
+  writeSync(fd: number, data: Uint8Array): number;
+  closeSync(fd: number): void;
+  unlinkSync(path: string): void;
+  renameSync(oldPath: string, newPath: string): void;
+}
+
+/** Opens the download, optionally asking for a byte range. */
+type OpenDownload = (headers: Record<string, string>, signal: AbortSignal | undefined) => Promise<Response>;
+
+/** Whether the body arrives decoded from a `Content-Encoding`, so byte offsets no longer match the server's. */
+function isEncoded(response: Response): boolean {
+  const encoding = response.headers.get("content-encoding");
+  return !!encoding && encoding !== "identity";
+}
+
+/**
+ * The `If-Range` value that makes a later range request apply only to this
+ * same file: a strong `ETag`, else `Last-Modified`.
+ */
+function validatorOf(response: Response): string | undefined {
+  const etag = response.headers.get("etag");
+  if (etag && !etag.startsWith("W/")) return etag;
+  return response.headers.get("last-modified") ?? undefined;
+}
+
+/** The size a response says it has, unless a content encoding makes the header count compressed bytes. */
+function expectedSize(response: Response, offset: number): number | undefined {
+  if (isEncoded(response)) return undefined;
+  if (response.status === 206) {
+    const total = /\/(\d+)\s*$/.exec(response.headers.get("content-range") ?? "")?.[1];
+    if (total !== undefined) return Number(total);
+  }
+  const length = response.headers.get("content-length");
+  return length === null ? undefined : offset + Number(length);
+}
+
+/** Read `response`'s body chunk by chunk, reporting progress from `offset`. */
+async function pump(
+  response: Response,
+  offset: number,
+  total: number | undefined,
+  write: (chunk: Uint8Array) => void,
+  onProgress: DownloadOptions["onProgress"],
+): Promise<number> {
+  let loaded = offset;
+  if (!response.body) return loaded;
+  const reader = response.body.getReader();
+  while (true) {
+    const { value, done } = await reader.read();
+    if (done) break;
+    write(value);
+    loaded += value.byteLength;
+    onProgress?.({ loaded, total });
+  }
+  return loaded;
+}
+
+function checkSize(loaded: number, total: number | undefined): void {
+  if (total !== undefined && loaded !== total) {
+    throw new SeclaiError(`Download ended after ${loaded} of ${total} bytes.`);
+  }
+}
+
+/**
+ * @internal Stream a download to `path` through `${path}.part`, resuming from
+ * that file when present. The validator to resume with is kept beside it in
+ * `${path}.part.validator`.
+ */
+export async function downloadToFile(
+  open: OpenDownload,
+  path: string,
+  opts: DownloadToFileOptions = {},
+): Promise<DownloadToFileResult> {
+  // @ts-expect-error -- resolved at runtime; no @types/node in this package
+  const fs = (await import("node:fs")) as unknown as FsModule;
+  const partPath = `${path}.part`;
+  const validatorPath = `${partPath}.validator`;
+
+  // Without the validator the partial file came from, there is no telling it belongs to this file.
+  const validator =
+    opts.resume !== false && fs.existsSync(partPath) && fs.existsSync(validatorPath)
+      ? fs.readFileSync(validatorPath, "utf-8")
+      : undefined;
+  let offset = validator ? fs.statSync(partPath).size : 0;
+  let response: Response;
+  try {
+    const range = validator && offset > 0 ? { range: `bytes=${offset}-`, "if-range": validator } : {};
+    response = await open(range, opts.signal);
+  } catch (err) {
+    // 416: the partial file is no prefix of the current file (or is already whole); start over.
+    if (!(err instanceof SeclaiAPIStatusError && err.statusCode === 416)) throw err;
+    offset = 0;
+    response = await open({}, opts.signal);
+  }
+  const rangeStart = /^bytes (\d+)-/.exec(response.headers.get("content-range") ?? "")?.[1];
+  let resumed = offset > 0 && response.status === 206 && Number(rangeStart) === offset;
+  if (resumed && isEncoded(response)) {
+    // The offset counts decoded bytes, the range encoded ones: fetch the whole file instead.
+    await response.body?.cancel().catch(() => undefined);
+    response = await open({}, opts.signal);
+    resumed = false;
+  }
+  if (!resumed) offset = 0;
+
+  if (!resumed) {
+    // Keep what identifies this file so a failed attempt can resume it; an encoded body never can.
+    const next = isEncoded(response) ? undefined : validatorOf(response);
+    if (next) fs.writeFileSync(validatorPath, next);
+    else if (fs.existsSync(validatorPath)) fs.unlinkSync(validatorPath);
+  }
+
+  const total = expectedSize(response, offset);
+  const fd = fs.openSync(partPath, resumed ? "a" : "w");
+  let loaded: number;
+  try {
+    loaded = await pump(response, offset, total, (chunk) => fs.writeSync(fd, chunk), opts.onProgress);
+  } finally {
+    fs.closeSync(fd);
+  }
+  // A short file stays as `.part` so the next attempt can resume it.
+  checkSize(loaded, total);
+
+  // On Windows, renameSync fails if destination exists — delete first (best-effort)
+  if (fs.existsSync(path)) {
+    try { fs.unlinkSync(path); } catch { /* let renameSync throw if needed */ }
+  }
+  fs.renameSync(partPath, path);
+  if (fs.existsSync(validatorPath)) fs.unlinkSync(validatorPath);
+  return { path, bytes: loaded, resumed };
+}
+
+/** @internal Buffer a download into a `Blob` typed with the response's content type. */
+export async function downloadToBlob(open: OpenDownload, opts: DownloadOptions = {}): Promise<Blob> {
+  const response = await open({}, opts.signal);
+  const total = expectedSize(response, 0);
+  const chunks: Uint8Array[] = [];
+  const loaded = await pump(response, 0, total, (chunk) => chunks.push(chunk), opts.onProgress);
+  checkSize(loaded, total);
+  return new Blob(chunks, { type: response.headers.get("content-type") ?? "" });
+}
+
+/** @internal The opener for a source export download. */
+export function sourceExportDownload(client: Seclai, sourceId: string, exportId: string): OpenDownload {
+  return (headers, signal) =>
+    client.requestRaw("GET", `/sources/${sourceId}/exports/${exportId}/download`, {
+      headers,
+      ...(signal ? { signal } : {}),
+    });
+}
@@ -6,6 +6,8 @@
  * All errors extend {@link SeclaiError}, so a single `catch (err instanceof SeclaiError)`
  * handles every SDK error. Narrow to more specific subclasses for finer handling.
  */
+import type { AgentDefinitionIssue } from "./definition-validation";
+import type { InsufficientCreditsDetail } from "./types";
 
 /** Base error class for the Seclai SDK. */
 export class SeclaiError extends Error {
@@ -23,11 +25,46 @@ export class SeclaiConfigurationError extends SeclaiError {
   }
 }
 
+/**
+ * The `detail` member of an API error body: a message string for most errors,
+ * a list of entries for validation errors, or a structured object.
+ */
+export type SeclaiErrorDetail = string | unknown[] | { [key: string]: unknown };
+
+/** Constructor options shared by {@link SeclaiAPIStatusError} and its subclasses. */
+export interface SeclaiAPIStatusErrorOptions {
+  /** Human-readable error message. */
+  message: string;
+  statusCode: number;
+  method: string;
+  url: string;
+  responseText: string | undefined;
+  /** Parsed `detail`; read from `responseText` when omitted. */
+  detail?: SeclaiErrorDetail | undefined;
+}
+
+function parseDetail(responseText: string | undefined): SeclaiErrorDetail | undefined {
+  if (!responseText) return undefined;
+  try {
+    const body = JSON.parse(responseText) as { detail?: unknown } | null;
+    const detail = body?.detail;
+    return typeof detail === "string" || (typeof detail === "object" && detail !== null)
+      ? (detail as SeclaiErrorDetail)
+      : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
 /**
  * Thrown when the API returns a non-success status code.
  *
  * @remarks
- * Use {@link SeclaiAPIValidationError} for HTTP 422 validation errors.
+ * Common statuses have subclasses — {@link SeclaiAuthenticationError},
+ * {@link SeclaiPermissionDeniedError}, {@link SeclaiNotFoundError},
+ * {@link SeclaiConflictError}, {@link SeclaiAPIValidationError},
+ * {@link SeclaiRateLimitError} and {@link SeclaiServerError} — so they can be
+ * caught by class instead of by `statusCode`.
  */
 export class SeclaiAPIStatusError extends SeclaiError {
   /** HTTP status code returned by the API. */
@@ -38,21 +75,91 @@ export class SeclaiAPIStatusError extends SeclaiError {
   public readonly url: string;
   /** Best-effort response body text (if available). */
   public readonly responseText: string | undefined;
+  /** The `detail` of the JSON error body, when there is one. */
+  public readonly detail: SeclaiErrorDetail | undefined;
 
-  constructor(opts: {
-    /** Human-readable error message. */
-    message: string;
-    statusCode: number;
-    method: string;
-    url: string;
-    responseText: string | undefined;
-  }) {
+  constructor(opts: SeclaiAPIStatusErrorOptions) {
     super(opts.message);
     this.name = "SeclaiAPIStatusError";
     this.statusCode = opts.statusCode;
     this.method = opts.method;
     this.url = opts.url;
     this.responseText = opts.responseText;
+    this.detail = opts.detail ?? parseDetail(opts.responseText);
+  }
+}
+
+/** Thrown on HTTP 401: the API key or access token is missing, invalid or expired. */
+export class SeclaiAuthenticationError extends SeclaiAPIStatusError {
+  constructor(opts: SeclaiAPIStatusErrorOptions) {
+    super(opts);
+    this.name = "SeclaiAuthenticationError";
+  }
+}
+
+/** Thrown on HTTP 403: the credentials are valid but not allowed to do this. */
+export class SeclaiPermissionDeniedError extends SeclaiAPIStatusError {
+  constructor(opts: SeclaiAPIStatusErrorOptions) {
+    super(opts);
+    this.name = "SeclaiPermissionDeniedError";
+  }
+}
+
+/** Thrown on HTTP 404: the resource does not exist or is not visible to this account. */
+export class SeclaiNotFoundError extends SeclaiAPIStatusError {
+  constructor(opts: SeclaiAPIStatusErrorOptions) {
+    super(opts);
+    this.name = "SeclaiNotFoundError";
+  }
+}
+
+/**
+ * Thrown on HTTP 409: the request conflicts with the resource's current state,
+ * e.g. a stale `expected_change_id` or disabling an agent that still has live callers.
+ */
+export class SeclaiConflictError extends SeclaiAPIStatusError {
+  constructor(opts: SeclaiAPIStatusErrorOptions) {
+    super(opts);
+    this.name = "SeclaiConflictError";
+  }
+}
+
+/**
+ * Thrown on HTTP 402 when the account has run out of credits — by run, export
+ * and experiment calls among others.
+ *
+ * The API reports which account ran dry and a human-readable message; it does
+ * not report balances.
+ */
+export class SeclaiInsufficientCreditsError extends SeclaiAPIStatusError {
+  declare public readonly detail: InsufficientCreditsDetail;
+  /** UUID of the account that ran out of credits. */
+  public readonly accountId: string;
+
+  constructor(opts: SeclaiAPIStatusErrorOptions & { detail: InsufficientCreditsDetail }) {
+    super({ ...opts, message: opts.detail.message || opts.message });
+    this.name = "SeclaiInsufficientCreditsError";
+    this.accountId = opts.detail.account_id;
+  }
+}
+
+/** Thrown on HTTP 429 once any configured retries are exhausted. */
+export class SeclaiRateLimitError extends SeclaiAPIStatusError {
+  /** Delay the server asked for in its `Retry-After` header, in milliseconds. */
+  public readonly retryAfter: number | undefined;
+
+  constructor(opts: SeclaiAPIStatusErrorOptions & { retryAfter?: number | undefined }) {
+    super(opts);
+    this.name = "SeclaiRateLimitError";
+    this.retryAfter = opts.retryAfter;
+  }
+}
+
+/** Thrown on any HTTP 5xx once any configured retries are exhausted. */
+export class SeclaiServerError extends SeclaiAPIStatusError {
+  constructor(opts: SeclaiAPIStatusErrorOptions) {
+    super(opts);
+    this.name = "SeclaiServerError";
   }
 }
 
@@ -65,20 +172,30 @@ export class SeclaiAPIValidationError extends SeclaiAPIStatusError {
   /** Parsed validation error payload (best-effort). */
   public readonly validationError: unknown;
 
-  constructor(opts: {
-    message: string;
-    statusCode: number;
-    method: string;
-    url: string;
-    responseText: string | undefined;
-    validationError: unknown;
-  }) {
+  constructor(opts: SeclaiAPIStatusErrorOptions & { validationError: unknown }) {
     super(opts);
     this.name = "SeclaiAPIValidationError";
     this.validationError = opts.validationError;
   }
 }
 
+/**
+ * Thrown before sending an agent definition that fails
+ * {@link validateAgentDefinition}, when the call was made with `validate: true`.
+ */
+export class SeclaiDefinitionValidationError extends SeclaiError {
+  /** Every problem found, with its path in the definition. */
+  public readonly issues: AgentDefinitionIssue[];
+
+  constructor(issues: AgentDefinitionIssue[]) {
+    super(
+      `Agent definition is invalid: ${issues.map((i) => `${i.path}: ${i.message}`).join("; ")}`,
+    );
+    this.name = "SeclaiDefinitionValidationError";
+    this.issues = issues;
+  }
+}
+
 /** Thrown when a streaming operation fails (e.g. stream ends unexpectedly). */
 export class SeclaiStreamingError extends SeclaiError {
   /** The run ID associated with the failed stream, when available. */
@@ -90,3 +207,26 @@ export class SeclaiStreamingError extends SeclaiError {
     this.runId = runId;
   }
 }
+
+/**
+ * Thrown when a request does not complete within its `timeoutMs`.
+ *
+ * Raised instead of the bare `AbortError` from `fetch`, so a timeout can be
+ * told apart from a caller-initiated abort.
+ */
+export class SeclaiTimeoutError extends SeclaiError {
+  /** HTTP method used for the request. */
+  public readonly method: string;
+  /** Full request URL. */
+  public readonly url: string;
+  /** The timeout that elapsed, in milliseconds. */
+  public readonly timeoutMs: number;
+
+  constructor(opts: { method: string; url: string; timeoutMs: number }) {
+    super(`${opts.method} ${opts.url} timed out after ${opts.timeoutMs}ms.`);
+    this.name = "SeclaiTimeoutError";
+    this.method = opts.method;
+    this.url = opts.url;
+    this.timeoutMs = opts.timeoutMs;
+  }
+}
@@ -0,0 +1,60 @@
+/**
+ * @module
+ *
+ * Type guards for the {@link AgentRunEvent} union yielded by
+ * {@link Seclai.runStreamingAgent}.
+ *
+ * Each guard checks the event name and that the payload is a JSON object, so a
+ * malformed payload falls through to the unknown-event case instead of being
+ * trusted as typed.
+ */
+import type {
+  AgentRunDoneEvent,
+  AgentRunErrorEvent,
+  AgentRunEvent,
+  AgentRunInitEvent,
+  AgentRunStepEvent,
+  AgentRunStreamEndEvent,
+  AgentRunStreamTokenEvent,
+  AgentRunTimeoutEvent,
+} from "./types";
+
+/** @internal Whether `value` is a JSON object: not `null` and not an array. */
+export function isJsonObject(value: unknown): value is { [key: string]: unknown } {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/** Narrow to the `init` event carrying the initial run snapshot. */
+export function isInitEvent(e: AgentRunEvent): e is AgentRunInitEvent {
+  return e.event === "init" && isJsonObject(e.data);
+}
+
+/** Narrow to a `step` progress event. */
+export function isStepEvent(e: AgentRunEvent): e is AgentRunStepEvent {
+  return e.event === "step" && isJsonObject(e.data);
+}
+
+/** Narrow to a `stream_token` event from a `streaming_result` step. */
+export function isStreamTokenEvent(e: AgentRunEvent): e is AgentRunStreamTokenEvent {
+  return e.event === "stream_token" && isJsonObject(e.data) && typeof (e.data as { token?: unknown }).token === "string";
+}
+
+/** Narrow to the `stream_end` event closing a `streaming_result` step. */
+export function isStreamEndEvent(e: AgentRunEvent): e is AgentRunStreamEndEvent {
+  return e.event === "stream_end" && isJsonObject(e.data);
+}
+
+/** Narrow to the terminal `done` event. */
+export function isDoneEvent(e: AgentRunEvent): e is AgentRunDoneEvent {
+  return e.event === "done" && isJsonObject(e.data);
+}
+
+/** Narrow to an `error` event. */
+export function isErrorEvent(e: AgentRunEvent): e is AgentRunErrorEvent {
+  return e.event === "error" && isJsonObject(e.data);
+}
+
+/** Narrow to a `timeout` event. */
+export function isTimeoutEvent(e: AgentRunEvent): e is AgentRunTimeoutEvent {
+  return e.event === "timeout" && isJsonObject(e.data);
+}
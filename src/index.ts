@@ -24,6 +24,166 @@ export {
   type AccessTokenProvider,
 } from "./client";
 
+export type { RetryOptions } from "./retry";
+export type { Middleware, MiddlewareContext, MiddlewareNext } from "./middleware";
+export {
+  isInitEvent,
+  isStepEvent,
+  isStreamTokenEvent,
+  isStreamEndEvent,
+  isDoneEvent,
+  isErrorEvent,
+  isTimeoutEvent,
+} from "./events";
+export { AgentTextStream, type TextDelta } from "./text-stream";
+export { RunStream, type RunStreamEvents } from "./run-stream";
+export {
+  steps,
+  defineAgent,
+  StepChain,
+  NON_COMPOSITE_STEP_TYPES,
+  type AgentDefinition,
+  type AgentStep,
+  type CompositeStep,
+  type StepType,
+  type StepCommon,
+  type StepOptions,
+  type CompositeStepBase,
+  type LeafStepBase,
+  type RetryConfig,
+  type EvaluateStepConfig,
+  type GateConfig,
+  type IfElseConfig,
+  type SwitchCase,
+  type SwitchConfig,
+  type ForEachConfig,
+  type WriteMetadataConfig,
+  type WriteContentAttachmentConfig,
+  type LoadContentAttachmentConfig,
+  type LoadContentConfig,
+  type PromptCallStep,
+  type RetrievalStep,
+  type RegexReplaceStep,
+  type GateStep,
+  type RetryStep,
+  type EvaluateStep,
+  type ExtractDataStep,
+  type ExtractContentStep,
+  type AddChatTurnStep,
+  type LoadChatHistoryStep,
+  type AddMemoryStep,
+  type SearchMemoryStep,
+  type LoadMemoryStep,
+  type StreamingResultStep,
+  type SendEmailStep,
+  type WebhookCallStep,
+  type WriteAwsS3ObjectStep,
+  type CallAgentStep,
+  type WriteMetadataStep,
+  type WriteContentAttachmentStep,
+  type LoadContentAttachmentStep,
+  type LoadContentStep,
+  type DisplayResultStep,
+  type JoinStep,
+  type MergeStep,
+  type TextStep,
+  type ForEachStep,
+  type IfElseStep,
+  type SwitchStep,
+  walkSteps,
+  type StepLocation,
+  type StepContainer,
+} from "./definition";
+export {
+  validateAgentDefinition,
+  type AgentDefinitionIssue,
+  type AgentDefinitionIssueCode,
+} from "./definition-validation";
+export {
+  diffAgentDefinitions,
+  mergeAgentDefinitions,
+  type AgentDefinitionDiff,
+  type AgentDefinitionMergeConflict,
+  type AgentDefinitionMergeResult,
+  type MergeAgentDefinitionsOptions,
+  type FieldChange,
+  type StepPosition,
+} from "./definition-diff";
+export {
+  /**
+   * Read every `*.json` agent export in a directory.
+   * **Node.js only** — uses `node:fs` and `node:path`.
+   */
+  loadAgentFiles,
+  type AgentFile,
+  type AgentSyncChange,
+  type AgentSyncPlan,
+  type AgentSyncResult,
+  type PlanAgentSyncOptions,
+  type ApplyAgentSyncOptions,
+} from "./agent-sync";
+export type { MigrateAgentOptions, MigrateAgentResult, ResolvedAgentRef } from "./migrate";
+export {
+  findAttachmentRefs,
+  encodeAttachmentId,
+  decodeAttachmentId,
+  ATTACHMENT_MANIFEST_CONTENT_TYPE,
+  type AttachmentRef,
+  type AttachmentManifest,
+  type RunAttachment,
+} from "./attachments";
+export type {
+  DownloadOptions,
+  DownloadProgress,
+  DownloadToFileOptions,
+  DownloadToFileResult,
+} from "./downloads";
+export type { UploadProgressCallback, UploadSource } from "./uploads";
+export { registerMimeType, sniffMimeType, type MagicSignature, type MimeTypeDefinition } from "./mime";
+export { parseWebhookPayload, type AgentRunWebhookPayload } from "./webhooks";
+export type {
+  SolutionBundle,
+  ImportSolutionBundleOptions,
+  ImportSolutionBundleResult,
+} from "./solution-bundle";
+export type {
+  AgentsResource,
+  AgentDefinitionResource,
+  AgentRunsResource,
+  AgentRunEvaluationResultsResource,
+  AgentRunAttachmentsResource,
+  AgentInputsResource,
+  AgentAiResource,
+  AgentEvaluationsResource,
+  EvaluationCriteriaResource,
+  KnowledgeBasesResource,
+  MemoryBanksResource,
+  MemoryBankAiResource,
+  SourcesResource,
+  SourceExportsResource,
+  SourceEmbeddingMigrationResource,
+  ContentsResource,
+  ContentEmbeddingsResource,
+  SolutionsResource,
+  SolutionLinksResource,
+  SolutionConversationsResource,
+  SolutionAiResource,
+  GovernanceResource,
+  GovernanceAiResource,
+  AlertsResource,
+  AlertConfigsResource,
+  AlertPreferencesResource,
+  ModelsResource,
+  ModelAlertsResource,
+  ExperimentsResource,
+  EmailResource,
+  EmailDomainsResource,
+  EmailOptOutsResource,
+  BlockedEmailSendersResource,
+  InboundEmailResource,
+  AiAssistantResource,
+} from "./resources";
+
 export {
   type SsoProfile,
   type SsoCacheEntry,
@@ -60,7 +220,18 @@ export {
   SeclaiConfigurationError,
   SeclaiAPIStatusError,
   SeclaiAPIValidationError,
+  SeclaiAuthenticationError,
+  SeclaiPermissionDeniedError,
+  SeclaiNotFoundError,
+  SeclaiConflictError,
+  SeclaiDefinitionValidationError,
+  SeclaiInsufficientCreditsError,
+  SeclaiRateLimitError,
+  SeclaiServerError,
   SeclaiStreamingError,
+  SeclaiTimeoutError,
+  type SeclaiErrorDetail,
+  type SeclaiAPIStatusErrorOptions,
 } from "./errors";
 
 export type {
@@ -71,6 +242,7 @@ export type {
   PaginationResponse,
   ListOptions,
   SortableListOptions,
+  IterateOptions,
 
   // Identity
   MeResponse,
@@ -86,6 +258,7 @@ export type {
   UpdateAgentDefinitionRequest,
   AgentImportPreviewRequest,
   AgentImportPreviewResponse,
+  UnresolvedAgentRef,
   AgentDefinitionImportErrorResponse,
   ImportFieldErrorModel,
   ImportSkipResponse,
@@ -120,6 +293,17 @@ export type {
   AgentTraceSearchResponse,
   AgentTraceMatchResponse,
   AgentRunEvent,
+  AgentRunInitEvent,
+  AgentRunStepEvent,
+  AgentRunStreamTokenEvent,
+  AgentRunStreamTokenData,
+  AgentRunStreamEndEvent,
+  AgentRunDoneEvent,
+  AgentRunErrorEvent,
+  AgentRunTimeoutEvent,
+  AgentRunInterruptionData,
+  AgentRunUnknownEvent,
+  StreamingRunOptions,
 
   // Agent Input Uploads
   UploadAgentInputApiResponse,
@@ -0,0 +1,93 @@
+/**
+ * @module
+ *
+ * Request/response middleware: a chain of `(ctx, next) => Promise<Response>`
+ * functions wrapped around every HTTP call the client makes.
+ */
+import type { FetchLike } from "./client";
+
+/** The resolved request a {@link Middleware} sees and may rewrite. */
+export interface MiddlewareContext {
+  /** HTTP method, upper-cased as sent. */
+  method: string;
+  /** Fully resolved request URL, query string included. */
+  url: URL;
+  /** Request headers, auth and `Seclai-Version` included. */
+  headers: Record<string, string>;
+  /** Request body: a JSON string, `FormData`, or URL-encoded string. `undefined` when there is none. */
+  body: BodyInit | undefined;
+  /** Abort signal combining the caller's signal and any timeout. */
+  signal: AbortSignal | undefined;
+}
+
+/**
+ * Continue down the chain. Pass a context to send a modified request, or
+ * nothing to send the one this middleware received.
+ */
+export type MiddlewareNext = (ctx?: MiddlewareContext) => Promise<Response>;
+
+/**
+ * A request/response interceptor.
+ *
+ * Call `next` to continue — before it to inspect or rewrite the request, after
+ * it to inspect the response — or return a `Response` without calling it to
+ * short-circuit the network entirely.
+ *
+ * @example
+ * ```ts
+ * const timing: Middleware = async (ctx, next) => {
+ *   const started = Date.now();
+ *   const res = await next({ ...ctx, headers: { ...ctx.headers, traceparent: newTraceId() } });
+ *   console.log(ctx.method, ctx.url.pathname, res.status, Date.now() - started);
+ *   return res;
+ * };
+ * ```
+ */
+export type Middleware = (ctx: MiddlewareContext, next: MiddlewareNext) => Promise<Response>;
+
+function toContext(input: RequestInfo | URL, init: RequestInit | undefined): MiddlewareContext {
+  const url = input instanceof URL ? input : new URL(typeof input === "string" ? input : input.url);
+  const headers: Record<string, string> = {};
+  if (init?.headers) {
+    if (init.headers instanceof Headers || Array.isArray(init.headers)) {
+      for (const [key, value] of new Headers(init.headers).entries()) headers[key] = value;
+    } else {
+      Object.assign(headers, init.headers);
+    }
+  }
+  return {
+    method: (init?.method ?? "GET").toUpperCase(),
+    url,
+    headers,
+    body: init?.body ?? undefined,
+    signal: init?.signal ?? undefined,
+  };
+}
+
+function toInit(ctx: MiddlewareContext, original: RequestInit | undefined): RequestInit {
+  const init: RequestInit = { ...original, method: ctx.method, headers: ctx.headers };
+  if (ctx.body !== undefined) init.body = ctx.body;
+  else delete init.body;
+  if (ctx.signal) init.signal = ctx.signal;
+  else delete init.signal;
+  return init;
+}
+
+/**
+ * Wrap a fetcher so every call runs through `middleware`, first entry outermost.
+ *
+ * @param fetcher - The underlying `fetch` implementation.
+ * @param middleware - Interceptors, applied in order.
+ * @returns A fetcher with the same signature; `fetcher` itself when the chain is empty.
+ */
+export function applyMiddleware(fetcher: FetchLike, middleware: readonly Middleware[]): FetchLike {
+  if (middleware.length === 0) return fetcher;
+  return async (input, init) => {
+    const dispatch = (index: number, ctx: MiddlewareContext): Promise<Response> => {
+      const current = middleware[index];
+      if (!current) return fetcher(ctx.url, toInit(ctx, init));
+      return current(ctx, (next) => dispatch(index + 1, next ?? ctx));
+    };
+    return dispatch(0, toContext(input, init));
+  };
+}
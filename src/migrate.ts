@@ -0,0 +1,309 @@
+/**
+ * @module
+ *
+ * Cross-account agent migration: export from one account, relink the
+ * workflow's knowledge bases, memory banks, source connections and sub-agents
+ * in the other, and create the agent there.
+ */
+import { triggerTypeOf } from "./agent-sync";
+import type { Seclai } from "./client";
+import { SeclaiError } from "./errors";
+import type {
+  AgentExportResponse,
+  AgentSummaryResponse,
+  CreateKnowledgeBaseBody,
+  CreateMemoryBankBody,
+  KnowledgeBaseResponse,
+  MemoryBankResponse,
+  UnresolvedAgentRef,
+} from "./types";
+
+/** Options for {@link Seclai.migrateAgent}. */
+export interface MigrateAgentOptions {
+  /** The agent to copy, in `from`. */
+  agentId: string;
+  /** Account to copy from. Defaults to the client the method is called on. */
+  from?: Seclai | undefined;
+  /** Account to copy to. */
+  to: Seclai;
+  /**
+   * How to relink references the target account lacks: `"by-name"` (the
+   * default) matches entities of the same category and name, a map gives
+   * source id → target id explicitly.
+   */
+  remap?: "by-name" | Record<string, string> | undefined;
+  /**
+   * Create dependencies no target entity matches: memory banks and knowledge
+   * bases with the source's settings, and sub-agents by migrating them too.
+   * Source connections hold data and are never created.
+   */
+  createMissing?: boolean | undefined;
+  /** Create the agent even if some references stay unresolved. */
+  allowUnresolved?: boolean | undefined;
+  /** Name for the new agent. Defaults to the source agent's name. */
+  name?: string | undefined;
+}
+
+/** How one reference was relinked. */
+export interface ResolvedAgentRef {
+  ref: UnresolvedAgentRef;
+  targetId: string;
+  /** `map`: from the given map; `name`: matched by name; `created`: created in the target. */
+  via: "map" | "name" | "created";
+}
+
+/** Result of {@link Seclai.migrateAgent}. */
+export interface MigrateAgentResult {
+  /** The new agent; `undefined` when unresolved references stopped the migration. */
+  agent: AgentSummaryResponse | undefined;
+  /** The `entity_remap` sent with the new agent. */
+  entityRemap: Record<string, string>;
+  resolved: ResolvedAgentRef[];
+  /** References left unresolved, with why. */
+  unresolved: { ref: UnresolvedAgentRef; reason: string }[];
+  /** Sub-agent migrations run because of `createMissing`, keyed by source agent id. */
+  subAgents: Record<string, MigrateAgentResult>;
+}
+
+type Category = "knowledge_base" | "memory_bank" | "source_connection" | "agent";
+
+/** Map the preview's category label onto the entity kinds the SDK can list. */
+function categoryOf(ref: UnresolvedAgentRef): Category | undefined {
+  const key = ref.category.toLowerCase().replace(/[\s-]+/g, "_").replace(/s$/, "");
+  if (key === "knowledge_base" || key === "memory_bank" || key === "agent") return key;
+  if (key === "source_connection" || key === "source") return "source_connection";
+  return undefined;
+}
+
+const DEPENDENCY_KEYS: Record<Category, string> = {
+  knowledge_base: "knowledge_bases",
+  memory_bank: "memory_banks",
+  source_connection: "source_connections",
+  agent: "agents",
+};
+
+/** The referenced entity's name: from the preview, else the export's dependency manifest. */
+function refName(ref: UnresolvedAgentRef, exported: AgentExportResponse): string | undefined {
+  if (ref.ref_name) return ref.ref_name;
+  const category = categoryOf(ref);
+  const deps = category ? exported.dependencies?.[DEPENDENCY_KEYS[category]] : undefined;
+  const entry = Array.isArray(deps)
+    ? (deps as { id?: unknown; name?: unknown }[]).find((d) => d.id === ref.ref_id)
+    : undefined;
+  return typeof entry?.name === "string" ? entry.name : undefined;
+}
+
+interface MigrationState {
+  /** Source agent ids being planned, to stop sub-agent cycles. */
+  inProgress: Set<string>;
+  /** Target entities by category, listed on first use. */
+  listings: Map<Category, Promise<{ id: string; name: string }[]>>;
+  /** Planned creations by source entity id, so a dependency shared by several agents is created once. */
+  planned: Map<string, PlannedCreate>;
+  /** Target ids of what has been created, by source entity id. */
+  created: Map<string, string>;
+}
+
+/** A dependency to create in the target, with everything needed to create it. */
+type PlannedCreate =
+  | { kind: "memory_bank"; ref: UnresolvedAgentRef; body: CreateMemoryBankBody }
+  | { kind: "knowledge_base"; ref: UnresolvedAgentRef; body: CreateKnowledgeBaseBody }
+  | { kind: "agent"; ref: UnresolvedAgentRef; plan: MigrationPlan };
+
+/** What migrating one agent will do, worked out before anything is written. */
+interface MigrationPlan {
+  opts: MigrateAgentOptions;
+  exported: AgentExportResponse;
+  result: MigrateAgentResult;
+  creates: PlannedCreate[];
+}
+
+const blocked = (plan: MigrationPlan): boolean => plan.result.unresolved.length > 0 && !plan.opts.allowUnresolved;
+
+/** Id and name of every `category` entity in `to`, listed once per migration. */
+function listTarget(to: Seclai, category: Category, state: MigrationState): Promise<{ id: string; name: string }[]> {
+  let listing = state.listings.get(category);
+  if (!listing) {
+    listing = (async () => {
+      const items: { id: string; name: string }[] = [];
+      const source =
+        category === "knowledge_base"
+          ? to.iterKnowledgeBases()
+          : category === "memory_bank"
+            ? to.iterMemoryBanks()
+            : category === "agent"
+              ? to.iterAgents()
+              : to.iterSources();
+      for await (const item of source) items.push({ id: item.id, name: item.name });
+      return items;
+    })();
+    state.listings.set(category, listing);
+  }
+  return listing;
+}
+
+/** @internal The body that recreates `bank` with the same settings. */
+export function memoryBankBody(bank: MemoryBankResponse): CreateMemoryBankBody {
+  const { id: _, created_at: _c, updated_at: _u, source_connection_id: _s, ...settings } = bank;
+  return { ...settings, retention_days: settings.retention_days ?? null };
+}
+
+/** @internal The body that recreates `kb` with the same settings, linked to `sourceIds`. */
+export function knowledgeBaseBody(kb: KnowledgeBaseResponse, sourceIds: string[]): CreateKnowledgeBaseBody {
+  return {
+    name: kb.name,
+    description: kb.description ?? null,
+    default_score_threshold: kb.default_score_threshold ?? null,
+    default_top_k: kb.default_top_k ?? null,
+    default_top_n: kb.default_top_n ?? null,
+    reranker_model: kb.reranker_model ?? null,
+    source_ids: sourceIds,
+  };
+}
+
+/** @internal Implementation of {@link Seclai.migrateAgent}. */
+export async function migrateAgent(from: Seclai, opts: MigrateAgentOptions): Promise<MigrateAgentResult> {
+  const state: MigrationState = { inProgress: new Set(), listings: new Map(), planned: new Map(), created: new Map() };
+  // Every reference, including those of sub-agents and knowledge base sources, is
+  // resolved before the first write, so a missing one leaves the target untouched.
+  const plan = await planMigration(from, opts, state);
+  if (blocked(plan)) return plan.result;
+  return await applyMigration(plan, state);
+}
+
+/** Resolve `opts.agentId`'s references and plan what to create, reading from both accounts only. */
+async function planMigration(from: Seclai, opts: MigrateAgentOptions, state: MigrationState): Promise<MigrationPlan> {
+  const { agentId, to } = opts;
+  state.inProgress.add(agentId);
+  const exported = await from.exportAgent(agentId);
+  const preview = await to.previewImportAgent({ agent_definition: exported });
+  const refs = (preview.unresolved_refs ?? []) as unknown as UnresolvedAgentRef[];
+
+  const result: MigrateAgentResult = { agent: undefined, entityRemap: {}, resolved: [], unresolved: [], subAgents: {} };
+  const plan: MigrationPlan = { opts, exported, result, creates: [] };
+  const toCreate: UnresolvedAgentRef[] = [];
+
+  for (const ref of refs) {
+    if (typeof opts.remap === "object") {
+      const targetId = opts.remap[ref.ref_id];
+      if (targetId !== undefined) result.resolved.push({ ref, targetId, via: "map" });
+      else result.unresolved.push({ ref, reason: "Not in the remap." });
+      continue;
+    }
+    const category = categoryOf(ref);
+    const name = refName(ref, exported);
+    if (name === undefined) {
+      result.unresolved.push({ ref, reason: "The reference has no name to match." });
+      continue;
+    }
+    let matches = ref.alternatives.filter((alt) => alt.name === name);
+    if (matches.length === 0 && category) matches = (await listTarget(to, category, state)).filter((e) => e.name === name);
+    if (matches.length === 1) {
+      result.resolved.push({ ref, targetId: matches[0]!.id, via: "name" });
+    } else if (matches.length > 1) {
+      result.unresolved.push({ ref, reason: `${matches.length} target entities are named ${JSON.stringify(name)}.` });
+    } else if (opts.createMissing && category && category !== "source_connection") {
+      if (category === "agent" && state.inProgress.has(ref.ref_id)) {
+        result.unresolved.push({ ref, reason: "Sub-agents call each other in a cycle." });
+      } else {
+        toCreate.push(ref);
+      }
+    } else {
+      result.unresolved.push({ ref, reason: `No target entity is named ${JSON.stringify(name)}.` });
+    }
+  }
+
+  for (const r of result.resolved) result.entityRemap[r.ref.ref_id] = r.targetId;
+
+  if (!blocked(plan)) {
+    for (const ref of toCreate) {
+      const create = await planDependency(from, ref, plan, state);
+      if (create) plan.creates.push(create);
+      if (blocked(plan)) break;
+    }
+  }
+  state.inProgress.delete(agentId);
+  return plan;
+}
+
+/** Plan the target counterpart of `ref`, or record on `plan` why it cannot be created. */
+async function planDependency(
+  from: Seclai,
+  ref: UnresolvedAgentRef,
+  plan: MigrationPlan,
+  state: MigrationState,
+): Promise<PlannedCreate | undefined> {
+  const shared = state.planned.get(ref.ref_id);
+  if (shared) return shared;
+  const { opts, result } = plan;
+  let create: PlannedCreate;
+  switch (categoryOf(ref)) {
+    case "memory_bank": {
+      create = { kind: "memory_bank", ref, body: memoryBankBody(await from.getMemoryBank(ref.ref_id)) };
+      break;
+    }
+    case "knowledge_base": {
+      const kb = await from.getKnowledgeBase(ref.ref_id);
+      const targets = await listTarget(opts.to, "source_connection", state);
+      const sourceIds: string[] = [];
+      for (const source of kb.sources ?? []) {
+        const byName = targets.filter((t) => t.name === source.name);
+        const id = result.entityRemap[source.id] ?? (byName.length === 1 ? byName[0]!.id : undefined);
+        if (id === undefined) {
+          result.unresolved.push({
+            ref,
+            reason: `Its source ${JSON.stringify(source.name)} has no counterpart in the target account.`,
+          });
+          return undefined;
+        }
+        sourceIds.push(id);
+      }
+      create = { kind: "knowledge_base", ref, body: knowledgeBaseBody(kb, sourceIds) };
+      break;
+    }
+    case "agent": {
+      const sub = await planMigration(from, { ...opts, agentId: ref.ref_id, name: undefined }, state);
+      result.subAgents[ref.ref_id] = sub.result;
+      if (blocked(sub)) {
+        result.unresolved.push({ ref, reason: "Migrating the sub-agent left references unresolved." });
+        return undefined;
+      }
+      create = { kind: "agent", ref, plan: sub };
+      break;
+    }
+    default:
+      throw new SeclaiError(`Cannot create a ${ref.category} in the target account.`);
+  }
+  state.planned.set(ref.ref_id, create);
+  return create;
+}
+
+/** Create `plan`'s dependencies, then its agent. */
+async function applyMigration(plan: MigrationPlan, state: MigrationState): Promise<MigrateAgentResult> {
+  const { opts, exported, result } = plan;
+  for (const create of plan.creates) {
+    const targetId = await createPlanned(opts.to, create, state);
+    result.resolved.push({ ref: create.ref, targetId, via: "created" });
+    result.entityRemap[create.ref.ref_id] = targetId;
+  }
+  result.agent = await opts.to.createAgent({
+    name: opts.name ?? (exported.agent["name"] as string),
+    trigger_type: triggerTypeOf(exported),
+    agent_definition: exported,
+    ...(Object.keys(result.entityRemap).length > 0 ? { entity_remap: result.entityRemap } : {}),
+  });
+  return result;
+}
+
+async function createPlanned(to: Seclai, create: PlannedCreate, state: MigrationState): Promise<string> {
+  const existing = state.created.get(create.ref.ref_id);
+  if (existing !== undefined) return existing;
+  const targetId =
+    create.kind === "memory_bank"
+      ? (await to.createMemoryBank(create.body)).id
+      : create.kind === "knowledge_base"
+        ? (await to.createKnowledgeBase(create.body)).id
+        : (await applyMigration(create.plan, state)).agent!.id;
+  state.created.set(create.ref.ref_id, targetId);
+  return targetId;
+}
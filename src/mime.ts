@@ -0,0 +1,179 @@
+/**
+ * @module
+ *
+ * MIME type detection for uploads: by file extension, and by the magic bytes
+ * at the start of the file when the extension is missing or wrong. Extra types
+ * can be registered with {@link registerMimeType}.
+ */
+
+const MIME_TYPES: Record<string, string> = {
+  txt: "text/plain", html: "text/html", htm: "text/html", md: "text/markdown",
+  csv: "text/csv", xml: "text/xml", json: "application/json",
+  pdf: "application/pdf", doc: "application/msword",
+  docx: "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+  ppt: "application/vnd.ms-powerpoint",
+  pptx: "application/vnd.openxmlformats-officedocument.presentationml.presentation",
+  xls: "application/vnd.ms-excel",
+  xlsx: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+  msg: "application/vnd.ms-outlook", zip: "application/zip",
+  epub: "application/epub+zip",
+  png: "image/png", jpg: "image/jpeg", jpeg: "image/jpeg", gif: "image/gif",
+  bmp: "image/bmp", tiff: "image/tiff", webp: "image/webp",
+  mp3: "audio/mpeg", wav: "audio/wav", m4a: "audio/mp4", flac: "audio/flac",
+  ogg: "audio/ogg", mp4: "video/mp4", mov: "video/quicktime", avi: "video/x-msvideo",
+};
+
+/** Bytes expected at an offset. A string is matched as ASCII. */
+export interface MagicSignature {
+  bytes: string | number[];
+  /** Defaults to `0`. */
+  offset?: number | undefined;
+}
+
+/** A type to recognize, passed to {@link registerMimeType}. */
+export interface MimeTypeDefinition {
+  mimeType: string;
+  /** File extensions, without the dot, that map to the type. */
+  extensions?: string[] | undefined;
+  /** Byte patterns at the start of the file; any one of them matching identifies the type. */
+  signatures?: MagicSignature[] | undefined;
+  /** A custom check of the file's first bytes, for formats a fixed signature cannot tell apart. */
+  detect?: ((head: Uint8Array) => boolean) | undefined;
+}
+
+const registered: MimeTypeDefinition[] = [];
+
+/**
+ * Teach upload MIME detection an extra type.
+ *
+ * Registered types take precedence over the built-in ones, for extensions and
+ * for magic bytes alike, and apply to every upload that infers its type.
+ *
+ * @param definition - The type with its extensions and/or byte signatures.
+ * @returns A function that removes the registration again.
+ *
+ * @example
+ * ```ts
+ * registerMimeType({
+ *   mimeType: "application/x-parquet",
+ *   extensions: ["parquet"],
+ *   signatures: [{ bytes: "PAR1" }],
+ * });
+ * ```
+ */
+export function registerMimeType(definition: MimeTypeDefinition): () => void {
+  registered.unshift(definition);
+  return () => {
+    const index = registered.indexOf(definition);
+    if (index !== -1) registered.splice(index, 1);
+  };
+}
+
+/** @internal The type a file name's extension maps to, if known. */
+export function inferMimeType(fileName: string | undefined): string | undefined {
+  if (!fileName) return undefined;
+  const ext = fileName.split(".").pop()?.toLowerCase();
+  if (!ext) return undefined;
+  return registered.find((d) => d.extensions?.some((e) => e.toLowerCase() === ext))?.mimeType ?? MIME_TYPES[ext];
+}
+
+function matches(bytes: Uint8Array, { bytes: expected, offset = 0 }: MagicSignature): boolean {
+  const codes = typeof expected === "string" ? Array.from(expected, (c) => c.charCodeAt(0)) : expected;
+  if (bytes.length < offset + codes.length) return false;
+  return codes.every((code, i) => bytes[offset + i] === code);
+}
+
+function ascii(bytes: Uint8Array, start: number, end: number): string {
+  return String.fromCharCode(...bytes.subarray(start, end));
+}
+
+/** Whether `needle` occurs in `bytes` as ASCII. */
+function contains(bytes: Uint8Array, needle: string): boolean {
+  const first = needle.charCodeAt(0);
+  for (let i = bytes.indexOf(first); i !== -1 && i <= bytes.length - needle.length; i = bytes.indexOf(first, i + 1)) {
+    if (matches(bytes, { bytes: needle, offset: i })) return true;
+  }
+  return false;
+}
+
+/** Tell EPUB and the Office Open XML formats from a plain ZIP by the entry names they contain. */
+function zipType(head: Uint8Array, tail: Uint8Array | undefined): string {
+  // EPUB stores an uncompressed `mimetype` entry first, right after its 30-byte header.
+  if (matches(head, { bytes: "mimetypeapplication/epub+zip", offset: 30 })) return MIME_TYPES.epub!;
+  const has = (name: string) => contains(head, name) || (tail !== undefined && contains(tail, name));
+  if (has("word/")) return MIME_TYPES.docx!;
+  if (has("xl/")) return MIME_TYPES.xlsx!;
+  if (has("ppt/")) return MIME_TYPES.pptx!;
+  return MIME_TYPES.zip!;
+}
+
+/** The ISO base media brands that mark audio-only MP4. */
+const AUDIO_BRANDS = new Set(["M4A ", "M4B ", "M4P "]);
+
+function builtInType(head: Uint8Array, tail: Uint8Array | undefined): string | undefined {
+  const at = (bytes: string, offset = 0) => matches(head, { bytes, offset });
+  if (at("%PDF-")) return MIME_TYPES.pdf;
+  if (at("PK\x03\x04") || at("PK\x05\x06")) return zipType(head, tail);
+  if (matches(head, { bytes: [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a] })) return MIME_TYPES.png;
+  if (matches(head, { bytes: [0xff, 0xd8, 0xff] })) return MIME_TYPES.jpg;
+  if (at("GIF87a") || at("GIF89a")) return MIME_TYPES.gif;
+  if (at("II*\0") || at("MM\0*")) return MIME_TYPES.tiff;
+  if (at("RIFF")) {
+    const form = ascii(head, 8, 12);
+    if (form === "WEBP") return MIME_TYPES.webp;
+    if (form === "WAVE") return MIME_TYPES.wav;
+    if (form === "AVI ") return MIME_TYPES.avi;
+  }
+  if (at("fLaC")) return MIME_TYPES.flac;
+  if (at("OggS")) return MIME_TYPES.ogg;
+  // An ID3 tag, or an MPEG audio layer III frame header with no tag before it.
+  if (at("ID3") || (head[0] === 0xff && ((head[1] ?? 0) & 0xe6) === 0xe2)) return MIME_TYPES.mp3;
+  if (at("ftyp", 4)) {
+    const brand = ascii(head, 8, 12);
+    if (brand === "qt  ") return MIME_TYPES.mov;
+    return AUDIO_BRANDS.has(brand) ? MIME_TYPES.m4a : MIME_TYPES.mp4;
+  }
+  // QuickTime files from before `ftyp` start straight with a movie atom.
+  if (at("moov", 4) || at("mdat", 4) || at("wide", 4)) return MIME_TYPES.mov;
+  return undefined;
+}
+
+/**
+ * Detect a file's MIME type from its magic bytes.
+ *
+ * Recognizes PDF; ZIP, including DOCX, XLSX, PPTX and EPUB; PNG, JPEG, GIF,
+ * WEBP and TIFF; MP3, WAV, FLAC and OGG; MP4 and MOV; and any type added with
+ * {@link registerMimeType}. Text formats have no magic bytes and are not
+ * detected.
+ *
+ * @param head - The start of the file; 4 KiB is plenty.
+ * @param tail - The end of the file, optional. A ZIP lists its entries there,
+ *   which finds Office files whose first entries do not give them away.
+ * @returns The detected type, or `undefined`.
+ */
+export function sniffMimeType(head: Uint8Array, tail?: Uint8Array): string | undefined {
+  for (const definition of registered) {
+    if (definition.signatures?.some((s) => matches(head, s)) || definition.detect?.(head)) {
+      return definition.mimeType;
+    }
+  }
+  return builtInType(head, tail);
+}
+
+/** Built-in types that are ZIPs underneath; the other built-ins cannot be. */
+const ZIP_BASED = new Set([MIME_TYPES.zip, MIME_TYPES.docx, MIME_TYPES.xlsx, MIME_TYPES.pptx, MIME_TYPES.epub]);
+const BUILT_IN = new Set(Object.values(MIME_TYPES));
+
+/**
+ * @internal The type of a file from its content where that is conclusive,
+ * falling back to its extension.
+ */
+export function detectMimeType(fileName: string, head: Uint8Array, tail?: Uint8Array): string | undefined {
+  const byName = inferMimeType(fileName);
+  const byContent = sniffMimeType(head, tail);
+  // A ZIP whose entries did not reveal its kind is still whatever ZIP-based format its extension says.
+  if (byContent === MIME_TYPES.zip && byName !== undefined && (ZIP_BASED.has(byName) || !BUILT_IN.has(byName))) {
+    return byName;
+  }
+  return byContent ?? byName;
+}
@@ -0,0 +1,1291 @@
+/**
+ * @module
+ *
+ * Resource namespaces on the {@link Seclai} client — `client.agents`,
+ * `client.agents.runs`, `client.sources.exports`, `client.solutions.links`,
+ * `client.alerts.configs` and so on.
+ *
+ * Every namespace method delegates to one of the client's flat methods, which
+ * remain supported and hold the implementation and full documentation. The
+ * namespaces only hold a reference to the client.
+ */
+import type { Seclai } from "./client";
+
+/** `client.agents` — agents, their definitions, runs and evaluations. */
+export class AgentsResource {
+  /** `client.agents.definition` */
+  readonly definition: AgentDefinitionResource;
+  /** `client.agents.runs` */
+  readonly runs: AgentRunsResource;
+  /** `client.agents.inputs` */
+  readonly inputs: AgentInputsResource;
+  /** `client.agents.ai` */
+  readonly ai: AgentAiResource;
+  /** `client.agents.evaluations` */
+  readonly evaluations: AgentEvaluationsResource;
+
+  /** @internal */
+  constructor(private readonly client: Seclai) {
+    this.definition = new AgentDefinitionResource(client);
+    this.runs = new AgentRunsResource(client);
+    this.inputs = new AgentInputsResource(client);
+    this.ai = new AgentAiResource(client);
+    this.evaluations = new AgentEvaluationsResource(client);
+  }
+
+  /** See {@link Seclai.listAgents}. */
+  list(...args: Parameters<Seclai["listAgents"]>): ReturnType<Seclai["listAgents"]> {
+    return this.client.listAgents(...args);
+  }
+
+  /** See {@link Seclai.iterAgents}. */
+  iter(...args: Parameters<Seclai["iterAgents"]>): ReturnType<Seclai["iterAgents"]> {
+    return this.client.iterAgents(...args);
+  }
+
+  /** See {@link Seclai.createAgent}. */
+  create(...args: Parameters<Seclai["createAgent"]>): ReturnType<Seclai["createAgent"]> {
+    return this.client.createAgent(...args);
+  }
+
+  /** See {@link Seclai.getAgent}. */
+  get(...args: Parameters<Seclai["getAgent"]>): ReturnType<Seclai["getAgent"]> {
+    return this.client.getAgent(...args);
+  }
+
+  /** See {@link Seclai.updateAgent}. */
+  update(...args: Parameters<Seclai["updateAgent"]>): ReturnType<Seclai["updateAgent"]> {
+    return this.client.updateAgent(...args);
+  }
+
+  /** See {@link Seclai.deleteAgent}. */
+  delete(...args: Parameters<Seclai["deleteAgent"]>): ReturnType<Seclai["deleteAgent"]> {
+    return this.client.deleteAgent(...args);
+  }
+
+  /** See {@link Seclai.disableAgent}. */
+  disable(...args: Parameters<Seclai["disableAgent"]>): ReturnType<Seclai["disableAgent"]> {
+    return this.client.disableAgent(...args);
+  }
+
+  /** See {@link Seclai.enableAgent}. */
+  enable(...args: Parameters<Seclai["enableAgent"]>): ReturnType<Seclai["enableAgent"]> {
+    return this.client.enableAgent(...args);
+  }
+
+  /** See {@link Seclai.getAgentCallers}. */
+  getCallers(...args: Parameters<Seclai["getAgentCallers"]>): ReturnType<Seclai["getAgentCallers"]> {
+    return this.client.getAgentCallers(...args);
+  }
+
+  /** See {@link Seclai.exportAgent}. */
+  export(...args: Parameters<Seclai["exportAgent"]>): ReturnType<Seclai["exportAgent"]> {
+    return this.client.exportAgent(...args);
+  }
+
+  /** See {@link Seclai.previewImportAgent}. */
+  previewImport(...args: Parameters<Seclai["previewImportAgent"]>): ReturnType<Seclai["previewImportAgent"]> {
+    return this.client.previewImportAgent(...args);
+  }
+
+  /** See {@link Seclai.planAgentSync}. */
+  planSync(...args: Parameters<Seclai["planAgentSync"]>): ReturnType<Seclai["planAgentSync"]> {
+    return this.client.planAgentSync(...args);
+  }
+
+  /** See {@link Seclai.applyAgentSync}. */
+  applySync(...args: Parameters<Seclai["applyAgentSync"]>): ReturnType<Seclai["applyAgentSync"]> {
+    return this.client.applyAgentSync(...args);
+  }
+
+  /** See {@link Seclai.migrateAgent}. */
+  migrate(...args: Parameters<Seclai["migrateAgent"]>): ReturnType<Seclai["migrateAgent"]> {
+    return this.client.migrateAgent(...args);
+  }
+
+  /** See {@link Seclai.getAgentAttachmentReferences}. */
+  getAttachmentReferences(...args: Parameters<Seclai["getAgentAttachmentReferences"]>): ReturnType<Seclai["getAgentAttachmentReferences"]> {
+    return this.client.getAgentAttachmentReferences(...args);
+  }
+
+  /** See {@link Seclai.setEmailTriggerConfig}. */
+  setEmailTriggerConfig(...args: Parameters<Seclai["setEmailTriggerConfig"]>): ReturnType<Seclai["setEmailTriggerConfig"]> {
+    return this.client.setEmailTriggerConfig(...args);
+  }
+
+  /** Start a streaming run behind a `RunStream` handle. See {@link Seclai.streamAgentRun}. */
+  stream(...args: Parameters<Seclai["streamAgentRun"]>): ReturnType<Seclai["streamAgentRun"]> {
+    return this.client.streamAgentRun(...args);
+  }
+}
+
+/** `client.agents.definition` — an agent's step workflow. */
+export class AgentDefinitionResource {
+  /** @internal */
+  constructor(private readonly client: Seclai) {}
+
+  /** See {@link Seclai.getAgentDefinition}. */
+  get(...args: Parameters<Seclai["getAgentDefinition"]>): ReturnType<Seclai["getAgentDefinition"]> {
+    return this.client.getAgentDefinition(...args);
+  }
+
+  /** See {@link Seclai.updateAgentDefinition}. */
+  update(...args: Parameters<Seclai["updateAgentDefinition"]>): ReturnType<Seclai["updateAgentDefinition"]> {
+    return this.client.updateAgentDefinition(...args);
+  }
+
+  /** See {@link Seclai.modifyAgentDefinition}. */
+  modify(...args: Parameters<Seclai["modifyAgentDefinition"]>): ReturnType<Seclai["modifyAgentDefinition"]> {
+    return this.client.modifyAgentDefinition(...args);
+  }
+}
+
+/** `client.agents.runs` — agent runs: starting, streaming, polling and inspecting them. */
+export class AgentRunsResource {
+  /** `client.agents.runs.evaluationResults` */
+  readonly evaluationResults: AgentRunEvaluationResultsResource;
+  /** `client.agents.runs.attachments` */
+  readonly attachments: AgentRunAttachmentsResource;
+
+  /** @internal */
+  constructor(private readonly client: Seclai) {
+    this.evaluationResults = new AgentRunEvaluationResultsResource(client);
+    this.attachments = new AgentRunAttachmentsResource(client);
+  }
+
+  /** See {@link Seclai.runAgent}. */
+  create(...args: Parameters<Seclai["runAgent"]>): ReturnType<Seclai["runAgent"]> {
+    return this.client.runAgent(...args);
+  }
+
+  /** See {@link Seclai.runAgentAndPoll}. */
+  createAndPoll(...args: Parameters<Seclai["runAgentAndPoll"]>): ReturnType<Seclai["runAgentAndPoll"]> {
+    return this.client.runAgentAndPoll(...args);
+  }
+
+  /** See {@link Seclai.runStreamingAgent}. */
+  stream(...args: Parameters<Seclai["runStreamingAgent"]>): ReturnType<Seclai["runStreamingAgent"]> {
+    return this.client.runStreamingAgent(...args);
+  }
+
+  /** See {@link Seclai.runStreamingAgentAndWait}. */
+  streamAndWait(...args: Parameters<Seclai["runStreamingAgentAndWait"]>): ReturnType<Seclai["runStreamingAgentAndWait"]> {
+    return this.client.runStreamingAgentAndWait(...args);
+  }
+
+  /** See {@link Seclai.streamAgentText}. */
+  streamText(...args: Parameters<Seclai["streamAgentText"]>): ReturnType<Seclai["streamAgentText"]> {
+    return this.client.streamAgentText(...args);
+  }
+
+  /** See {@link Seclai.listAgentRuns}. */
+  list(...args: Parameters<Seclai["listAgentRuns"]>): ReturnType<Seclai["listAgentRuns"]> {
+    return this.client.listAgentRuns(...args);
+  }
+
+  /** See {@link Seclai.iterAgentRuns}. */
+  iter(...args: Parameters<Seclai["iterAgentRuns"]>): ReturnType<Seclai["iterAgentRuns"]> {
+    return this.client.iterAgentRuns(...args);
+  }
+
+  /** See {@link Seclai.searchAgentRuns}. */
+  search(...args: Parameters<Seclai["searchAgentRuns"]>): ReturnType<Seclai["searchAgentRuns"]> {
+    return this.client.searchAgentRuns(...args);
+  }
+
+  /** See {@link Seclai.getAgentRun}. */
+  get(...args: Parameters<Seclai["getAgentRun"]>): ReturnType<Seclai["getAgentRun"]> {
+    return this.client.getAgentRun(...args);
+  }
+
+  /** See {@link Seclai.cancelAgentRun}. */
+  cancel(...args: Parameters<Seclai["cancelAgentRun"]>): ReturnType<Seclai["cancelAgentRun"]> {
+    return this.client.cancelAgentRun(...args);
+  }
+}
+
+/** `client.agents.runs.evaluationResults` — evaluation results recorded for a run. */
+export class AgentRunEvaluationResultsResource {
+  /** @internal */
+  constructor(private readonly client: Seclai) {}
+
+  /** See {@link Seclai.listRunEvaluationResults}. */
+  list(...args: Parameters<Seclai["listRunEvaluationResults"]>): ReturnType<Seclai["listRunEvaluationResults"]> {
+    return this.client.listRunEvaluationResults(...args);
+  }
+
+  /** See {@link Seclai.iterRunEvaluationResults}. */
+  iter(...args: Parameters<Seclai["iterRunEvaluationResults"]>): ReturnType<Seclai["iterRunEvaluationResults"]> {
+    return this.client.iterRunEvaluationResults(...args);
+  }
+}
+
+/** `client.agents.runs.attachments` — files attached to a run. */
+export class AgentRunAttachmentsResource {
+  /** @internal */
+  constructor(private readonly client: Seclai) {}
+
+  /** See {@link Seclai.downloadAgentRunAttachment}. */
+  download(...args: Parameters<Seclai["downloadAgentRunAttachment"]>): ReturnType<Seclai["downloadAgentRunAttachment"]> {
+    return this.client.downloadAgentRunAttachment(...args);
+  }
+
+  /** See {@link Seclai.downloadAttachmentRef}. */
+  downloadRef(...args: Parameters<Seclai["downloadAttachmentRef"]>): ReturnType<Seclai["downloadAttachmentRef"]> {
+    return this.client.downloadAttachmentRef(...args);
+  }
+
+  /** See {@link Seclai.listRunAttachments}. */
+  list(...args: Parameters<Seclai["listRunAttachments"]>): ReturnType<Seclai["listRunAttachments"]> {
+    return this.client.listRunAttachments(...args);
+  }
+}
+
+/** `client.agents.inputs` — files uploaded as input for `dynamic_input` runs. */
+export class AgentInputsResource {
+  /** @internal */
+  constructor(private readonly client: Seclai) {}
+
+  /** See {@link Seclai.uploadAgentInput}. */
+  upload(...args: Parameters<Seclai["uploadAgentInput"]>): ReturnType<Seclai["uploadAgentInput"]> {
+    return this.client.uploadAgentInput(...args);
+  }
+
+  /** See {@link Seclai.getAgentInputUploadStatus}. */
+  getStatus(...args: Parameters<Seclai["getAgentInputUploadStatus"]>): ReturnType<Seclai["getAgentInputUploadStatus"]> {
+    return this.client.getAgentInputUploadStatus(...args);
+  }
+}
+
+/** `client.agents.ai` — the agent AI assistant. */
+export class AgentAiResource {
+  /** @internal */
+  constructor(private readonly client: Seclai) {}
+
+  /** See {@link Seclai.generateAgentSteps}. */
+  generateSteps(...args: Parameters<Seclai["generateAgentSteps"]>): ReturnType<Seclai["generateAgentSteps"]> {
+    return this.client.generateAgentSteps(...args);
+  }
+
+  /** See {@link Seclai.generateStepConfig}. */
+  generateStepConfig(...args: Parameters<Seclai["generateStepConfig"]>): ReturnType<Seclai["generateStepConfig"]> {
+    return this.client.generateStepConfig(...args);
+  }
+
+  /** See {@link Seclai.getAgentAiConversationHistory}. */
+  getConversationHistory(...args: Parameters<Seclai["getAgentAiConversationHistory"]>): ReturnType<Seclai["getAgentAiConversationHistory"]> {
+    return this.client.getAgentAiConversationHistory(...args);
+  }
+
+  /** See {@link Seclai.markAgentAiSuggestion}. */
+  markSuggestion(...args: Parameters<Seclai["markAgentAiSuggestion"]>): ReturnType<Seclai["markAgentAiSuggestion"]> {
+    return this.client.markAgentAiSuggestion(...args);
+  }
+}
+
+/** `client.agents.evaluations` — agent evaluations. */
+export class AgentEvaluationsResource {
+  /** `client.agents.evaluations.criteria` */
+  readonly criteria: EvaluationCriteriaResource;
+
+  /** @internal */
+  constructor(private readonly client: Seclai) {
+    this.criteria = new EvaluationCriteriaResource(client);
+  }
+
+  /** See {@link Seclai.listAgentEvaluationResults}. */
+  listResults(...args: Parameters<Seclai["listAgentEvaluationResults"]>): ReturnType<Seclai["listAgentEvaluationResults"]> {
+    return this.client.listAgentEvaluationResults(...args);
+  }
+
+  /** See {@link Seclai.iterAgentEvaluationResults}. */
+  iterResults(...args: Parameters<Seclai["iterAgentEvaluationResults"]>): ReturnType<Seclai["iterAgentEvaluationResults"]> {
+    return this.client.iterAgentEvaluationResults(...args);
+  }
+
+  /** See {@link Seclai.listEvaluationRuns}. */
+  listRuns(...args: Parameters<Seclai["listEvaluationRuns"]>): ReturnType<Seclai["listEvaluationRuns"]> {
+    return this.client.listEvaluationRuns(...args);
+  }
+
+  /** See {@link Seclai.iterEvaluationRuns}. */
+  iterRuns(...args: Parameters<Seclai["iterEvaluationRuns"]>): ReturnType<Seclai["iterEvaluationRuns"]> {
+    return this.client.iterEvaluationRuns(...args);
+  }
+
+  /** See {@link Seclai.getNonManualEvaluationSummary}. */
+  getNonManualSummary(...args: Parameters<Seclai["getNonManualEvaluationSummary"]>): ReturnType<Seclai["getNonManualEvaluationSummary"]> {
+    return this.client.getNonManualEvaluationSummary(...args);
+  }
+
+  /** See {@link Seclai.testDraftEvaluation}. */
+  testDraft(...args: Parameters<Seclai["testDraftEvaluation"]>): ReturnType<Seclai["testDraftEvaluation"]> {
+    return this.client.testDraftEvaluation(...args);
+  }
+}
+
+/** `client.agents.evaluations.criteria` — evaluation criteria and their results. */
+export class EvaluationCriteriaResource {
+  /** @internal */
+  constructor(private readonly client: Seclai) {}
+
+  /** See {@link Seclai.listEvaluationCriteria}. */
+  list(...args: Parameters<Seclai["listEvaluationCriteria"]>): ReturnType<Seclai["listEvaluationCriteria"]> {
+    return this.client.listEvaluationCriteria(...args);
+  }
+
+  /** See {@link Seclai.listEvaluationCriteriaPage}. */
+  listPage(...args: Parameters<Seclai["listEvaluationCriteriaPage"]>): ReturnType<Seclai["listEvaluationCriteriaPage"]> {
+    return this.client.listEvaluationCriteriaPage(...args);
+  }
+
+  /** See {@link Seclai.iterEvaluationCriteria}. */
+  iter(...args: Parameters<Seclai["iterEvaluationCriteria"]>): ReturnType<Seclai["iterEvaluationCriteria"]> {
+    return this.client.iterEvaluationCriteria(...args);
+  }
+
+  /** See {@link Seclai.createEvaluationCriteria}. */
+  create(...args: Parameters<Seclai["createEvaluationCriteria"]>): ReturnType<Seclai["createEvaluationCriteria"]> {
+    return this.client.createEvaluationCriteria(...args);
+  }
+
+  /** See {@link Seclai.getEvaluationCriteria}. */
+  get(...args: Parameters<Seclai["getEvaluationCriteria"]>): ReturnType<Seclai["getEvaluationCriteria"]> {
+    return this.client.getEvaluationCriteria(...args);
+  }
+
+  /** See {@link Seclai.updateEvaluationCriteria}. */
+  update(...args: Parameters<Seclai["updateEvaluationCriteria"]>): ReturnType<Seclai["updateEvaluationCriteria"]> {
+    return this.client.updateEvaluationCriteria(...args);
+  }
+
+  /** See {@link Seclai.deleteEvaluationCriteria}. */
+  delete(...args: Parameters<Seclai["deleteEvaluationCriteria"]>): ReturnType<Seclai["deleteEvaluationCriteria"]> {
+    return this.client.deleteEvaluationCriteria(...args);
+  }
+
+  /** See {@link Seclai.getEvaluationCriteriaSummary}. */
+  getSummary(...args: Parameters<Seclai["getEvaluationCriteriaSummary"]>): ReturnType<Seclai["getEvaluationCriteriaSummary"]> {
+    return this.client.getEvaluationCriteriaSummary(...args);
+  }
+
+  /** See {@link Seclai.listEvaluationResults}. */
+  listResults(...args: Parameters<Seclai["listEvaluationResults"]>): ReturnType<Seclai["listEvaluationResults"]> {
+    return this.client.listEvaluationResults(...args);
+  }
+
+  /** See {@link Seclai.iterEvaluationResults}. */
+  iterResults(...args: Parameters<Seclai["iterEvaluationResults"]>): ReturnType<Seclai["iterEvaluationResults"]> {
+    return this.client.iterEvaluationResults(...args);
+  }
+
+  /** See {@link Seclai.createEvaluationResult}. */
+  createResult(...args: Parameters<Seclai["createEvaluationResult"]>): ReturnType<Seclai["createEvaluationResult"]> {
+    return this.client.createEvaluationResult(...args);
+  }
+
+  /** See {@link Seclai.listCompatibleRuns}. */
+  listCompatibleRuns(...args: Parameters<Seclai["listCompatibleRuns"]>): ReturnType<Seclai["listCompatibleRuns"]> {
+    return this.client.listCompatibleRuns(...args);
+  }
+
+  /** See {@link Seclai.iterCompatibleRuns}. */
+  iterCompatibleRuns(...args: Parameters<Seclai["iterCompatibleRuns"]>): ReturnType<Seclai["iterCompatibleRuns"]> {
+    return this.client.iterCompatibleRuns(...args);
+  }
+}
+
+/** `client.knowledgeBases` — knowledge bases. */
+export class KnowledgeBasesResource {
+  /** @internal */
+  constructor(private readonly client: Seclai) {}
+
+  /** See {@link Seclai.listKnowledgeBases}. */
+  list(...args: Parameters<Seclai["listKnowledgeBases"]>): ReturnType<Seclai["listKnowledgeBases"]> {
+    return this.client.listKnowledgeBases(...args);
+  }
+
+  /** See {@link Seclai.iterKnowledgeBases}. */
+  iter(...args: Parameters<Seclai["iterKnowledgeBases"]>): ReturnType<Seclai["iterKnowledgeBases"]> {
+    return this.client.iterKnowledgeBases(...args);
+  }
+
+  /** See {@link Seclai.createKnowledgeBase}. */
+  create(...args: Parameters<Seclai["createKnowledgeBase"]>): ReturnType<Seclai["createKnowledgeBase"]> {
+    return this.client.createKnowledgeBase(...args);
+  }
+
+  /** See {@link Seclai.getKnowledgeBase}. */
+  get(...args: Parameters<Seclai["getKnowledgeBase"]>): ReturnType<Seclai["getKnowledgeBase"]> {
+    return this.client.getKnowledgeBase(...args);
+  }
+
+  /** See {@link Seclai.updateKnowledgeBase}. */
+  update(...args: Parameters<Seclai["updateKnowledgeBase"]>): ReturnType<Seclai["updateKnowledgeBase"]> {
+    return this.client.updateKnowledgeBase(...args);
+  }
+
+  /** See {@link Seclai.deleteKnowledgeBase}. */
+  delete(...args: Parameters<Seclai["deleteKnowledgeBase"]>): ReturnType<Seclai["deleteKnowledgeBase"]> {
+    return this.client.deleteKnowledgeBase(...args);
+  }
+}
+
+/** `client.memoryBanks` — memory banks. */
+export class MemoryBanksResource {
+  /** `client.memoryBanks.ai` */
+  readonly ai: MemoryBankAiResource;
+
+  /** @internal */
+  constructor(private readonly client: Seclai) {
+    this.ai = new MemoryBankAiResource(client);
+  }
+
+  /** See {@link Seclai.listMemoryBanks}. */
+  list(...args: Parameters<Seclai["listMemoryBanks"]>): ReturnType<Seclai["listMemoryBanks"]> {
+    return this.client.listMemoryBanks(...args);
+  }
+
+  /** See {@link Seclai.iterMemoryBanks}. */
+  iter(...args: Parameters<Seclai["iterMemoryBanks"]>): ReturnType<Seclai["iterMemoryBanks"]> {
+    return this.client.iterMemoryBanks(...args);
+  }
+
+  /** See {@link Seclai.createMemoryBank}. */
+  create(...args: Parameters<Seclai["createMemoryBank"]>): ReturnType<Seclai["createMemoryBank"]> {
+    return this.client.createMemoryBank(...args);
+  }
+
+  /** See {@link Seclai.getMemoryBank}. */
+  get(...args: Parameters<Seclai["getMemoryBank"]>): ReturnType<Seclai["getMemoryBank"]> {
+    return this.client.getMemoryBank(...args);
+  }
+
+  /** See {@link Seclai.updateMemoryBank}. */
+  update(...args: Parameters<Seclai["updateMemoryBank"]>): ReturnType<Seclai["updateMemoryBank"]> {
+    return this.client.updateMemoryBank(...args);
+  }
+
+  /** See {@link Seclai.deleteMemoryBank}. */
+  delete(...args: Parameters<Seclai["deleteMemoryBank"]>): ReturnType<Seclai["deleteMemoryBank"]> {
+    return this.client.deleteMemoryBank(...args);
+  }
+
+  /** See {@link Seclai.getAgentsUsingMemoryBank}. */
+  getAgents(...args: Parameters<Seclai["getAgentsUsingMemoryBank"]>): ReturnType<Seclai["getAgentsUsingMemoryBank"]> {
+    return this.client.getAgentsUsingMemoryBank(...args);
+  }
+
+  /** See {@link Seclai.getMemoryBankStats}. */
+  getStats(...args: Parameters<Seclai["getMemoryBankStats"]>): ReturnType<Seclai["getMemoryBankStats"]> {
+    return this.client.getMemoryBankStats(...args);
+  }
+
+  /** See {@link Seclai.compactMemoryBank}. */
+  compact(...args: Parameters<Seclai["compactMemoryBank"]>): ReturnType<Seclai["compactMemoryBank"]> {
+    return this.client.compactMemoryBank(...args);
+  }
+
+  /** See {@link Seclai.deleteMemoryBankSource}. */
+  deleteSource(...args: Parameters<Seclai["deleteMemoryBankSource"]>): ReturnType<Seclai["deleteMemoryBankSource"]> {
+    return this.client.deleteMemoryBankSource(...args);
+  }
+
+  /** See {@link Seclai.testMemoryBankCompaction}. */
+  testCompaction(...args: Parameters<Seclai["testMemoryBankCompaction"]>): ReturnType<Seclai["testMemoryBankCompaction"]> {
+    return this.client.testMemoryBankCompaction(...args);
+  }
+
+  /** See {@link Seclai.testCompactionPromptStandalone}. */
+  testCompactionPrompt(...args: Parameters<Seclai["testCompactionPromptStandalone"]>): ReturnType<Seclai["testCompactionPromptStandalone"]> {
+    return this.client.testCompactionPromptStandalone(...args);
+  }
+
+  /** See {@link Seclai.listMemoryBankTemplates}. */
+  listTemplates(...args: Parameters<Seclai["listMemoryBankTemplates"]>): ReturnType<Seclai["listMemoryBankTemplates"]> {
+    return this.client.listMemoryBankTemplates(...args);
+  }
+}
+
+/** `client.memoryBanks.ai` — the memory bank AI assistant. */
+export class MemoryBankAiResource {
+  /** @internal */
+  constructor(private readonly client: Seclai) {}
+
+  /** See {@link Seclai.generateMemoryBankConfig}. */
+  generateConfig(...args: Parameters<Seclai["generateMemoryBankConfig"]>): ReturnType<Seclai["generateMemoryBankConfig"]> {
+    return this.client.generateMemoryBankConfig(...args);
+  }
+
+  /** See {@link Seclai.getMemoryBankAiLastConversation}. */
+  getLastConversation(...args: Parameters<Seclai["getMemoryBankAiLastConversation"]>): ReturnType<Seclai["getMemoryBankAiLastConversation"]> {
+    return this.client.getMemoryBankAiLastConversation(...args);
+  }
+
+  /** See {@link Seclai.acceptMemoryBankAiSuggestion}. */
+  acceptSuggestion(...args: Parameters<Seclai["acceptMemoryBankAiSuggestion"]>): ReturnType<Seclai["acceptMemoryBankAiSuggestion"]> {
+    return this.client.acceptMemoryBankAiSuggestion(...args);
+  }
+}
+
+/** `client.sources` — content sources and their uploads. */
+export class SourcesResource {
+  /** `client.sources.exports` */
+  readonly exports: SourceExportsResource;
+  /** `client.sources.embeddingMigration` */
+  readonly embeddingMigration: SourceEmbeddingMigrationResource;
+
+  /** @internal */
+  constructor(private readonly client: Seclai) {
+    this.exports = new SourceExportsResource(client);
+    this.embeddingMigration = new SourceEmbeddingMigrationResource(client);
+  }
+
+  /** See {@link Seclai.listSources}. */
+  list(...args: Parameters<Seclai["listSources"]>): ReturnType<Seclai["listSources"]> {
+    return this.client.listSources(...args);
+  }
+
+  /** See {@link Seclai.iterSources}. */
+  iter(...args: Parameters<Seclai["iterSources"]>): ReturnType<Seclai["iterSources"]> {
+    return this.client.iterSources(...args);
+  }
+
+  /** See {@link Seclai.createSource}. */
+  create(...args: Parameters<Seclai["createSource"]>): ReturnType<Seclai["createSource"]> {
+    return this.client.createSource(...args);
+  }
+
+  /** See {@link Seclai.getSource}. */
+  get(...args: Parameters<Seclai["getSource"]>): ReturnType<Seclai["getSource"]> {
+    return this.client.getSource(...args);
+  }
+
+  /** See {@link Seclai.updateSource}. */
+  update(...args: Parameters<Seclai["updateSource"]>): ReturnType<Seclai["updateSource"]> {
+    return this.client.updateSource(...args);
+  }
+
+  /** See {@link Seclai.deleteSource}. */
+  delete(...args: Parameters<Seclai["deleteSource"]>): ReturnType<Seclai["deleteSource"]> {
+    return this.client.deleteSource(...args);
+  }
+
+  /** See {@link Seclai.uploadFileToSource}. */
+  uploadFile(...args: Parameters<Seclai["uploadFileToSource"]>): ReturnType<Seclai["uploadFileToSource"]> {
+    return this.client.uploadFileToSource(...args);
+  }
+
+  /** See {@link Seclai.uploadPathToSource}. */
+  uploadPath(...args: Parameters<Seclai["uploadPathToSource"]>): ReturnType<Seclai["uploadPathToSource"]> {
+    return this.client.uploadPathToSource(...args);
+  }
+
+  /** See {@link Seclai.uploadInlineTextToSource}. */
+  uploadInlineText(...args: Parameters<Seclai["uploadInlineTextToSource"]>): ReturnType<Seclai["uploadInlineTextToSource"]> {
+    return this.client.uploadInlineTextToSource(...args);
+  }
+}
+
+/** `client.sources.exports` — exports of a source's content. */
+export class SourceExportsResource {
+  /** @internal */
+  constructor(private readonly client: Seclai) {}
+
+  /** See {@link Seclai.listSourceExports}. */
+  list(...args: Parameters<Seclai["listSourceExports"]>): ReturnType<Seclai["listSourceExports"]> {
+    return this.client.listSourceExports(...args);
+  }
+
+  /** See {@link Seclai.iterSourceExports}. */
+  iter(...args: Parameters<Seclai["iterSourceExports"]>): ReturnType<Seclai["iterSourceExports"]> {
+    return this.client.iterSourceExports(...args);
+  }
+
+  /** See {@link Seclai.createSourceExport}. */
+  create(...args: Parameters<Seclai["createSourceExport"]>): ReturnType<Seclai["createSourceExport"]> {
+    return this.client.createSourceExport(...args);
+  }
+
+  /** See {@link Seclai.getSourceExport}. */
+  get(...args: Parameters<Seclai["getSourceExport"]>): ReturnType<Seclai["getSourceExport"]> {
+    return this.client.getSourceExport(...args);
+  }
+
+  /** See {@link Seclai.cancelSourceExport}. */
+  cancel(...args: Parameters<Seclai["cancelSourceExport"]>): ReturnType<Seclai["cancelSourceExport"]> {
+    return this.client.cancelSourceExport(...args);
+  }
+
+  /** See {@link Seclai.downloadSourceExport}. */
+  download(...args: Parameters<Seclai["downloadSourceExport"]>): ReturnType<Seclai["downloadSourceExport"]> {
+    return this.client.downloadSourceExport(...args);
+  }
+
+  /** See {@link Seclai.downloadSourceExportToFile}. */
+  downloadToFile(...args: Parameters<Seclai["downloadSourceExportToFile"]>): ReturnType<Seclai["downloadSourceExportToFile"]> {
+    return this.client.downloadSourceExportToFile(...args);
+  }
+
+  /** See {@link Seclai.downloadSourceExportToBlob}. */
+  downloadToBlob(...args: Parameters<Seclai["downloadSourceExportToBlob"]>): ReturnType<Seclai["downloadSourceExportToBlob"]> {
+    return this.client.downloadSourceExportToBlob(...args);
+  }
+
+  /** See {@link Seclai.estimateSourceExport}. */
+  estimate(...args: Parameters<Seclai["estimateSourceExport"]>): ReturnType<Seclai["estimateSourceExport"]> {
+    return this.client.estimateSourceExport(...args);
+  }
+
+  /** See {@link Seclai.deleteSourceExport}. */
+  delete(...args: Parameters<Seclai["deleteSourceExport"]>): ReturnType<Seclai["deleteSourceExport"]> {
+    return this.client.deleteSourceExport(...args);
+  }
+}
+
+/** `client.sources.embeddingMigration` — moving a source to a new embedding model. */
+export class SourceEmbeddingMigrationResource {
+  /** @internal */
+  constructor(private readonly client: Seclai) {}
+
+  /** See {@link Seclai.getSourceEmbeddingMigration}. */
+  get(...args: Parameters<Seclai["getSourceEmbeddingMigration"]>): ReturnType<Seclai["getSourceEmbeddingMigration"]> {
+    return this.client.getSourceEmbeddingMigration(...args);
+  }
+
+  /** See {@link Seclai.startSourceEmbeddingMigration}. */
+  start(...args: Parameters<Seclai["startSourceEmbeddingMigration"]>): ReturnType<Seclai["startSourceEmbeddingMigration"]> {
+    return this.client.startSourceEmbeddingMigration(...args);
+  }
+
+  /** See {@link Seclai.cancelSourceEmbeddingMigration}. */
+  cancel(...args: Parameters<Seclai["cancelSourceEmbeddingMigration"]>): ReturnType<Seclai["cancelSourceEmbeddingMigration"]> {
+    return this.client.cancelSourceEmbeddingMigration(...args);
+  }
+}
+
+/** `client.contents` — content versions within sources. */
+export class ContentsResource {
+  /** `client.contents.embeddings` */
+  readonly embeddings: ContentEmbeddingsResource;
+
+  /** @internal */
+  constructor(private readonly client: Seclai) {
+    this.embeddings = new ContentEmbeddingsResource(client);
+  }
+
+  /** See {@link Seclai.getContentDetail}. */
+  get(...args: Parameters<Seclai["getContentDetail"]>): ReturnType<Seclai["getContentDetail"]> {
+    return this.client.getContentDetail(...args);
+  }
+
+  /** See {@link Seclai.replaceContentWithInlineText}. */
+  replaceWithInlineText(...args: Parameters<Seclai["replaceContentWithInlineText"]>): ReturnType<Seclai["replaceContentWithInlineText"]> {
+    return this.client.replaceContentWithInlineText(...args);
+  }
+
+  /** See {@link Seclai.uploadFileToContent}. */
+  uploadFile(...args: Parameters<Seclai["uploadFileToContent"]>): ReturnType<Seclai["uploadFileToContent"]> {
+    return this.client.uploadFileToContent(...args);
+  }
+
+  /** See {@link Seclai.deleteContent}. */
+  delete(...args: Parameters<Seclai["deleteContent"]>): ReturnType<Seclai["deleteContent"]> {
+    return this.client.deleteContent(...args);
+  }
+}
+
+/** `client.contents.embeddings` — the embeddings of a content version. */
+export class ContentEmbeddingsResource {
+  /** @internal */
+  constructor(private readonly client: Seclai) {}
+
+  /** See {@link Seclai.listContentEmbeddings}. */
+  list(...args: Parameters<Seclai["listContentEmbeddings"]>): ReturnType<Seclai["listContentEmbeddings"]> {
+    return this.client.listContentEmbeddings(...args);
+  }
+
+  /** See {@link Seclai.iterContentEmbeddings}. */
+  iter(...args: Parameters<Seclai["iterContentEmbeddings"]>): ReturnType<Seclai["iterContentEmbeddings"]> {
+    return this.client.iterContentEmbeddings(...args);
+  }
+}
+
+/** `client.solutions` — solutions and the resources linked to them. */
+export class SolutionsResource {
+  /** `client.solutions.links` */
+  readonly links: SolutionLinksResource;
+  /** `client.solutions.conversations` */
+  readonly conversations: SolutionConversationsResource;
+  /** `client.solutions.ai` */
+  readonly ai: SolutionAiResource;
+
+  /** @internal */
+  constructor(private readonly client: Seclai) {
+    this.links = new SolutionLinksResource(client);
+    this.conversations = new SolutionConversationsResource(client);
+    this.ai = new SolutionAiResource(client);
+  }
+
+  /** See {@link Seclai.listSolutions}. */
+  list(...args: Parameters<Seclai["listSolutions"]>): ReturnType<Seclai["listSolutions"]> {
+    return this.client.listSolutions(...args);
+  }
+
+  /** See {@link Seclai.iterSolutions}. */
+  iter(...args: Parameters<Seclai["iterSolutions"]>): ReturnType<Seclai["iterSolutions"]> {
+    return this.client.iterSolutions(...args);
+  }
+
+  /** See {@link Seclai.createSolution}. */
+  create(...args: Parameters<Seclai["createSolution"]>): ReturnType<Seclai["createSolution"]> {
+    return this.client.createSolution(...args);
+  }
+
+  /** See {@link Seclai.getSolution}. */
+  get(...args: Parameters<Seclai["getSolution"]>): ReturnType<Seclai["getSolution"]> {
+    return this.client.getSolution(...args);
+  }
+
+  /** See {@link Seclai.updateSolution}. */
+  update(...args: Parameters<Seclai["updateSolution"]>): ReturnType<Seclai["updateSolution"]> {
+    return this.client.updateSolution(...args);
+  }
+
+  /** See {@link Seclai.deleteSolution}. */
+  delete(...args: Parameters<Seclai["deleteSolution"]>): ReturnType<Seclai["deleteSolution"]> {
+    return this.client.deleteSolution(...args);
+  }
+
+  /** See {@link Seclai.exportSolutionBundle}. */
+  exportBundle(...args: Parameters<Seclai["exportSolutionBundle"]>): ReturnType<Seclai["exportSolutionBundle"]> {
+    return this.client.exportSolutionBundle(...args);
+  }
+
+  /** See {@link Seclai.importSolutionBundle}. */
+  importBundle(...args: Parameters<Seclai["importSolutionBundle"]>): ReturnType<Seclai["importSolutionBundle"]> {
+    return this.client.importSolutionBundle(...args);
+  }
+}
+
+/** `client.solutions.links` — linking agents, knowledge bases and source connections to a solution. */
+export class SolutionLinksResource {
+  /** @internal */
+  constructor(private readonly client: Seclai) {}
+
+  /** See {@link Seclai.linkAgentsToSolution}. */
+  linkAgents(...args: Parameters<Seclai["linkAgentsToSolution"]>): ReturnType<Seclai["linkAgentsToSolution"]> {
+    return this.client.linkAgentsToSolution(...args);
+  }
+
+  /** See {@link Seclai.unlinkAgentsFromSolution}. */
+  unlinkAgents(...args: Parameters<Seclai["unlinkAgentsFromSolution"]>): ReturnType<Seclai["unlinkAgentsFromSolution"]> {
+    return this.client.unlinkAgentsFromSolution(...args);
+  }
+
+  /** See {@link Seclai.linkKnowledgeBasesToSolution}. */
+  linkKnowledgeBases(...args: Parameters<Seclai["linkKnowledgeBasesToSolution"]>): ReturnType<Seclai["linkKnowledgeBasesToSolution"]> {
+    return this.client.linkKnowledgeBasesToSolution(...args);
+  }
+
+  /** See {@link Seclai.unlinkKnowledgeBasesFromSolution}. */
+  unlinkKnowledgeBases(...args: Parameters<Seclai["unlinkKnowledgeBasesFromSolution"]>): ReturnType<Seclai["unlinkKnowledgeBasesFromSolution"]> {
+    return this.client.unlinkKnowledgeBasesFromSolution(...args);
+  }
+
+  /** See {@link Seclai.linkSourceConnectionsToSolution}. */
+  linkSourceConnections(...args: Parameters<Seclai["linkSourceConnectionsToSolution"]>): ReturnType<Seclai["linkSourceConnectionsToSolution"]> {
+    return this.client.linkSourceConnectionsToSolution(...args);
+  }
+
+  /** See {@link Seclai.unlinkSourceConnectionsFromSolution}. */
+  unlinkSourceConnections(...args: Parameters<Seclai["unlinkSourceConnectionsFromSolution"]>): ReturnType<Seclai["unlinkSourceConnectionsFromSolution"]> {
+    return this.client.unlinkSourceConnectionsFromSolution(...args);
+  }
+}
+
+/** `client.solutions.conversations` — a solution's conversation turns. */
+export class SolutionConversationsResource {
+  /** @internal */
+  constructor(private readonly client: Seclai) {}
+
+  /** See {@link Seclai.listSolutionConversations}. */
+  list(...args: Parameters<Seclai["listSolutionConversations"]>): ReturnType<Seclai["listSolutionConversations"]> {
+    return this.client.listSolutionConversations(...args);
+  }
+
+  /** See {@link Seclai.addSolutionConversationTurn}. */
+  add(...args: Parameters<Seclai["addSolutionConversationTurn"]>): ReturnType<Seclai["addSolutionConversationTurn"]> {
+    return this.client.addSolutionConversationTurn(...args);
+  }
+
+  /** See {@link Seclai.markSolutionConversationTurn}. */
+  mark(...args: Parameters<Seclai["markSolutionConversationTurn"]>): ReturnType<Seclai["markSolutionConversationTurn"]> {
+    return this.client.markSolutionConversationTurn(...args);
+  }
+}
+
+/** `client.solutions.ai` — the solution AI assistant. */
+export class SolutionAiResource {
+  /** @internal */
+  constructor(private readonly client: Seclai) {}
+
+  /** See {@link Seclai.generateSolutionAiPlan}. */
+  generatePlan(...args: Parameters<Seclai["generateSolutionAiPlan"]>): ReturnType<Seclai["generateSolutionAiPlan"]> {
+    return this.client.generateSolutionAiPlan(...args);
+  }
+
+  /** See {@link Seclai.generateSolutionAiKnowledgeBase}. */
+  generateKnowledgeBase(...args: Parameters<Seclai["generateSolutionAiKnowledgeBase"]>): ReturnType<Seclai["generateSolutionAiKnowledgeBase"]> {
+    return this.client.generateSolutionAiKnowledgeBase(...args);
+  }
+
+  /** See {@link Seclai.generateSolutionAiSource}. */
+  generateSource(...args: Parameters<Seclai["generateSolutionAiSource"]>): ReturnType<Seclai["generateSolutionAiSource"]> {
+    return this.client.generateSolutionAiSource(...args);
+  }
+
+  /** See {@link Seclai.acceptSolutionAiPlan}. */
+  acceptPlan(...args: Parameters<Seclai["acceptSolutionAiPlan"]>): ReturnType<Seclai["acceptSolutionAiPlan"]> {
+    return this.client.acceptSolutionAiPlan(...args);
+  }
+
+  /** See {@link Seclai.declineSolutionAiPlan}. */
+  declinePlan(...args: Parameters<Seclai["declineSolutionAiPlan"]>): ReturnType<Seclai["declineSolutionAiPlan"]> {
+    return this.client.declineSolutionAiPlan(...args);
+  }
+}
+
+/** `client.governance` — governance. */
+export class GovernanceResource {
+  /** `client.governance.ai` */
+  readonly ai: GovernanceAiResource;
+
+  /** @internal */
+  constructor(private readonly client: Seclai) {
+    this.ai = new GovernanceAiResource(client);
+  }
+}
+
+/** `client.governance.ai` — the governance AI assistant. */
+export class GovernanceAiResource {
+  /** @internal */
+  constructor(private readonly client: Seclai) {}
+
+  /** See {@link Seclai.generateGovernanceAiPlan}. */
+  generatePlan(...args: Parameters<Seclai["generateGovernanceAiPlan"]>): ReturnType<Seclai["generateGovernanceAiPlan"]> {
+    return this.client.generateGovernanceAiPlan(...args);
+  }
+
+  /** See {@link Seclai.listGovernanceAiConversations}. */
+  listConversations(...args: Parameters<Seclai["listGovernanceAiConversations"]>): ReturnType<Seclai["listGovernanceAiConversations"]> {
+    return this.client.listGovernanceAiConversations(...args);
+  }
+
+  /** See {@link Seclai.acceptGovernanceAiPlan}. */
+  acceptPlan(...args: Parameters<Seclai["acceptGovernanceAiPlan"]>): ReturnType<Seclai["acceptGovernanceAiPlan"]> {
+    return this.client.acceptGovernanceAiPlan(...args);
+  }
+
+  /** See {@link Seclai.declineGovernanceAiPlan}. */
+  declinePlan(...args: Parameters<Seclai["declineGovernanceAiPlan"]>): ReturnType<Seclai["declineGovernanceAiPlan"]> {
+    return this.client.declineGovernanceAiPlan(...args);
+  }
+}
+
+/** `client.alerts` — alerts, alert configs and alert preferences. */
+export class AlertsResource {
+  /** `client.alerts.configs` */
+  readonly configs: AlertConfigsResource;
+  /** `client.alerts.preferences` */
+  readonly preferences: AlertPreferencesResource;
+
+  /** @internal */
+  constructor(private readonly client: Seclai) {
+    this.configs = new AlertConfigsResource(client);
+    this.preferences = new AlertPreferencesResource(client);
+  }
+
+  /** See {@link Seclai.listAlerts}. */
+  list(...args: Parameters<Seclai["listAlerts"]>): ReturnType<Seclai["listAlerts"]> {
+    return this.client.listAlerts(...args);
+  }
+
+  /** See {@link Seclai.iterAlerts}. */
+  iter(...args: Parameters<Seclai["iterAlerts"]>): ReturnType<Seclai["iterAlerts"]> {
+    return this.client.iterAlerts(...args);
+  }
+
+  /** See {@link Seclai.getAlert}. */
+  get(...args: Parameters<Seclai["getAlert"]>): ReturnType<Seclai["getAlert"]> {
+    return this.client.getAlert(...args);
+  }
+
+  /** See {@link Seclai.changeAlertStatus}. */
+  changeStatus(...args: Parameters<Seclai["changeAlertStatus"]>): ReturnType<Seclai["changeAlertStatus"]> {
+    return this.client.changeAlertStatus(...args);
+  }
+
+  /** See {@link Seclai.addAlertComment}. */
+  addComment(...args: Parameters<Seclai["addAlertComment"]>): ReturnType<Seclai["addAlertComment"]> {
+    return this.client.addAlertComment(...args);
+  }
+
+  /** See {@link Seclai.subscribeToAlert}. */
+  subscribe(...args: Parameters<Seclai["subscribeToAlert"]>): ReturnType<Seclai["subscribeToAlert"]> {
+    return this.client.subscribeToAlert(...args);
+  }
+
+  /** See {@link Seclai.unsubscribeFromAlert}. */
+  unsubscribe(...args: Parameters<Seclai["unsubscribeFromAlert"]>): ReturnType<Seclai["unsubscribeFromAlert"]> {
+    return this.client.unsubscribeFromAlert(...args);
+  }
+}
+
+/** `client.alerts.configs` — alert configurations. */
+export class AlertConfigsResource {
+  /** @internal */
+  constructor(private readonly client: Seclai) {}
+
+  /** See {@link Seclai.listAlertConfigs}. */
+  list(...args: Parameters<Seclai["listAlertConfigs"]>): ReturnType<Seclai["listAlertConfigs"]> {
+    return this.client.listAlertConfigs(...args);
+  }
+
+  /** See {@link Seclai.iterAlertConfigs}. */
+  iter(...args: Parameters<Seclai["iterAlertConfigs"]>): ReturnType<Seclai["iterAlertConfigs"]> {
+    return this.client.iterAlertConfigs(...args);
+  }
+
+  /** See {@link Seclai.createAlertConfig}. */
+  create(...args: Parameters<Seclai["createAlertConfig"]>): ReturnType<Seclai["createAlertConfig"]> {
+    return this.client.createAlertConfig(...args);
+  }
+
+  /** See {@link Seclai.getAlertConfig}. */
+  get(...args: Parameters<Seclai["getAlertConfig"]>): ReturnType<Seclai["getAlertConfig"]> {
+    return this.client.getAlertConfig(...args);
+  }
+
+  /** See {@link Seclai.updateAlertConfig}. */
+  update(...args: Parameters<Seclai["updateAlertConfig"]>): ReturnType<Seclai["updateAlertConfig"]> {
+    return this.client.updateAlertConfig(...args);
+  }
+
+  /** See {@link Seclai.deleteAlertConfig}. */
+  delete(...args: Parameters<Seclai["deleteAlertConfig"]>): ReturnType<Seclai["deleteAlertConfig"]> {
+    return this.client.deleteAlertConfig(...args);
+  }
+}
+
+/** `client.alerts.preferences` — organization alert preferences. */
+export class AlertPreferencesResource {
+  /** @internal */
+  constructor(private readonly client: Seclai) {}
+
+  /** See {@link Seclai.listOrganizationAlertPreferences}. */
+  list(...args: Parameters<Seclai["listOrganizationAlertPreferences"]>): ReturnType<Seclai["listOrganizationAlertPreferences"]> {
+    return this.client.listOrganizationAlertPreferences(...args);
+  }
+
+  /** See {@link Seclai.updateOrganizationAlertPreference}. */
+  update(...args: Parameters<Seclai["updateOrganizationAlertPreference"]>): ReturnType<Seclai["updateOrganizationAlertPreference"]> {
+    return this.client.updateOrganizationAlertPreference(...args);
+  }
+}
+
+/** `client.models` — models, model alerts and playground experiments. */
+export class ModelsResource {
+  /** `client.models.alerts` */
+  readonly alerts: ModelAlertsResource;
+  /** `client.models.experiments` */
+  readonly experiments: ExperimentsResource;
+
+  /** @internal */
+  constructor(private readonly client: Seclai) {
+    this.alerts = new ModelAlertsResource(client);
+    this.experiments = new ExperimentsResource(client);
+  }
+
+  /** See {@link Seclai.listModels}. */
+  list(...args: Parameters<Seclai["listModels"]>): ReturnType<Seclai["listModels"]> {
+    return this.client.listModels(...args);
+  }
+
+  /** See {@link Seclai.getModel}. */
+  get(...args: Parameters<Seclai["getModel"]>): ReturnType<Seclai["getModel"]> {
+    return this.client.getModel(...args);
+  }
+
+  /** See {@link Seclai.getModelRecommendations}. */
+  getRecommendations(...args: Parameters<Seclai["getModelRecommendations"]>): ReturnType<Seclai["getModelRecommendations"]> {
+    return this.client.getModelRecommendations(...args);
+  }
+
+  /** See {@link Seclai.getGenerationTiers}. */
+  getGenerationTiers(...args: Parameters<Seclai["getGenerationTiers"]>): ReturnType<Seclai["getGenerationTiers"]> {
+    return this.client.getGenerationTiers(...args);
+  }
+}
+
+/** `client.models.alerts` — model lifecycle alerts. */
+export class ModelAlertsResource {
+  /** @internal */
+  constructor(private readonly client: Seclai) {}
+
+  /** See {@link Seclai.listModelAlerts}. */
+  list(...args: Parameters<Seclai["listModelAlerts"]>): ReturnType<Seclai["listModelAlerts"]> {
+    return this.client.listModelAlerts(...args);
+  }
+
+  /** See {@link Seclai.iterModelAlerts}. */
+  iter(...args: Parameters<Seclai["iterModelAlerts"]>): ReturnType<Seclai["iterModelAlerts"]> {
+    return this.client.iterModelAlerts(...args);
+  }
+
+  /** See {@link Seclai.markModelAlertRead}. */
+  markRead(...args: Parameters<Seclai["markModelAlertRead"]>): ReturnType<Seclai["markModelAlertRead"]> {
+    return this.client.markModelAlertRead(...args);
+  }
+
+  /** See {@link Seclai.markAllModelAlertsRead}. */
+  markAllRead(...args: Parameters<Seclai["markAllModelAlertsRead"]>): ReturnType<Seclai["markAllModelAlertsRead"]> {
+    return this.client.markAllModelAlertsRead(...args);
+  }
+
+  /** See {@link Seclai.getUnreadModelAlertCount}. */
+  getUnreadCount(...args: Parameters<Seclai["getUnreadModelAlertCount"]>): ReturnType<Seclai["getUnreadModelAlertCount"]> {
+    return this.client.getUnreadModelAlertCount(...args);
+  }
+}
+
+/** `client.models.experiments` — model playground experiments. */
+export class ExperimentsResource {
+  /** @internal */
+  constructor(private readonly client: Seclai) {}
+
+  /** See {@link Seclai.listExperiments}. */
+  list(...args: Parameters<Seclai["listExperiments"]>): ReturnType<Seclai["listExperiments"]> {
+    return this.client.listExperiments(...args);
+  }
+
+  /** See {@link Seclai.iterExperiments}. */
+  iter(...args: Parameters<Seclai["iterExperiments"]>): ReturnType<Seclai["iterExperiments"]> {
+    return this.client.iterExperiments(...args);
+  }
+
+  /** See {@link Seclai.createExperiment}. */
+  create(...args: Parameters<Seclai["createExperiment"]>): ReturnType<Seclai["createExperiment"]> {
+    return this.client.createExperiment(...args);
+  }
+
+  /** See {@link Seclai.getExperiment}. */
+  get(...args: Parameters<Seclai["getExperiment"]>): ReturnType<Seclai["getExperiment"]> {
+    return this.client.getExperiment(...args);
+  }
+
+  /** See {@link Seclai.cancelExperiment}. */
+  cancel(...args: Parameters<Seclai["cancelExperiment"]>): ReturnType<Seclai["cancelExperiment"]> {
+    return this.client.cancelExperiment(...args);
+  }
+
+  /** See {@link Seclai.deleteExperiment}. */
+  delete(...args: Parameters<Seclai["deleteExperiment"]>): ReturnType<Seclai["deleteExperiment"]> {
+    return this.client.deleteExperiment(...args);
+  }
+}
+
+/** `client.email` — agent email: domains, opt-outs, blocked senders and inbound status. */
+export class EmailResource {
+  /** `client.email.domains` */
+  readonly domains: EmailDomainsResource;
+  /** `client.email.optOuts` */
+  readonly optOuts: EmailOptOutsResource;
+  /** `client.email.blockedSenders` */
+  readonly blockedSenders: BlockedEmailSendersResource;
+  /** `client.email.inbound` */
+  readonly inbound: InboundEmailResource;
+
+  /** @internal */
+  constructor(private readonly client: Seclai) {
+    this.domains = new EmailDomainsResource(client);
+    this.optOuts = new EmailOptOutsResource(client);
+    this.blockedSenders = new BlockedEmailSendersResource(client);
+    this.inbound = new InboundEmailResource(client);
+  }
+}
+
+/** `client.email.domains` — sending domains for agent email. */
+export class EmailDomainsResource {
+  /** @internal */
+  constructor(private readonly client: Seclai) {}
+
+  /** See {@link Seclai.listEmailDomains}. */
+  list(...args: Parameters<Seclai["listEmailDomains"]>): ReturnType<Seclai["listEmailDomains"]> {
+    return this.client.listEmailDomains(...args);
+  }
+
+  /** See {@link Seclai.addEmailDomain}. */
+  add(...args: Parameters<Seclai["addEmailDomain"]>): ReturnType<Seclai["addEmailDomain"]> {
+    return this.client.addEmailDomain(...args);
+  }
+
+  /** See {@link Seclai.removeEmailDomain}. */
+  remove(...args: Parameters<Seclai["removeEmailDomain"]>): ReturnType<Seclai["removeEmailDomain"]> {
+    return this.client.removeEmailDomain(...args);
+  }
+
+  /** See {@link Seclai.verifyEmailDomain}. */
+  verify(...args: Parameters<Seclai["verifyEmailDomain"]>): ReturnType<Seclai["verifyEmailDomain"]> {
+    return this.client.verifyEmailDomain(...args);
+  }
+
+  /** See {@link Seclai.setPrimaryEmailDomain}. */
+  setPrimary(...args: Parameters<Seclai["setPrimaryEmailDomain"]>): ReturnType<Seclai["setPrimaryEmailDomain"]> {
+    return this.client.setPrimaryEmailDomain(...args);
+  }
+
+  /** See {@link Seclai.useSharedEmailDomain}. */
+  useShared(...args: Parameters<Seclai["useSharedEmailDomain"]>): ReturnType<Seclai["useSharedEmailDomain"]> {
+    return this.client.useSharedEmailDomain(...args);
+  }
+
+  /** See {@link Seclai.sendEmailDomainTestEmail}. */
+  sendTestEmail(...args: Parameters<Seclai["sendEmailDomainTestEmail"]>): ReturnType<Seclai["sendEmailDomainTestEmail"]> {
+    return this.client.sendEmailDomainTestEmail(...args);
+  }
+
+  /** See {@link Seclai.getDmarcSummary}. */
+  getDmarcSummary(...args: Parameters<Seclai["getDmarcSummary"]>): ReturnType<Seclai["getDmarcSummary"]> {
+    return this.client.getDmarcSummary(...args);
+  }
+}
+
+/** `client.email.optOuts` — recipients who opted out of agent email. */
+export class EmailOptOutsResource {
+  /** @internal */
+  constructor(private readonly client: Seclai) {}
+
+  /** See {@link Seclai.listAgentEmailOptOuts}. */
+  list(...args: Parameters<Seclai["listAgentEmailOptOuts"]>): ReturnType<Seclai["listAgentEmailOptOuts"]> {
+    return this.client.listAgentEmailOptOuts(...args);
+  }
+
+  /** See {@link Seclai.iterAgentEmailOptOuts}. */
+  iter(...args: Parameters<Seclai["iterAgentEmailOptOuts"]>): ReturnType<Seclai["iterAgentEmailOptOuts"]> {
+    return this.client.iterAgentEmailOptOuts(...args);
+  }
+
+  /** See {@link Seclai.removeAgentEmailOptOut}. */
+  remove(...args: Parameters<Seclai["removeAgentEmailOptOut"]>): ReturnType<Seclai["removeAgentEmailOptOut"]> {
+    return this.client.removeAgentEmailOptOut(...args);
+  }
+}
+
+/** `client.email.blockedSenders` — senders blocked from triggering agents. */
+export class BlockedEmailSendersResource {
+  /** @internal */
+  constructor(private readonly client: Seclai) {}
+
+  /** See {@link Seclai.listBlockedEmailSenders}. */
+  list(...args: Parameters<Seclai["listBlockedEmailSenders"]>): ReturnType<Seclai["listBlockedEmailSenders"]> {
+    return this.client.listBlockedEmailSenders(...args);
+  }
+
+  /** See {@link Seclai.iterBlockedEmailSenders}. */
+  iter(...args: Parameters<Seclai["iterBlockedEmailSenders"]>): ReturnType<Seclai["iterBlockedEmailSenders"]> {
+    return this.client.iterBlockedEmailSenders(...args);
+  }
+
+  /** See {@link Seclai.blockEmailSender}. */
+  block(...args: Parameters<Seclai["blockEmailSender"]>): ReturnType<Seclai["blockEmailSender"]> {
+    return this.client.blockEmailSender(...args);
+  }
+
+  /** See {@link Seclai.unblockEmailSender}. */
+  unblock(...args: Parameters<Seclai["unblockEmailSender"]>): ReturnType<Seclai["unblockEmailSender"]> {
+    return this.client.unblockEmailSender(...args);
+  }
+
+  /** See {@link Seclai.setAutoBlockMode}. */
+  setAutoBlockMode(...args: Parameters<Seclai["setAutoBlockMode"]>): ReturnType<Seclai["setAutoBlockMode"]> {
+    return this.client.setAutoBlockMode(...args);
+  }
+}
+
+/** `client.email.inbound` — inbound email processing. */
+export class InboundEmailResource {
+  /** @internal */
+  constructor(private readonly client: Seclai) {}
+
+  /** See {@link Seclai.getInboundEmailStatus}. */
+  getStatus(...args: Parameters<Seclai["getInboundEmailStatus"]>): ReturnType<Seclai["getInboundEmailStatus"]> {
+    return this.client.getInboundEmailStatus(...args);
+  }
+
+  /** See {@link Seclai.listInboundEmailRejections}. */
+  listRejections(...args: Parameters<Seclai["listInboundEmailRejections"]>): ReturnType<Seclai["listInboundEmailRejections"]> {
+    return this.client.listInboundEmailRejections(...args);
+  }
+
+  /** See {@link Seclai.cancelQueuedEmailRuns}. */
+  cancelQueuedRuns(...args: Parameters<Seclai["cancelQueuedEmailRuns"]>): ReturnType<Seclai["cancelQueuedEmailRuns"]> {
+    return this.client.cancelQueuedEmailRuns(...args);
+  }
+
+  /** See {@link Seclai.resumeInboundEmail}. */
+  resume(...args: Parameters<Seclai["resumeInboundEmail"]>): ReturnType<Seclai["resumeInboundEmail"]> {
+    return this.client.resumeInboundEmail(...args);
+  }
+}
+
+/** `client.ai` — the top-level AI assistant. */
+export class AiAssistantResource {
+  /** @internal */
+  constructor(private readonly client: Seclai) {}
+
+  /** See {@link Seclai.aiAssistantKnowledgeBase}. */
+  generateKnowledgeBase(...args: Parameters<Seclai["aiAssistantKnowledgeBase"]>): ReturnType<Seclai["aiAssistantKnowledgeBase"]> {
+    return this.client.aiAssistantKnowledgeBase(...args);
+  }
+
+  /** See {@link Seclai.aiAssistantSource}. */
+  generateSource(...args: Parameters<Seclai["aiAssistantSource"]>): ReturnType<Seclai["aiAssistantSource"]> {
+    return this.client.aiAssistantSource(...args);
+  }
+
+  /** See {@link Seclai.aiAssistantSolution}. */
+  generateSolution(...args: Parameters<Seclai["aiAssistantSolution"]>): ReturnType<Seclai["aiAssistantSolution"]> {
+    return this.client.aiAssistantSolution(...args);
+  }
+
+  /** See {@link Seclai.aiAssistantMemoryBank}. */
+  generateMemoryBank(...args: Parameters<Seclai["aiAssistantMemoryBank"]>): ReturnType<Seclai["aiAssistantMemoryBank"]> {
+    return this.client.aiAssistantMemoryBank(...args);
+  }
+
+  /** See {@link Seclai.getAiAssistantMemoryBankHistory}. */
+  getMemoryBankHistory(...args: Parameters<Seclai["getAiAssistantMemoryBankHistory"]>): ReturnType<Seclai["getAiAssistantMemoryBankHistory"]> {
+    return this.client.getAiAssistantMemoryBankHistory(...args);
+  }
+
+  /** See {@link Seclai.acceptAiAssistantPlan}. */
+  acceptPlan(...args: Parameters<Seclai["acceptAiAssistantPlan"]>): ReturnType<Seclai["acceptAiAssistantPlan"]> {
+    return this.client.acceptAiAssistantPlan(...args);
+  }
+
+  /** See {@link Seclai.declineAiAssistantPlan}. */
+  declinePlan(...args: Parameters<Seclai["declineAiAssistantPlan"]>): ReturnType<Seclai["declineAiAssistantPlan"]> {
+    return this.client.declineAiAssistantPlan(...args);
+  }
+
+  /** See {@link Seclai.acceptAiMemoryBankSuggestion}. */
+  acceptMemoryBankSuggestion(...args: Parameters<Seclai["acceptAiMemoryBankSuggestion"]>): ReturnType<Seclai["acceptAiMemoryBankSuggestion"]> {
+    return this.client.acceptAiMemoryBankSuggestion(...args);
+  }
+
+  /** See {@link Seclai.submitAiFeedback}. */
+  submitFeedback(...args: Parameters<Seclai["submitAiFeedback"]>): ReturnType<Seclai["submitAiFeedback"]> {
+    return this.client.submitAiFeedback(...args);
+  }
+}
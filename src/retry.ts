@@ -0,0 +1,175 @@
+/**
+ * @module
+ *
+ * Automatic retry policy for transient API failures: which responses and
+ * errors are retried, and how long to wait between attempts.
+ *
+ * @internal — the option shape ({@link RetryOptions}) is public; the helpers
+ * are consumed by {@link Seclai}.
+ */
+
+/**
+ * Retry policy for requests made by the {@link Seclai} client.
+ *
+ * Set it once on `SeclaiOptions.retry` and override it per call with the
+ * `retry` request option. Fields left unset fall back to the client's policy,
+ * then to the defaults documented below.
+ */
+export interface RetryOptions {
+  /** Total attempts, including the first. `1` disables retries. Defaults to `3`. */
+  maxAttempts?: number | undefined;
+  /** Delay before the first retry, doubled on each subsequent one. Defaults to `500`. */
+  baseDelayMs?: number | undefined;
+  /**
+   * Upper bound on the backoff delay, and the longest `Retry-After` waited
+   * out; a server asking for longer gets its response returned instead.
+   * Defaults to `8000`.
+   */
+  maxDelayMs?: number | undefined;
+  /**
+   * Randomize each backoff delay between half and all of its computed value,
+   * so clients that failed together do not retry together. Defaults to `true`.
+   */
+  jitter?: boolean | undefined;
+  /** HTTP status codes that are retried. Defaults to `[429, 502, 503, 504]`. */
+  retryOnStatus?: readonly number[] | undefined;
+  /** Retry when `fetch` itself rejects (DNS, connection reset, …). Defaults to `true`. */
+  retryOnNetworkError?: boolean | undefined;
+  /**
+   * Also retry `POST` and `PATCH`. Off by default: those methods are not
+   * idempotent, so a retry after a lost response can apply a change twice.
+   */
+  retryNonIdempotent?: boolean | undefined;
+}
+
+/** A {@link RetryOptions} with every field resolved. */
+export type ResolvedRetryPolicy = {
+  [K in keyof RetryOptions]-?: Exclude<RetryOptions[K], undefined>;
+};
+
+/** Status codes retried when `retryOnStatus` is not set. */
+export const DEFAULT_RETRY_STATUSES: readonly number[] = [429, 502, 503, 504];
+
+const DEFAULT_POLICY: ResolvedRetryPolicy = {
+  maxAttempts: 3,
+  baseDelayMs: 500,
+  maxDelayMs: 8_000,
+  jitter: true,
+  retryOnStatus: DEFAULT_RETRY_STATUSES,
+  retryOnNetworkError: true,
+  retryNonIdempotent: false,
+};
+
+/** The policy applied when neither the client nor the call sets one: a single attempt. */
+export const NO_RETRY: ResolvedRetryPolicy = { ...DEFAULT_POLICY, maxAttempts: 1 };
+
+const IDEMPOTENT_METHODS = new Set(["GET", "HEAD", "OPTIONS", "PUT", "DELETE"]);
+
+/**
+ * Merge a per-call override over the client's policy.
+ *
+ * `false` at either level disables retries; an unset client policy means a
+ * single attempt unless the call opts in.
+ *
+ * @param client - The client-wide policy from `SeclaiOptions.retry`.
+ * @param override - The per-call `retry` option.
+ * @returns The fully resolved policy for this call.
+ */
+export function resolveRetryPolicy(
+  client: RetryOptions | false | undefined,
+  override?: RetryOptions | false,
+): ResolvedRetryPolicy {
+  if (override === false) return NO_RETRY;
+  if (client === false || client === undefined) {
+    if (override === undefined) return NO_RETRY;
+    client = {};
+  }
+  const merged: ResolvedRetryPolicy = { ...DEFAULT_POLICY };
+  for (const source of [client, override ?? {}]) {
+    for (const [key, value] of Object.entries(source)) {
+      if (value !== undefined) (merged as Record<string, unknown>)[key] = value;
+    }
+  }
+  return merged;
+}
+
+/**
+ * Whether `method` may be retried under `policy`.
+ *
+ * @param method - HTTP method of the request.
+ * @param policy - The resolved retry policy.
+ */
+export function isRetryableMethod(method: string, policy: ResolvedRetryPolicy): boolean {
+  return policy.retryNonIdempotent || IDEMPOTENT_METHODS.has(method.toUpperCase());
+}
+
+/**
+ * Parse a `Retry-After` header (delta-seconds or an HTTP date) into milliseconds.
+ *
+ * @param value - Raw header value.
+ * @param now - Current time in ms, for resolving HTTP dates.
+ * @returns The delay in ms, or `undefined` when absent or unparseable.
+ */
+export function parseRetryAfter(value: string | null | undefined, now = Date.now()): number | undefined {
+  if (!value) return undefined;
+  const trimmed = value.trim();
+  if (/^\d+(\.\d+)?$/.test(trimmed)) return Math.ceil(Number(trimmed) * 1000);
+  const date = Date.parse(trimmed);
+  if (Number.isNaN(date)) return undefined;
+  return Math.max(0, date - now);
+}
+
+/**
+ * Backoff before retry number `retry` (1 for the first retry): exponential
+ * from `baseDelayMs`, capped at `maxDelayMs` and jittered when enabled.
+ *
+ * @param retry - 1-based retry number.
+ * @param policy - The resolved retry policy.
+ */
+export function backoffDelay(retry: number, policy: ResolvedRetryPolicy): number {
+  const exp = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** (retry - 1));
+  return policy.jitter ? exp / 2 + Math.random() * (exp / 2) : exp;
+}
+
+/**
+ * Delay before retrying a response: the {@link backoffDelay}, or the
+ * server's `Retry-After` when it asks for longer, up to `maxDelayMs`.
+ *
+ * @param retry - 1-based retry number.
+ * @param policy - The resolved retry policy.
+ * @param retryAfterMs - Delay requested by the server, if any.
+ * @returns The delay in ms, or `undefined` to give up because `Retry-After`
+ *   exceeds `maxDelayMs`.
+ */
+export function computeRetryDelay(
+  retry: number,
+  policy: ResolvedRetryPolicy,
+  retryAfterMs?: number,
+): number | undefined {
+  if (retryAfterMs !== undefined && retryAfterMs > policy.maxDelayMs) return undefined;
+  return Math.max(backoffDelay(retry, policy), retryAfterMs ?? 0);
+}
+
+/**
+ * Wait `ms`, rejecting early with the signal's reason if it aborts.
+ *
+ * @param ms - Delay in milliseconds.
+ * @param signal - Optional abort signal.
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal!.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
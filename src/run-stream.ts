@@ -0,0 +1,215 @@
+/**
+ * @module
+ *
+ * An event-emitter style handle over a streaming agent run, for UI code that
+ * would rather register callbacks than drive an async generator.
+ */
+import { SeclaiError, SeclaiStreamingError } from "./errors";
+import { isDoneEvent, isInitEvent, isStepEvent, isStreamTokenEvent } from "./events";
+import type {
+  AgentRunEvent,
+  AgentRunResponse,
+  AgentRunStepResponse,
+  AgentRunStreamTokenData,
+} from "./types";
+
+/** Listener signatures for {@link RunStream.on}, keyed by event name. */
+export interface RunStreamEvents {
+  /** Every SSE event, unfiltered. */
+  event: (event: AgentRunEvent) => void;
+  /** The initial run snapshot; {@link RunStream.runId} is set by now. */
+  init: (run: AgentRunResponse) => void;
+  /** Progress of one step. */
+  step: (step: AgentRunStepResponse) => void;
+  /** One LLM token from a `streaming_result` step. */
+  token: (token: string, data: AgentRunStreamTokenData) => void;
+  /** The terminal run. */
+  done: (run: AgentRunResponse) => void;
+  /** The stream failed, was aborted, or ended without `done`. */
+  error: (error: unknown) => void;
+}
+
+type ListenerSets = { [K in keyof RunStreamEvents]: Set<RunStreamEvents[K]> };
+
+/** Events kept for an iterator that has not started yet. */
+const MAX_UNREAD_EVENTS = 1000;
+
+/**
+ * A running streaming agent run.
+ *
+ * The request starts as soon as the stream is created. Register callbacks with
+ * {@link on}, await {@link finalRun}, or iterate it for the raw
+ * {@link AgentRunEvent}s. Until an iterator starts, the first 1000 events are
+ * buffered so a late one still sees them all; past that nothing is kept, and
+ * a late iterator throws instead. A stream can be iterated once; leaving the
+ * loop early aborts it.
+ *
+ * @example
+ * ```ts
+ * const stream = client.agents.stream("agent-id", { input: "Hello!" })
+ *   .on("token", (token) => append(token))
+ *   .on("step", (step) => setProgress(step.step_type))
+ *   .on("error", (err) => setError(err));
+ * const run = await stream.finalRun();
+ * ```
+ */
+export class RunStream implements AsyncIterable<AgentRunEvent> {
+  private readonly controller = new AbortController();
+  private readonly listeners: ListenerSets = {
+    event: new Set(),
+    init: new Set(),
+    step: new Set(),
+    token: new Set(),
+    done: new Set(),
+    error: new Set(),
+  };
+  private readonly buffer: AgentRunEvent[] = [];
+  private dropped = false;
+  private readonly final: Promise<AgentRunResponse>;
+  private resolveFinal!: (run: AgentRunResponse) => void;
+  private rejectFinal!: (err: unknown) => void;
+  private wake: (() => void) | undefined;
+  private settled = false;
+  private failure: { error: unknown } | undefined;
+  private iterating = false;
+  private _runId: string | undefined;
+
+  /**
+   * @param start - Opens the event stream, honoring the given abort signal.
+   */
+  constructor(start: (signal: AbortSignal) => AsyncIterable<AgentRunEvent>) {
+    this.final = new Promise<AgentRunResponse>((resolve, reject) => {
+      this.resolveFinal = resolve;
+      this.rejectFinal = reject;
+    });
+    // Failures reach `error` listeners and iterators; only report them here to callers who ask.
+    this.final.catch(() => {});
+    void this.pump(start(this.controller.signal));
+  }
+
+  /** The run's id, once the `init` event has arrived. */
+  get runId(): string | undefined {
+    return this._runId;
+  }
+
+  /**
+   * Register a listener. Listeners added after an event fired do not see it.
+   *
+   * @param type - Event name.
+   * @param listener - Callback for that event.
+   * @returns This stream, for chaining.
+   */
+  on<K extends keyof RunStreamEvents>(type: K, listener: RunStreamEvents[K]): this {
+    this.listeners[type].add(listener);
+    return this;
+  }
+
+  /**
+   * Remove a listener registered with {@link on}.
+   *
+   * @returns This stream, for chaining.
+   */
+  off<K extends keyof RunStreamEvents>(type: K, listener: RunStreamEvents[K]): this {
+    this.listeners[type].delete(listener);
+    return this;
+  }
+
+  /**
+   * The terminal run from the `done` event.
+   *
+   * @throws {@link SeclaiStreamingError} If the stream ends before `done`, or
+   *   whatever error ended the stream.
+   */
+  finalRun(): Promise<AgentRunResponse> {
+    return this.final;
+  }
+
+  /**
+   * Stop reading the stream. This closes the connection only; the run keeps
+   * going server-side — use `cancelAgentRun` to stop it.
+   */
+  abort(): void {
+    this.controller.abort();
+  }
+
+  async *[Symbol.asyncIterator](): AsyncGenerator<AgentRunEvent, void, undefined> {
+    if (this.iterating) throw new SeclaiError("A RunStream can only be iterated once.");
+    if (this.dropped) {
+      throw new SeclaiError(
+        `RunStream kept no events past the first ${MAX_UNREAD_EVENTS} with no iterator reading them; start iterating sooner.`,
+      );
+    }
+    this.iterating = true;
+    try {
+      while (true) {
+        const event = this.buffer.shift();
+        if (event) {
+          yield event;
+          continue;
+        }
+        if (this.failure) throw this.failure.error;
+        if (this.settled) return;
+        await new Promise<void>((resolve) => (this.wake = resolve));
+      }
+    } finally {
+      if (!this.settled) this.abort();
+    }
+  }
+
+  private emit<K extends keyof RunStreamEvents>(type: K, ...args: Parameters<RunStreamEvents[K]>): void {
+    const listeners = this.listeners[type] as Set<(...args: Parameters<RunStreamEvents[K]>) => void>;
+    for (const listener of listeners) listener(...args);
+  }
+
+  /** Queue an event for the iterator; with none started yet, keep at most {@link MAX_UNREAD_EVENTS}. */
+  private enqueue(event: AgentRunEvent): void {
+    if (!this.iterating && (this.dropped || this.buffer.length >= MAX_UNREAD_EVENTS)) {
+      this.dropped = true;
+      this.buffer.length = 0;
+      return;
+    }
+    this.buffer.push(event);
+    this.notify();
+  }
+
+  private notify(): void {
+    const wake = this.wake;
+    this.wake = undefined;
+    wake?.();
+  }
+
+  private async pump(events: AsyncIterable<AgentRunEvent>): Promise<void> {
+    let final: AgentRunResponse | undefined;
+    try {
+      for await (const e of events) {
+        this.enqueue(e);
+        this.emit("event", e);
+        if (isInitEvent(e)) {
+          this._runId ??= e.data.run_id;
+          this.emit("init", e.data);
+        } else if (isStepEvent(e)) {
+          this.emit("step", e.data);
+        } else if (isStreamTokenEvent(e)) {
+          this.emit("token", e.data.token, e.data);
+        } else if (isDoneEvent(e)) {
+          final = e.data;
+        }
+      }
+      if (!final) {
+        throw new SeclaiStreamingError("Stream ended before receiving a 'done' event.", this._runId);
+      }
+      this.settled = true;
+      this.resolveFinal(final);
+      this.emit("done", final);
+    } catch (err) {
+      this.settled = true;
+      this.failure = { error: err };
+      this.rejectFinal(err);
+      try {
+        this.emit("error", err);
+      } catch { /* a throwing error listener has nowhere left to report to */ }
+    } finally {
+      this.notify();
+    }
+  }
+}
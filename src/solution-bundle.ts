@@ -0,0 +1,191 @@
+/**
+ * @module
+ *
+ * Solution bundles: one JSON document holding a solution and everything it
+ * needs — agent exports, knowledge base, source connection and memory bank
+ * settings — to recreate and relink it in another account.
+ */
+import { remapIds, triggerTypeOf } from "./agent-sync";
+import type { Seclai } from "./client";
+import { SeclaiError } from "./errors";
+import { knowledgeBaseBody, memoryBankBody } from "./migrate";
+import type {
+  AgentExportResponse,
+  CreateKnowledgeBaseBody,
+  CreateMemoryBankBody,
+  CreateSourceBody,
+  SolutionResponse,
+  SourceResponse,
+} from "./types";
+
+/**
+ * A solution and its resources, as written by {@link Seclai.exportSolutionBundle}.
+ * Plain JSON: store it with `JSON.stringify`.
+ *
+ * Ids are the source account's; {@link Seclai.importSolutionBundle} maps them
+ * to the new resources. Besides what the solution links, the bundle carries
+ * what its agents depend on — sub-agents, knowledge bases, memory banks — and
+ * the sources behind its knowledge bases; `linked` tells which to link to the
+ * new solution. Settings only: source content is not included.
+ */
+export interface SolutionBundle {
+  format: "seclai-solution-bundle";
+  version: 1;
+  solution: { id: string; name: string; description: string };
+  agents: { id: string; linked: boolean; export: AgentExportResponse }[];
+  knowledge_bases: { id: string; linked: boolean; config: CreateKnowledgeBaseBody }[];
+  source_connections: { id: string; linked: boolean; config: CreateSourceBody }[];
+  memory_banks: { id: string; config: CreateMemoryBankBody }[];
+}
+
+/** Options for {@link Seclai.importSolutionBundle}. */
+export interface ImportSolutionBundleOptions {
+  /** Name for the new solution. Defaults to the bundled one. */
+  name?: string | undefined;
+}
+
+/** Result of {@link Seclai.importSolutionBundle}. */
+export interface ImportSolutionBundleResult {
+  /** The new solution, with its links. */
+  solution: SolutionResponse;
+  /** Bundled id → id of the resource created for it. */
+  idMap: Record<string, string>;
+}
+
+function sourceBody(source: SourceResponse): CreateSourceBody {
+  return {
+    name: source.name,
+    source_type: source.source_type,
+    chunk_overlap: source.chunk_overlap ?? null,
+    chunk_size: source.chunk_size ?? null,
+    content_filter: source.content_filter,
+    dimensions: source.dimensions ?? null,
+    embedding_model: source.embedding_model ?? null,
+    index_mode: source.index_mode ?? null,
+    media_types: source.media_types ?? null,
+    polling: source.polling,
+    polling_action: source.polling_action,
+    polling_max_items: source.polling_max_items,
+    retention: source.retention,
+  };
+}
+
+/** Ids listed under `key` in an agent export's dependency manifest. */
+function dependencyIds(exported: AgentExportResponse, key: string): string[] {
+  const deps = exported.dependencies?.[key];
+  if (!Array.isArray(deps)) return [];
+  return deps.flatMap((d) => {
+    const id = (d as { id?: unknown } | null)?.id;
+    return typeof id === "string" ? [id] : [];
+  });
+}
+
+/** @internal Implementation of {@link Seclai.exportSolutionBundle}. */
+export async function exportSolutionBundle(client: Seclai, solutionId: string): Promise<SolutionBundle> {
+  const solution = await client.getSolution(solutionId);
+  const bundle: SolutionBundle = {
+    format: "seclai-solution-bundle",
+    version: 1,
+    solution: { id: solution.id, name: solution.name, description: solution.description },
+    agents: [],
+    knowledge_bases: [],
+    source_connections: [],
+    memory_banks: [],
+  };
+
+  // Work queues of ids to bundle, each with whether the solution links it.
+  const agents = new Map(solution.agents.map((a) => [a.id, true]));
+  const knowledgeBases = new Map(solution.knowledge_bases.map((kb) => [kb.id, true]));
+  const sources = new Map(solution.source_connections.map((s) => [s.id, true]));
+  const memoryBanks = new Set<string>();
+  const need = (queue: Map<string, boolean>, ids: string[]) => {
+    for (const id of ids) if (!queue.has(id)) queue.set(id, false);
+  };
+
+  // Maps iterate entries added during iteration, so dependencies are followed transitively.
+  for (const [id, linked] of agents) {
+    const exported = await client.exportAgent(id);
+    bundle.agents.push({ id, linked, export: exported });
+    need(agents, dependencyIds(exported, "agents"));
+    need(knowledgeBases, dependencyIds(exported, "knowledge_bases"));
+    need(sources, dependencyIds(exported, "source_connections"));
+    for (const bank of dependencyIds(exported, "memory_banks")) memoryBanks.add(bank);
+  }
+  for (const [id, linked] of knowledgeBases) {
+    const kb = await client.getKnowledgeBase(id);
+    const sourceIds = (kb.sources ?? []).map((s) => s.id);
+    bundle.knowledge_bases.push({ id, linked, config: knowledgeBaseBody(kb, sourceIds) });
+    need(sources, sourceIds);
+  }
+  for (const [id, linked] of sources) {
+    bundle.source_connections.push({ id, linked, config: sourceBody(await client.getSource(id)) });
+  }
+  for (const id of memoryBanks) {
+    bundle.memory_banks.push({ id, config: memoryBankBody(await client.getMemoryBank(id)) });
+  }
+  return bundle;
+}
+
+/** @internal Implementation of {@link Seclai.importSolutionBundle}. */
+export async function importSolutionBundle(
+  client: Seclai,
+  bundle: SolutionBundle,
+  opts: ImportSolutionBundleOptions = {},
+): Promise<ImportSolutionBundleResult> {
+  if (bundle?.format !== "seclai-solution-bundle" || bundle.version !== 1) {
+    throw new SeclaiError("Not a version 1 Seclai solution bundle.");
+  }
+  const idMap: Record<string, string> = {};
+
+  for (const { id, config } of bundle.source_connections) {
+    idMap[id] = (await client.createSource(config)).id;
+  }
+  for (const { id, config } of bundle.memory_banks) {
+    idMap[id] = (await client.createMemoryBank(config)).id;
+  }
+  for (const { id, config } of bundle.knowledge_bases) {
+    idMap[id] = (await client.createKnowledgeBase({ ...config, source_ids: remapIds(config.source_ids, idMap) })).id;
+  }
+
+  // Create sub-agents before their callers so `entity_remap` can relink them.
+  // Agents calling each other in a cycle are relinked once all exist.
+  const bundled = new Set(bundle.agents.map((a) => a.id));
+  const pending = [...bundle.agents];
+  const relinkLater: string[] = [];
+  while (pending.length > 0) {
+    const ready = pending.findIndex((a) =>
+      dependencyIds(a.export, "agents").every((dep) => !bundled.has(dep) || dep in idMap || dep === a.id),
+    );
+    const [agent] = pending.splice(ready === -1 ? 0 : ready, 1);
+    if (ready === -1) relinkLater.push(agent!.id);
+    const created = await client.createAgent({
+      name: agent!.export.agent["name"] as string,
+      trigger_type: triggerTypeOf(agent!.export),
+      agent_definition: agent!.export,
+      ...(Object.keys(idMap).length > 0 ? { entity_remap: { ...idMap } } : {}),
+    });
+    idMap[agent!.id] = created.id;
+  }
+  for (const id of relinkLater) {
+    const current = await client.getAgentDefinition(idMap[id]!);
+    await client.updateAgentDefinition(idMap[id]!, {
+      definition: remapIds(current.definition, idMap),
+      expected_change_id: current.change_id,
+    });
+  }
+
+  let solution = await client.createSolution({
+    name: opts.name ?? bundle.solution.name,
+    description: bundle.solution.description,
+  });
+  const linked = (items: { id: string; linked: boolean }[]) =>
+    items.filter((i) => i.linked).map((i) => idMap[i.id]!);
+  const agentIds = linked(bundle.agents);
+  if (agentIds.length > 0) solution = await client.linkAgentsToSolution(solution.id, { ids: agentIds });
+  const kbIds = linked(bundle.knowledge_bases);
+  if (kbIds.length > 0) solution = await client.linkKnowledgeBasesToSolution(solution.id, { ids: kbIds });
+  const sourceIds = linked(bundle.source_connections);
+  if (sourceIds.length > 0) solution = await client.linkSourceConnectionsToSolution(solution.id, { ids: sourceIds });
+
+  return { solution, idMap };
+}
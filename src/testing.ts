@@ -0,0 +1,696 @@
+/**
+ * @module
+ *
+ * An in-memory fake of the Seclai API for testing code that uses {@link Seclai}
+ * end to end, without a network. Import it from `@seclai/sdk/testing` and pass
+ * its `fetch` to the client:
+ *
+ * ```ts
+ * import { Seclai } from "@seclai/sdk";
+ * import { FakeSeclaiBackend } from "@seclai/sdk/testing";
+ *
+ * const backend = new FakeSeclaiBackend();
+ * const agent = backend.seedAgent({ name: "Support bot" });
+ * backend.scriptRun(agent.id, { output: "Hi there!", tokens: ["Hi", " there!"] });
+ *
+ * const client = new Seclai({ apiKey: "test", fetch: backend.fetch });
+ * const run = await client.runStreamingAgentAndWait(agent.id, { input: "Hello" });
+ * ```
+ *
+ * Agents (with their definitions), runs, sources, knowledge bases, alerts and
+ * alert configs are stateful; any other route answers 404.
+ *
+ * To test against responses from the real API instead, record them once with
+ * {@link createCassette} and replay them.
+ */
+import { SECLAI_API_URL, type FetchLike } from "./client";
+import type {
+  AgentRunEvent,
+  AgentRunResponse,
+  AgentRunStepResponse,
+  AgentSummaryResponse,
+  AlertCommentResponse,
+  AlertConfigResponse,
+  AlertDetailResponse,
+  AlertResponse,
+  CreateAlertConfigRequest,
+  KnowledgeBaseResponse,
+  SourceResponse,
+} from "./types";
+
+export {
+  createCassette,
+  type Cassette,
+  type CassetteFile,
+  type CassetteInteraction,
+  type CassetteMatchField,
+  type CassetteOptions,
+} from "./cassette";
+
+/** Options for {@link FakeSeclaiBackend}. */
+export interface FakeSeclaiBackendOptions {
+  /** The `baseUrl` the client is configured with, so its path prefix is ignored. Defaults to the production URL. */
+  baseUrl?: string | undefined;
+}
+
+/** How the next run of an agent plays out; see {@link FakeSeclaiBackend.scriptRun}. */
+export interface ScriptedRun {
+  /** Final output. Defaults to the tokens joined, else the run's input. */
+  output?: string | null | undefined;
+  /** Final status. `"processing"` leaves the run going, so it can be cancelled. Defaults to `"completed"`. */
+  status?: AgentRunResponse["status"] | undefined;
+  /** Steps to report, each sent as a `step` event when streaming. */
+  steps?: Partial<AgentRunStepResponse>[] | undefined;
+  /** Tokens to stream as `stream_token` events, followed by `stream_end`. */
+  tokens?: string[] | undefined;
+  /** Credits the run used. Defaults to `0`. */
+  credits?: number | undefined;
+  /**
+   * Raw SSE events to send instead of the generated ones, for testing how
+   * code handles unusual streams. `done` is not added, so leaving it out
+   * simulates a dropped connection.
+   */
+  events?: AgentRunEvent[] | undefined;
+}
+
+/** A request the backend received, in {@link FakeSeclaiBackend.requests}. */
+export interface FakeRequest {
+  method: string;
+  /** Path relative to the base URL, e.g. `/agents/agent_1`. */
+  path: string;
+  query: Record<string, string>;
+  /** Parsed JSON body, the raw text when not JSON, or `undefined`. */
+  body: unknown;
+  headers: Record<string, string>;
+}
+
+/** Which requests {@link FakeSeclaiBackend.fail} applies to. */
+export interface FakeFailureMatch {
+  method?: string | undefined;
+  /** Exact path, or a pattern tested against it. Matches every path when omitted. */
+  path?: string | RegExp | undefined;
+  /** How many matching requests fail. Defaults to `1`. */
+  times?: number | undefined;
+  /** Extra response headers, e.g. `retry-after`. */
+  headers?: Record<string, string> | undefined;
+}
+
+type Handler = (req: FakeRequest, params: string[], signal: AbortSignal | undefined) => Response;
+
+interface Failure {
+  status: number;
+  body: unknown;
+  match: FakeFailureMatch;
+  remaining: number;
+}
+
+class FakeHttpError extends Error {
+  constructor(
+    readonly status: number,
+    readonly detail: string,
+  ) {
+    super(detail);
+  }
+}
+
+const TERMINAL_STATUSES = new Set(["completed", "failed", "cancelled"]);
+
+function json(data: unknown, status = 200, headers: Record<string, string> = {}): Response {
+  return new Response(JSON.stringify(data), {
+    status,
+    headers: { "content-type": "application/json", ...headers },
+  });
+}
+
+function noContent(): Response {
+  return new Response(null, { status: 204 });
+}
+
+function now(): string {
+  return new Date().toISOString();
+}
+
+/** Slice `items` by the `page`/`limit` query and wrap it in the `{data, pagination}` envelope. */
+function paginate<T>(items: T[], query: Record<string, string>) {
+  const page = Math.max(1, Number(query["page"] ?? 1));
+  const limit = Math.max(1, Number(query["limit"] ?? 20));
+  const pages = Math.max(1, Math.ceil(items.length / limit));
+  return {
+    data: items.slice((page - 1) * limit, page * limit),
+    pagination: { page, limit, total: items.length, pages, has_next: page < pages, has_prev: page > 1 },
+  };
+}
+
+/**
+ * A stateful, in-memory stand-in for the Seclai API.
+ *
+ * State lives in public maps keyed by id, which tests may read or edit
+ * directly; `seed*` methods fill in the fields a real response carries. Ids are
+ * predictable (`agent_1`, `run_1`, …) so assertions can name them. Errors come
+ * back as the API sends them — JSON `{detail}` with the HTTP status — so the
+ * client raises its usual error classes.
+ */
+export class FakeSeclaiBackend {
+  /** Pass as the client's `fetch` option. */
+  readonly fetch: FetchLike;
+  /** Every request received, oldest first. */
+  readonly requests: FakeRequest[] = [];
+
+  readonly agents = new Map<string, AgentSummaryResponse>();
+  /** Agent definitions by agent id, with the `change_id` optimistic concurrency checks against. */
+  readonly definitions = new Map<string, { definition: Record<string, unknown>; change_id: string }>();
+  readonly runs = new Map<string, AgentRunResponse>();
+  readonly sources = new Map<string, SourceResponse>();
+  readonly knowledgeBases = new Map<string, KnowledgeBaseResponse>();
+  /** Alerts by id, with the comments, history and subscribers `getAlert` returns. */
+  readonly alerts = new Map<string, AlertDetailResponse>();
+  readonly alertConfigs = new Map<string, AlertConfigResponse>();
+
+  private readonly basePath: string;
+  private readonly counters = new Map<string, number>();
+  private readonly runAgents = new Map<string, string>();
+  private readonly scripts = new Map<string, ScriptedRun[]>();
+  private readonly failures: Failure[] = [];
+  private readonly routes: [string, RegExp, Handler][] = [];
+
+  constructor(opts: FakeSeclaiBackendOptions = {}) {
+    this.basePath = new URL(opts.baseUrl ?? SECLAI_API_URL).pathname.replace(/\/+$/, "");
+    this.fetch = (input, init) => this.handle(input, init);
+    this.defineRoutes();
+  }
+
+  // ─── Seeding ─────────────────────────────────────────────────────────────
+
+  /**
+   * Add an agent, with an empty definition unless one is given.
+   *
+   * @returns The stored agent.
+   */
+  seedAgent(
+    agent: Partial<AgentSummaryResponse> & { definition?: Record<string, unknown> | undefined } = {},
+  ): AgentSummaryResponse {
+    const { definition, ...fields } = agent;
+    const stored: AgentSummaryResponse = {
+      id: this.nextId("agent"),
+      name: "Agent",
+      description: null,
+      trigger_type: "dynamic_input",
+      disabled: false,
+      evaluation_mode: "none",
+      max_retries: 0,
+      retry_on_failure: false,
+      prompt_model_auto_rollback_enabled: false,
+      prompt_model_auto_upgrade_strategy: "none",
+      created_at: now(),
+      updated_at: now(),
+      ...fields,
+    };
+    this.agents.set(stored.id, stored);
+    this.definitions.set(stored.id, {
+      definition: definition ?? { child_steps: [] },
+      change_id: this.nextId("change"),
+    });
+    return stored;
+  }
+
+  /** Add a source connection. @returns The stored source. */
+  seedSource(source: Partial<SourceResponse> = {}): SourceResponse {
+    const stored: SourceResponse = {
+      id: this.nextId("source"),
+      account_id: "account_1",
+      name: "Source",
+      source_type: "file_upload",
+      url: null,
+      content_count: 0,
+      content_filter: "all",
+      has_historical_data: false,
+      next_poll_at: null,
+      polling: null,
+      polling_action: null,
+      polling_max_items: null,
+      pulled_at: null,
+      readonly: false,
+      retention: null,
+      system_managed: false,
+      created_at: now(),
+      updated_at: now(),
+      ...source,
+    };
+    this.sources.set(stored.id, stored);
+    return stored;
+  }
+
+  /** Add a knowledge base. @returns The stored knowledge base. */
+  seedKnowledgeBase(kb: Partial<KnowledgeBaseResponse> = {}): KnowledgeBaseResponse {
+    const stored: KnowledgeBaseResponse = {
+      id: this.nextId("kb"),
+      name: "Knowledge base",
+      description: null,
+      readonly: false,
+      sources: [],
+      created_at: now(),
+      updated_at: now(),
+      ...kb,
+    };
+    this.knowledgeBases.set(stored.id, stored);
+    return stored;
+  }
+
+  /** Add an alert, `open` unless given another status. @returns The stored alert. */
+  seedAlert(alert: Partial<AlertResponse> = {}): AlertResponse {
+    const stored: AlertResponse = {
+      id: this.nextId("alert"),
+      account_id: "account_1",
+      alert_type: "agent_run_failed",
+      title: "Alert",
+      description: null,
+      status: "open",
+      agent_id: null,
+      agent_run_id: null,
+      alert_config_id: null,
+      mcp_client_id: null,
+      source_connection_id: null,
+      source_connection_pull_id: null,
+      comment_count: 0,
+      subscriber_count: 0,
+      is_subscribed: false,
+      created_at: now(),
+      updated_at: now(),
+      ...alert,
+    };
+    this.alerts.set(stored.id, { alert: stored, comments: [], history: [], subscribers: [] });
+    return stored;
+  }
+
+  // ─── Scripting ───────────────────────────────────────────────────────────
+
+  /**
+   * Queue how the agent's next runs play out, one script per run, for both
+   * `runAgent` and the streaming methods. Unscripted runs complete at once and
+   * echo their input as output.
+   *
+   * @returns This backend, for chaining.
+   */
+  scriptRun(agentId: string, ...runs: ScriptedRun[]): this {
+    this.scripts.set(agentId, [...(this.scripts.get(agentId) ?? []), ...runs]);
+    return this;
+  }
+
+  /**
+   * Make matching requests fail with `status` and a JSON `{detail}` body,
+   * before any state changes. Failures are checked in the order added.
+   *
+   * @param detail - The error `detail`: a message, or any JSON value.
+   * @returns This backend, for chaining.
+   *
+   * @example
+   * ```ts
+   * backend.fail(429, "Slow down", { path: /\/runs$/, headers: { "retry-after": "1" } });
+   * ```
+   */
+  fail(status: number, detail: unknown = "Injected failure", match: FakeFailureMatch = {}): this {
+    this.failures.push({ status, body: { detail }, match, remaining: match.times ?? 1 });
+    return this;
+  }
+
+  /** Forget all state, scripts, failures and recorded requests. */
+  reset(): void {
+    for (const map of [
+      this.agents,
+      this.definitions,
+      this.runs,
+      this.sources,
+      this.knowledgeBases,
+      this.alerts,
+      this.alertConfigs,
+      this.counters,
+      this.runAgents,
+      this.scripts,
+    ]) {
+      map.clear();
+    }
+    this.failures.length = 0;
+    this.requests.length = 0;
+  }
+
+  // ─── Request handling ────────────────────────────────────────────────────
+
+  private nextId(prefix: string): string {
+    const n = (this.counters.get(prefix) ?? 0) + 1;
+    this.counters.set(prefix, n);
+    return `${prefix}_${n}`;
+  }
+
+  private async handle(input: RequestInfo | URL, init?: RequestInit): Promise<Response> {
+    const request = new Request(input, init);
+    const url = new URL(request.url);
+    const path = url.pathname.startsWith(this.basePath) ? url.pathname.slice(this.basePath.length) : url.pathname;
+    const text = await request.text();
+    let body: unknown;
+    try {
+      body = text ? JSON.parse(text) : undefined;
+    } catch {
+      body = text;
+    }
+    const req: FakeRequest = {
+      method: request.method,
+      path: path.replace(/\/+$/, "") || "/",
+      query: Object.fromEntries(url.searchParams),
+      body,
+      headers: Object.fromEntries(request.headers),
+    };
+    this.requests.push(req);
+
+    const failure = this.failures.find((f) => {
+      const { method, path: pattern } = f.match;
+      if (method && method.toUpperCase() !== req.method) return false;
+      if (typeof pattern === "string") return pattern === req.path;
+      return pattern ? pattern.test(req.path) : true;
+    });
+    if (failure) {
+      if (--failure.remaining <= 0) this.failures.splice(this.failures.indexOf(failure), 1);
+      return json(failure.body, failure.status, failure.match.headers);
+    }
+
+    for (const [method, pattern, handler] of this.routes) {
+      const match = method === req.method ? pattern.exec(req.path) : null;
+      if (!match) continue;
+      try {
+        return handler(req, match.slice(1).map(decodeURIComponent), init?.signal ?? undefined);
+      } catch (err) {
+        if (err instanceof FakeHttpError) return json({ detail: err.detail }, err.status);
+        throw err;
+      }
+    }
+    return json({ detail: `No fake route for ${req.method} ${req.path}` }, 404);
+  }
+
+  private route(method: string, path: string, handler: Handler): void {
+    const pattern = new RegExp(`^${path.replace(/\{\w+\}/g, "([^/]+)")}$`);
+    this.routes.push([method, pattern, handler]);
+  }
+
+  private find<T>(map: Map<string, T>, id: string, what: string): T {
+    const item = map.get(id);
+    if (item === undefined) throw new FakeHttpError(404, `${what} ${id} not found`);
+    return item;
+  }
+
+  // ─── Routes ──────────────────────────────────────────────────────────────
+
+  private defineRoutes(): void {
+    // Static segments come before `{id}` routes that would also match them.
+    this.route("GET", "/agents/runs/{runId}", (_req, [runId]) => json(this.find(this.runs, runId!, "Run")));
+    this.route("DELETE", "/agents/runs/{runId}", (_req, [runId]) => {
+      const run = this.find(this.runs, runId!, "Run");
+      if (TERMINAL_STATUSES.has(run.status)) throw new FakeHttpError(409, `Run ${runId} has already finished`);
+      // The API reports a status outside the generated union for cancelled runs.
+      run.status = "cancelled" as AgentRunResponse["status"];
+      return json(run);
+    });
+
+    this.route("GET", "/agents", (req) => json(paginate([...this.agents.values()], req.query)));
+    this.route("POST", "/agents", (req) => {
+      const { agent_definition, entity_remap: _, agent_template: _t, ...fields } = req.body as Record<string, unknown>;
+      const exported = (agent_definition as { agent?: { definition?: unknown } } | undefined)?.agent;
+      const definition = (exported?.definition ?? agent_definition) as Record<string, unknown> | undefined;
+      return json(this.seedAgent({ ...(fields as Partial<AgentSummaryResponse>), definition }), 201);
+    });
+    this.route("GET", "/agents/{id}", (_req, [id]) => json(this.find(this.agents, id!, "Agent")));
+    this.route("PUT", "/agents/{id}", (req, [id]) => {
+      const agent = this.find(this.agents, id!, "Agent");
+      for (const [key, value] of Object.entries(req.body as Record<string, unknown>)) {
+        if (value !== null && !key.startsWith("set_") && key !== "agent_definition" && key !== "entity_remap") {
+          (agent as Record<string, unknown>)[key] = value;
+        }
+      }
+      agent.updated_at = now();
+      return json(agent);
+    });
+    this.route("DELETE", "/agents/{id}", (_req, [id]) => {
+      this.find(this.agents, id!, "Agent");
+      this.agents.delete(id!);
+      this.definitions.delete(id!);
+      return noContent();
+    });
+    this.route("POST", "/agents/{id}/disable", (_req, [id]) => {
+      const agent = this.find(this.agents, id!, "Agent");
+      Object.assign(agent, { disabled: true, disabled_at: now(), updated_at: now() });
+      return json(agent);
+    });
+    this.route("POST", "/agents/{id}/enable", (_req, [id]) => {
+      const agent = this.find(this.agents, id!, "Agent");
+      Object.assign(agent, { disabled: false, disabled_at: null, updated_at: now() });
+      return json(agent);
+    });
+
+    this.route("GET", "/agents/{id}/definition", (_req, [id]) => {
+      const stored = this.find(this.definitions, id!, "Agent");
+      return json({ ...stored, schema_version: "1" });
+    });
+    this.route("PUT", "/agents/{id}/definition", (req, [id]) => {
+      const stored = this.find(this.definitions, id!, "Agent");
+      const body = req.body as { definition: Record<string, unknown>; expected_change_id: string };
+      if (body.expected_change_id !== stored.change_id) {
+        throw new FakeHttpError(409, "The definition has changed since expected_change_id");
+      }
+      stored.definition = body.definition;
+      stored.change_id = this.nextId("change");
+      return json({ ...stored, schema_version: "1" });
+    });
+
+    this.route("POST", "/agents/{id}/runs", (req, [id]) => json(this.startRun(id!, req).run));
+    this.route("GET", "/agents/{id}/runs", (req, [id]) => {
+      this.find(this.agents, id!, "Agent");
+      const runs = [...this.runs.values()].filter(
+        (r) => this.runAgents.get(r.run_id) === id && (!req.query["status"] || r.status === req.query["status"]),
+      );
+      return json(paginate(runs, req.query));
+    });
+    this.route("POST", "/agents/{id}/runs/stream", (req, [id], signal) => {
+      const { run, script } = this.startRun(id!, req);
+      return this.sse(this.streamEvents(run, script), signal);
+    });
+
+    this.route("GET", "/sources", (req) => json(paginate([...this.sources.values()], req.query)));
+    this.route("POST", "/sources", (req) => json(this.seedSource(withoutNulls(req.body)), 201));
+    this.route("GET", "/sources/{id}", (_req, [id]) => json(this.find(this.sources, id!, "Source")));
+    this.route("PUT", "/sources/{id}", (req, [id]) => {
+      const source = this.find(this.sources, id!, "Source");
+      Object.assign(source, withoutNulls(req.body), { updated_at: now() });
+      return json(source);
+    });
+    this.route("DELETE", "/sources/{id}", (_req, [id]) => {
+      this.find(this.sources, id!, "Source");
+      this.sources.delete(id!);
+      return noContent();
+    });
+
+    this.route("GET", "/knowledge_bases", (req) => {
+      const { data, pagination } = paginate([...this.knowledgeBases.values()], req.query);
+      return json({ knowledge_bases: data, total: pagination.total, page: pagination.page, limit: pagination.limit });
+    });
+    this.route("POST", "/knowledge_bases", (req) => {
+      const { source_ids, ...fields } = req.body as { source_ids?: string[] | null };
+      return json(this.seedKnowledgeBase({ ...withoutNulls(fields), sources: this.sourceRefs(source_ids ?? []) }), 201);
+    });
+    this.route("GET", "/knowledge_bases/{id}", (_req, [id]) => json(this.find(this.knowledgeBases, id!, "Knowledge base")));
+    this.route("PUT", "/knowledge_bases/{id}", (req, [id]) => {
+      const kb = this.find(this.knowledgeBases, id!, "Knowledge base");
+      const { source_ids, ...fields } = req.body as { source_ids?: string[] | null };
+      Object.assign(kb, withoutNulls(fields), { updated_at: now() });
+      if (source_ids) kb.sources = this.sourceRefs(source_ids);
+      return json(kb);
+    });
+    this.route("DELETE", "/knowledge_bases/{id}", (_req, [id]) => {
+      this.find(this.knowledgeBases, id!, "Knowledge base");
+      this.knowledgeBases.delete(id!);
+      return noContent();
+    });
+
+    this.route("GET", "/alerts/configs", (req) => {
+      const { data, pagination } = paginate([...this.alertConfigs.values()], req.query);
+      return json({ configs: data, total: pagination.total });
+    });
+    this.route("POST", "/alerts/configs", (req) => {
+      const config = {
+        account_id: "account_1",
+        agent_id: null,
+        source_connection_id: null,
+        recipient_user_ids: [],
+        threshold: {},
+        last_alerted_at: null,
+        created_at: now(),
+        updated_at: now(),
+        ...withoutNulls<CreateAlertConfigRequest>(req.body),
+        id: this.nextId("alert_config"),
+      } as AlertConfigResponse;
+      this.alertConfigs.set(config.id, config);
+      return json(config, 201);
+    });
+    this.route("GET", "/alerts/configs/{id}", (_req, [id]) => json(this.find(this.alertConfigs, id!, "Alert config")));
+    this.route("PATCH", "/alerts/configs/{id}", (req, [id]) => {
+      const config = this.find(this.alertConfigs, id!, "Alert config");
+      Object.assign(config, withoutNulls(req.body), { updated_at: now() });
+      return json(config);
+    });
+    this.route("DELETE", "/alerts/configs/{id}", (_req, [id]) => {
+      this.find(this.alertConfigs, id!, "Alert config");
+      this.alertConfigs.delete(id!);
+      return noContent();
+    });
+
+    this.route("GET", "/alerts", (req) => {
+      const alerts = [...this.alerts.values()]
+        .map((d) => d.alert)
+        .filter((a) => !req.query["status"] || a.status === req.query["status"]);
+      return json(paginate(alerts, req.query));
+    });
+    this.route("GET", "/alerts/{id}", (_req, [id]) => json(this.find(this.alerts, id!, "Alert")));
+    this.route("POST", "/alerts/{id}/status", (req, [id]) => {
+      const detail = this.find(this.alerts, id!, "Alert");
+      const { status, note } = req.body as { status: string; note?: string | null };
+      detail.history.push({
+        id: this.nextId("alert_history"),
+        previous_status: detail.alert.status,
+        new_status: status,
+        note: note ?? null,
+        changed_by_user_id: "user_1",
+        changed_by_name: null,
+        created_at: now(),
+      });
+      Object.assign(detail.alert, { status, updated_at: now() });
+      return json(detail);
+    });
+    this.route("POST", "/alerts/{id}/comments", (req, [id]) => {
+      const detail = this.find(this.alerts, id!, "Alert");
+      const comment: AlertCommentResponse = {
+        id: this.nextId("alert_comment"),
+        body: (req.body as { body: string }).body,
+        user_id: "user_1",
+        user_name: null,
+        created_at: now(),
+      };
+      detail.comments.push(comment);
+      detail.alert.comment_count = detail.comments.length;
+      return json(detail);
+    });
+    this.route("POST", "/alerts/{id}/subscribe", (_req, [id]) => {
+      const detail = this.find(this.alerts, id!, "Alert");
+      if (!detail.alert.is_subscribed) {
+        detail.subscribers.push({ id: this.nextId("alert_subscriber"), user_id: "user_1", user_name: null, created_at: now() });
+      }
+      Object.assign(detail.alert, { is_subscribed: true, subscriber_count: detail.subscribers.length });
+      return json(detail);
+    });
+    this.route("POST", "/alerts/{id}/unsubscribe", (_req, [id]) => {
+      const detail = this.find(this.alerts, id!, "Alert");
+      detail.subscribers = detail.subscribers.filter((s) => s.user_id !== "user_1");
+      Object.assign(detail.alert, { is_subscribed: false, subscriber_count: detail.subscribers.length });
+      return json(detail);
+    });
+  }
+
+  // ─── Runs ────────────────────────────────────────────────────────────────
+
+  private sourceRefs(ids: string[]): NonNullable<KnowledgeBaseResponse["sources"]> {
+    return ids.map((id) => {
+      const source = this.find(this.sources, id, "Source");
+      return { id, name: source.name, source_type: source.source_type, polling: source.polling, url: source.url ?? "" };
+    });
+  }
+
+  private startRun(agentId: string, req: FakeRequest): { run: AgentRunResponse; script: ScriptedRun } {
+    const agent = this.find(this.agents, agentId, "Agent");
+    if (agent.disabled) throw new FakeHttpError(409, `Agent ${agentId} is disabled`);
+    const body = (req.body ?? {}) as { input?: string | null; priority?: boolean };
+    const script = this.scripts.get(agentId)?.shift() ?? {};
+    const status = script.status ?? "completed";
+    const finished = TERMINAL_STATUSES.has(status);
+    const started = now();
+    const steps = (script.steps ?? []).map(
+      (step, i): AgentRunStepResponse => ({
+        agent_step_id: `step_${i + 1}`,
+        step_type: "prompt_call",
+        status: "completed",
+        input: null,
+        output: null,
+        output_content_type: null,
+        credits_used: 0,
+        duration_seconds: 0,
+        started_at: started,
+        ended_at: started,
+        ...step,
+      }),
+    );
+    const run: AgentRunResponse = {
+      run_id: this.nextId("run"),
+      status,
+      input: body.input ?? null,
+      output: finished ? (script.output ?? script.tokens?.join("") ?? body.input ?? null) : null,
+      credits: finished ? (script.credits ?? 0) : null,
+      error_count: status === "failed" ? 1 : 0,
+      priority: body.priority ?? false,
+      attempts: [
+        {
+          status,
+          started_at: started,
+          ended_at: finished ? started : null,
+          duration: finished ? 0 : null,
+          error: status === "failed" ? "Scripted failure" : null,
+        },
+      ],
+      steps,
+    };
+    this.runs.set(run.run_id, run);
+    this.runAgents.set(run.run_id, agentId);
+    return { run, script };
+  }
+
+  private streamEvents(run: AgentRunResponse, script: ScriptedRun): AgentRunEvent[] {
+    if (script.events) return script.events;
+    const events: AgentRunEvent[] = [
+      { event: "init", data: { ...run, status: "processing", output: null, credits: null, steps: [] } },
+    ];
+    for (const step of run.steps ?? []) events.push({ event: "step", data: step });
+    if (script.tokens) {
+      for (const token of script.tokens) events.push({ event: "stream_token", data: { token } });
+      events.push({ event: "stream_end", data: {} });
+    }
+    if (TERMINAL_STATUSES.has(run.status)) events.push({ event: "done", data: run });
+    return events;
+  }
+
+  /** An SSE response sending each event as its own chunk, which stops with an error when `signal` aborts. */
+  private sse(events: AgentRunEvent[], signal: AbortSignal | undefined): Response {
+    const encoder = new TextEncoder();
+    const stream = new ReadableStream<Uint8Array>({
+      async start(controller) {
+        let aborted = false;
+        signal?.addEventListener(
+          "abort",
+          () => {
+            aborted = true;
+            controller.error(signal.reason);
+          },
+          { once: true },
+        );
+        for (const { event, data } of events) {
+          if (aborted) return;
+          controller.enqueue(encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`));
+          // Yield between events so consumers see them arrive one at a time.
+          await Promise.resolve();
+        }
+        if (!aborted) controller.close();
+      },
+    });
+    return new Response(stream, { status: 200, headers: { "content-type": "text/event-stream" } });
+  }
+}
+
+/** `body` without its `null` fields, so they do not overwrite stored defaults. */
+function withoutNulls<T>(body: unknown): Partial<T> {
+  return Object.fromEntries(
+    Object.entries((body ?? {}) as Record<string, unknown>).filter(([, v]) => v !== null),
+  ) as Partial<T>;
+}
@@ -0,0 +1,151 @@
+/**
+ * @module
+ *
+ * Token-level text accumulation over a streaming agent run, for chat UIs that
+ * render the output of a `streaming_result` step as it is generated.
+ */
+import { SeclaiError, SeclaiStreamingError } from "./errors";
+import { isDoneEvent, isInitEvent, isStreamEndEvent, isStreamTokenEvent } from "./events";
+import type { AgentRunEvent, AgentRunResponse } from "./types";
+
+/** One token of streamed text, with the text accumulated so far. */
+export interface TextDelta {
+  /** The new token text. */
+  delta: string;
+  /** Index of the `streaming_result` step producing it, counting from 0. */
+  step: number;
+  /** That step's text so far, `delta` included. */
+  text: string;
+}
+
+/**
+ * The text of a streaming agent run, built up from its `stream_token` events.
+ *
+ * Iterate it for {@link TextDelta}s, read {@link steps} for the text of each
+ * `streaming_result` step so far, and await {@link finalRun} for the terminal
+ * run. A stream can be consumed once — by iteration or by
+ * {@link toReadableStream}. Agents without a `streaming_result` step emit no
+ * deltas; their output arrives on the final run.
+ *
+ * @example
+ * ```ts
+ * const stream = client.streamAgentText("agent-id", { input: "Hello!" });
+ * for await (const { delta } of stream) process.stdout.write(delta);
+ * const run = await stream.finalRun();
+ * ```
+ */
+export class AgentTextStream implements AsyncIterable<TextDelta> {
+  private readonly source: AsyncIterable<AgentRunEvent>;
+  private readonly final: Promise<AgentRunResponse>;
+  private resolveFinal!: (run: AgentRunResponse) => void;
+  private rejectFinal!: (err: unknown) => void;
+  private readonly texts: string[] = [];
+  private stepOpen = false;
+  private started = false;
+
+  /**
+   * @param events - Events of a streaming run, e.g. from {@link Seclai.runStreamingAgent}.
+   */
+  constructor(events: AsyncIterable<AgentRunEvent>) {
+    this.source = events;
+    this.final = new Promise<AgentRunResponse>((resolve, reject) => {
+      this.resolveFinal = resolve;
+      this.rejectFinal = reject;
+    });
+    // Failures surface through iteration; only report them here to callers who ask.
+    this.final.catch(() => {});
+  }
+
+  /** Accumulated text of each `streaming_result` step so far, in order. */
+  get steps(): readonly string[] {
+    return this.texts;
+  }
+
+  /** All streamed text so far, every step concatenated. */
+  get text(): string {
+    return this.texts.join("");
+  }
+
+  /**
+   * The terminal run from the `done` event. Starts consuming the stream if
+   * nothing else has, discarding the deltas.
+   *
+   * @throws {@link SeclaiStreamingError} If the stream ends or is closed before `done`.
+   */
+  finalRun(): Promise<AgentRunResponse> {
+    if (!this.started) {
+      void (async () => {
+        try {
+          for await (const _ of this) { /* drain */ }
+        } catch { /* reported through `final` */ }
+      })();
+    }
+    return this.final;
+  }
+
+  async *[Symbol.asyncIterator](): AsyncGenerator<TextDelta, void, undefined> {
+    if (this.started) throw new SeclaiError("An AgentTextStream can only be consumed once.");
+    this.started = true;
+
+    let runId: string | undefined;
+    try {
+      for await (const e of this.source) {
+        if (isInitEvent(e)) {
+          runId = e.data.run_id;
+        } else if (isStreamTokenEvent(e)) {
+          if (!this.stepOpen) {
+            this.texts.push("");
+            this.stepOpen = true;
+          }
+          const step = this.texts.length - 1;
+          const text = this.texts[step] + e.data.token;
+          this.texts[step] = text;
+          yield { delta: e.data.token, step, text };
+        } else if (isStreamEndEvent(e)) {
+          this.stepOpen = false;
+        } else if (isDoneEvent(e)) {
+          this.resolveFinal(e.data);
+          return;
+        }
+      }
+      throw new SeclaiStreamingError("Stream ended before receiving a 'done' event.", runId);
+    } catch (err) {
+      this.rejectFinal(err);
+      throw err;
+    } finally {
+      // Reached when the consumer stops early; a no-op once `final` has settled.
+      this.rejectFinal(new SeclaiStreamingError("Text stream was closed before the run finished.", runId));
+    }
+  }
+
+  /**
+   * Adapt the deltas to a web `ReadableStream<string>`. Cancelling the stream
+   * closes the underlying connection.
+   *
+   * @example
+   * ```ts
+   * // Next.js / Hono route handler
+   * const stream = client.streamAgentText(agentId, { input });
+   * return new Response(stream.toReadableStream().pipeThrough(new TextEncoderStream()), {
+   *   headers: { "content-type": "text/plain; charset=utf-8" },
+   * });
+   * ```
+   */
+  toReadableStream(): ReadableStream<string> {
+    const it = this[Symbol.asyncIterator]();
+    return new ReadableStream<string>({
+      async pull(controller) {
+        try {
+          const { value, done } = await it.next();
+          if (done) controller.close();
+          else controller.enqueue(value.delta);
+        } catch (err) {
+          controller.error(err);
+        }
+      },
+      async cancel() {
+        await it.return();
+      },
+    });
+  }
+}
@@ -66,6 +66,22 @@ export type AgentImportPreviewRequest = components["schemas"]["routers__api__age
 /** Response body summarising a successfully validated agent_definition import payload. */
 export type AgentImportPreviewResponse = components["schemas"]["routers__api__agents__AgentImportPreviewResponse"];
 
+/**
+ * One entry of {@link AgentImportPreviewResponse}'s `unresolved_refs`: an
+ * entity the imported workflow references that the target account lacks.
+ */
+export interface UnresolvedAgentRef {
+  /** Kind of entity, e.g. knowledge base, memory bank, source connection or agent. */
+  category: string;
+  /** The entity's id in the source account; the key to use in `entity_remap`. */
+  ref_id: string;
+  ref_name?: string | null;
+  /** Steps referring to it, as `step:<id>`. */
+  locations: string[];
+  /** Candidate entities in the target account. */
+  alternatives: { id: string; name: string; description?: string | null }[];
+}
+
 /**
  * 422 response body for invalid `agent_definition` payloads on create/update/preview-import.
  * Errors carry 1-indexed line/column references into the canonical `source` echo.
@@ -710,14 +726,103 @@ export type PendingProcessingCompletedFailedStatus = components["schemas"]["Pend
 
 // ─── SSE Event Types ─────────────────────────────────────────────────────────
 
-/** An SSE event emitted during a streaming agent run. */
-export interface AgentRunEvent {
-  /** The SSE event type (e.g. "init", "step", "done", "error", "timeout"). */
+/** `init`: the first event, a snapshot of the run including its `run_id`. */
+export interface AgentRunInitEvent {
+  event: "init";
+  data: AgentRunResponse;
+}
+
+/** `step`: progress of one step of the run. */
+export interface AgentRunStepEvent {
+  event: "step";
+  data: AgentRunStepResponse;
+}
+
+/** Payload of a `stream_token` event. */
+export interface AgentRunStreamTokenData {
+  /** The LLM token text. */
+  token: string;
+  [key: string]: unknown;
+}
+
+/** `stream_token`: one LLM token from a `streaming_result` step. */
+export interface AgentRunStreamTokenEvent {
+  event: "stream_token";
+  data: AgentRunStreamTokenData;
+}
+
+/** `stream_end`: the `streaming_result` step has sent its last token. */
+export interface AgentRunStreamEndEvent {
+  event: "stream_end";
+  data: Record<string, unknown>;
+}
+
+/** `done`: the terminal snapshot of the run, with `output` and `credits` when available. */
+export interface AgentRunDoneEvent {
+  event: "done";
+  data: AgentRunResponse;
+}
+
+/** Payload of an `error` or `timeout` event: enough to resume by polling the run. */
+export interface AgentRunInterruptionData {
+  run_id: string;
+  [key: string]: unknown;
+}
+
+/** `error`: the stream failed; the run may still be going server-side. */
+export interface AgentRunErrorEvent {
+  event: "error";
+  data: AgentRunInterruptionData;
+}
+
+/** `timeout`: the server stopped streaming before the run finished. */
+export interface AgentRunTimeoutEvent {
+  event: "timeout";
+  data: AgentRunInterruptionData;
+}
+
+/**
+ * Any other event — status changes and event types added after this release.
+ * `data` is the parsed JSON payload, or the raw string when it is not JSON.
+ */
+export interface AgentRunUnknownEvent {
   event: string;
-  /** Parsed JSON payload (typically an {@link AgentRunResponse}). */
   data: unknown;
 }
 
+/**
+ * An SSE event emitted during a streaming agent run.
+ *
+ * Discriminated on `event`. Because {@link AgentRunUnknownEvent} accepts any
+ * event name, comparing `event` alone does not narrow `data`; use the guards
+ * such as {@link isStepEvent}, which also check the payload is an object.
+ */
+export type AgentRunEvent =
+  | AgentRunInitEvent
+  | AgentRunStepEvent
+  | AgentRunStreamTokenEvent
+  | AgentRunStreamEndEvent
+  | AgentRunDoneEvent
+  | AgentRunErrorEvent
+  | AgentRunTimeoutEvent
+  | AgentRunUnknownEvent;
+
+/** Options for the streaming run methods. */
+export interface StreamingRunOptions {
+  /** Overall time limit in ms, resumed polling included. Defaults to `60000`. */
+  timeoutMs?: number;
+  /** Abort signal to cancel the stream. */
+  signal?: AbortSignal;
+  /**
+   * Survive a dropped connection. Once the `init` event has delivered a
+   * `run_id`, a disconnect — or a stream that ends without `done` — falls back
+   * to polling the run until it is terminal, then reports it as `done`.
+   */
+  resume?: boolean;
+  /** Delay between polls while resuming, in ms. Defaults to `2000`. */
+  pollIntervalMs?: number;
+}
+
 // ─── Pagination Options ──────────────────────────────────────────────────────
 
 /** Common pagination + sorting options for list endpoints. */
@@ -726,6 +831,8 @@ export interface ListOptions {
   page?: number;
   /** Items per page. */
   limit?: number;
+  /** Aborts the request. */
+  signal?: AbortSignal | undefined;
 }
 
 /** Pagination + sorting options. */
@@ -735,3 +842,16 @@ export interface SortableListOptions extends ListOptions {
   /** Sort order. */
   order?: "asc" | "desc";
 }
+
+/** Options for the `iter*` auto-pagination helpers and {@link Seclai.paginate}. */
+export interface IterateOptions {
+  /** Items requested per page. Defaults to 50. */
+  limit?: number;
+  /** Stop after this many items have been yielded in total. */
+  maxItems?: number;
+  /**
+   * Aborts the page request in flight and stops iteration before the next
+   * item is yielded; the iterator then throws the signal's reason.
+   */
+  signal?: AbortSignal;
+}
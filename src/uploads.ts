@@ -0,0 +1,203 @@
+/**
+ * @module
+ *
+ * Streaming multipart uploads: send a file from a `ReadableStream`, a Node.js
+ * `ReadStream` or any async iterable of bytes without buffering it, and report
+ * upload progress as the body is read.
+ */
+import { SeclaiConfigurationError, SeclaiError } from "./errors";
+import { detectMimeType } from "./mime";
+
+/** The file payload an upload method accepts. Streams need their `size` given alongside. */
+export type UploadSource =
+  | Blob
+  | Uint8Array
+  | ArrayBuffer
+  | BufferSource
+  | ReadableStream<Uint8Array>
+  | AsyncIterable<Uint8Array | string>;
+
+/**
+ * Called as the file is handed to the network layer.
+ *
+ * @param loaded - Bytes of the file sent so far.
+ * @param total - Size of the file in bytes.
+ */
+export type UploadProgressCallback = (loaded: number, total: number) => void;
+
+/** @internal Whether `file` is a stream, which must be sent as-is rather than through `FormData`. */
+export function isStreamSource(
+  file: UploadSource,
+): file is ReadableStream<Uint8Array> | AsyncIterable<Uint8Array | string> {
+  if (file instanceof Blob || file instanceof ArrayBuffer || ArrayBuffer.isView(file)) return false;
+  return file instanceof ReadableStream || Symbol.asyncIterator in file;
+}
+
+async function* chunks(
+  file: ReadableStream<Uint8Array> | AsyncIterable<Uint8Array | string>,
+): AsyncGenerator<Uint8Array, void, undefined> {
+  const encoder = new TextEncoder();
+  if (file instanceof ReadableStream) {
+    const reader = file.getReader();
+    try {
+      while (true) {
+        const { value, done } = await reader.read();
+        if (done) return;
+        yield value;
+      }
+    } finally {
+      reader.releaseLock();
+    }
+  }
+  // A ReadStream with an encoding set yields strings.
+  for await (const chunk of file) yield typeof chunk === "string" ? encoder.encode(chunk) : chunk;
+}
+
+/** Quote a multipart parameter value the way browsers do: escape `"` and newlines. */
+function quote(value: string): string {
+  return `"${value.replace(/\r/g, "%0D").replace(/\n/g, "%0A").replace(/"/g, "%22")}"`;
+}
+
+/** @internal A multipart/form-data request body that streams its file part. */
+export interface MultipartBody {
+  body: ReadableStream<Uint8Array>;
+  contentType: string;
+  contentLength: number;
+  /** The error the file stream failed with, which fetch reports only as a network failure. */
+  readonly failure: unknown;
+}
+
+/**
+ * @internal Build a multipart/form-data body whose file part is read from
+ * `file` only as fetch pulls it. The body errors if the stream yields more or
+ * fewer than `size` bytes, since `Content-Length` has already been sent.
+ */
+export function multipartBody(opts: {
+  fields: [string, string][];
+  file: ReadableStream<Uint8Array> | AsyncIterable<Uint8Array | string>;
+  size: number;
+  fileName: string;
+  mimeType: string | undefined;
+  onProgress?: UploadProgressCallback | undefined;
+}): MultipartBody {
+  if (!Number.isSafeInteger(opts.size) || opts.size < 0) {
+    throw new SeclaiConfigurationError(`Upload size must be a non-negative integer, got ${opts.size}.`);
+  }
+  const encoder = new TextEncoder();
+  const boundary = `----SeclaiFormBoundary${crypto.randomUUID().replace(/-/g, "")}`;
+  let preamble = "";
+  for (const [name, value] of opts.fields) {
+    preamble += `--${boundary}\r\nContent-Disposition: form-data; name=${quote(name)}\r\n\r\n${value}\r\n`;
+  }
+  preamble +=
+    `--${boundary}\r\nContent-Disposition: form-data; name="file"; filename=${quote(opts.fileName)}\r\n` +
+    `Content-Type: ${opts.mimeType ?? "application/octet-stream"}\r\n\r\n`;
+  const head = encoder.encode(preamble);
+  const tail = encoder.encode(`\r\n--${boundary}--\r\n`);
+
+  const source = chunks(opts.file);
+  let loaded = 0;
+  let started = false;
+  let failure: unknown;
+  const step = async (controller: ReadableStreamDefaultController<Uint8Array>): Promise<void> => {
+    if (!started) {
+      started = true;
+      controller.enqueue(head);
+      opts.onProgress?.(0, opts.size);
+      return;
+    }
+    const next = await source.next();
+    if (next.done) {
+      if (loaded !== opts.size) {
+        throw new SeclaiError(`Upload stream ended after ${loaded} of ${opts.size} bytes.`);
+      }
+      controller.enqueue(tail);
+      controller.close();
+      return;
+    }
+    loaded += next.value.byteLength;
+    if (loaded > opts.size) {
+      throw new SeclaiError(`Upload stream yielded more than the ${opts.size} bytes declared.`);
+    }
+    controller.enqueue(next.value);
+    opts.onProgress?.(loaded, opts.size);
+  };
+  const body = new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      try {
+        await step(controller);
+      } catch (err) {
+        failure = err;
+        throw err;
+      }
+    },
+    async cancel() {
+      await source.return();
+    },
+  });
+
+  return {
+    body,
+    contentType: `multipart/form-data; boundary=${boundary}`,
+    contentLength: head.byteLength + opts.size + tail.byteLength,
+    get failure() {
+      return failure;
+    },
+  };
+}
+
+interface FsModule {
+  statSync(path: string): { size: number; isFile(): boolean };
+  openSync(path: string, flags: string): number;
+  readSync(fd: number, buffer: Uint8Array, offset: number, length: number, position: number): number;
+  closeSync(fd: number): void;
+  createReadStream(path: string): AsyncIterable<Uint8Array>;
+}
+
+/** Bytes read from the start of a file to sniff its type. */
+const HEAD_BYTES = 4096;
+/** Bytes read from the end of a ZIP, where its entry names are listed. */
+const ZIP_TAIL_BYTES = 65536;
+
+/** The file at `filePath`, opened for a streaming upload. */
+export interface PathUpload {
+  file: AsyncIterable<Uint8Array>;
+  size: number;
+  fileName: string;
+  mimeType: string | undefined;
+}
+
+/**
+ * @internal Open a file for upload: its size, its base name, and its MIME type
+ * from its magic bytes or else its extension. The contents are streamed, not
+ * read into memory.
+ */
+export async function openPathUpload(filePath: string): Promise<PathUpload> {
+  // @ts-expect-error -- resolved at runtime; no @types/node in this package
+  const fs = (await import("node:fs")) as unknown as FsModule;
+  const stat = fs.statSync(filePath);
+  if (!stat.isFile()) throw new SeclaiConfigurationError(`Not a file: ${filePath}`);
+  const fileName = filePath.split(/[\\/]/).pop() || "upload";
+
+  const fd = fs.openSync(filePath, "r");
+  let head: Uint8Array;
+  let tail: Uint8Array | undefined;
+  try {
+    head = new Uint8Array(Math.min(HEAD_BYTES, stat.size));
+    fs.readSync(fd, head, 0, head.length, 0);
+    if (stat.size > HEAD_BYTES && head[0] === 0x50 && head[1] === 0x4b) {
+      tail = new Uint8Array(Math.min(ZIP_TAIL_BYTES, stat.size - HEAD_BYTES));
+      fs.readSync(fd, tail, 0, tail.length, stat.size - tail.length);
+    }
+  } finally {
+    fs.closeSync(fd);
+  }
+
+  return {
+    // Opened once the upload starts reading, so nothing leaks if it fails before.
+    file: { [Symbol.asyncIterator]: () => fs.createReadStream(filePath)[Symbol.asyncIterator]() },
+    size: stat.size,
+    fileName,
+    mimeType: detectMimeType(fileName, head, tail),
+  };
+}
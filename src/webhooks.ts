@@ -0,0 +1,66 @@
+/**
+ * @module
+ *
+ * Receiving the POSTs a `webhook_call` step sends: the payload's type and a
+ * parser for it.
+ *
+ * Deliveries are not authenticated here. The API does not yet document how
+ * they are signed, so there is no `verifyWebhook`; until it does, keep the
+ * receiving endpoint private or protect it with a secret of your own in the
+ * step's URL or headers.
+ */
+import type { AttachmentManifest, findAttachmentRefs } from "./attachments";
+import { SeclaiError } from "./errors";
+import { isJsonObject } from "./events";
+
+/**
+ * The JSON body a `webhook_call` step POSTs.
+ *
+ * The fields below identify the run and carry its output; any others the
+ * step was configured to send are kept as-is. When `output_content_type` is
+ * `application/vnd.seclai.manifest+json`, `output` is an
+ * {@link AttachmentManifest} serialized as JSON — use
+ * {@link findAttachmentRefs} to pull out its files.
+ */
+export interface AgentRunWebhookPayload {
+  run_id: string;
+  agent_id?: string | undefined;
+  status?: string | undefined;
+  output?: string | null | undefined;
+  output_content_type?: string | null | undefined;
+  [key: string]: unknown;
+}
+
+/**
+ * Parse the body of a `webhook_call` delivery.
+ *
+ * This checks the payload's shape only; it does not prove the request came
+ * from Seclai.
+ *
+ * @param body - The raw body, as text or bytes.
+ * @returns The parsed payload.
+ * @throws {@link SeclaiError} If the body is not a JSON object with a string `run_id`.
+ *
+ * @example
+ * ```ts
+ * export async function POST(request: Request) {
+ *   const payload = parseWebhookPayload(await request.text());
+ *   for (const ref of findAttachmentRefs(payload)) {
+ *     await client.downloadAttachmentRef(payload.run_id, ref);
+ *   }
+ *   return new Response(null, { status: 204 });
+ * }
+ * ```
+ */
+export function parseWebhookPayload(body: string | Uint8Array): AgentRunWebhookPayload {
+  let payload: unknown;
+  try {
+    payload = JSON.parse(typeof body === "string" ? body : new TextDecoder().decode(body));
+  } catch {
+    throw new SeclaiError("Webhook body is not valid JSON.");
+  }
+  if (!isJsonObject(payload) || typeof payload.run_id !== "string") {
+    throw new SeclaiError("Webhook body is not a JSON object with a run_id.");
+  }
+  return payload as AgentRunWebhookPayload;
+}
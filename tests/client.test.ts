@@ -1,16 +1,46 @@
-import { readFileSync } from "node:fs";
+import { existsSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
 import { describe, expect, test } from "vitest";
 
 import {
   Seclai,
   SeclaiAPIStatusError,
   SeclaiAPIValidationError,
+  SeclaiAuthenticationError,
   SeclaiConfigurationError,
+  SeclaiConflictError,
+  SeclaiDefinitionValidationError,
   SeclaiError,
+  SeclaiInsufficientCreditsError,
+  SeclaiNotFoundError,
+  SeclaiPermissionDeniedError,
+  SeclaiRateLimitError,
+  SeclaiServerError,
   SeclaiStreamingError,
+  SeclaiTimeoutError,
   SeclaiApiVersion,
+  defineAgent,
+  decodeAttachmentId,
+  diffAgentDefinitions,
+  encodeAttachmentId,
+  findAttachmentRefs,
+  parseWebhookPayload,
+  loadAgentFiles,
+  mergeAgentDefinitions,
+  registerMimeType,
+  sniffMimeType,
+  steps,
+  validateAgentDefinition,
+  isDoneEvent,
+  isErrorEvent,
+  isInitEvent,
+  isStepEvent,
+  isStreamTokenEvent,
 } from "../src/index";
 import { parseIni, isTokenValid } from "../src/auth";
+import { FakeSeclaiBackend, createCassette } from "../src/testing";
+import { backoffDelay, computeRetryDelay, parseRetryAfter, resolveRetryPolicy } from "../src/retry";
 
 type RecordedRequest = {
   url: string;
@@ -2792,3 +2822,2447 @@ describe("API version guard validates what the merge produces", () => {
     );
   });
 });
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Retries
+// ─────────────────────────────────────────────────────────────────────────────
+
+describe("Retries", () => {
+  const fast = { baseDelayMs: 1, maxDelayMs: 2 };
+
+  test("sends once when no retry policy is configured", async () => {
+    let calls = 0;
+    const client = makeClient(() => {
+      calls++;
+      return new Response("busy", { status: 503 });
+    });
+    await expect(client.request("GET", "/test")).rejects.toBeInstanceOf(SeclaiAPIStatusError);
+    expect(calls).toBe(1);
+  });
+
+  test("retries a retryable status on GET until it succeeds", async () => {
+    let calls = 0;
+    const client = makeClient(
+      () => {
+        calls++;
+        return calls < 3 ? new Response("busy", { status: 503 }) : jsonResponse({ ok: true });
+      },
+      { retry: fast },
+    );
+    expect(await client.request("GET", "/test")).toEqual({ ok: true });
+    expect(calls).toBe(3);
+  });
+
+  test("gives up after maxAttempts and throws the last status", async () => {
+    let calls = 0;
+    const client = makeClient(
+      () => {
+        calls++;
+        return new Response("slow down", { status: 429 });
+      },
+      { retry: { ...fast, maxAttempts: 2 } },
+    );
+    const err = await client.request("GET", "/test").catch((e) => e);
+    expect(err).toBeInstanceOf(SeclaiAPIStatusError);
+    expect(err.statusCode).toBe(429);
+    expect(calls).toBe(2);
+  });
+
+  test("does not retry non-retryable statuses", async () => {
+    let calls = 0;
+    const client = makeClient(
+      () => {
+        calls++;
+        return new Response("boom", { status: 500 });
+      },
+      { retry: fast },
+    );
+    await expect(client.requestRaw("GET", "/test")).rejects.toBeInstanceOf(SeclaiAPIStatusError);
+    expect(calls).toBe(1);
+  });
+
+  test("does not retry POST unless retryNonIdempotent is set", async () => {
+    let calls = 0;
+    const client = makeClient(
+      () => {
+        calls++;
+        return new Response("busy", { status: 502 });
+      },
+      { retry: fast },
+    );
+    await expect(client.request("POST", "/test", { json: {} })).rejects.toBeInstanceOf(SeclaiAPIStatusError);
+    expect(calls).toBe(1);
+
+    calls = 0;
+    await expect(
+      client.request("POST", "/test", { json: {}, retry: { retryNonIdempotent: true } }),
+    ).rejects.toBeInstanceOf(SeclaiAPIStatusError);
+    expect(calls).toBe(3);
+  });
+
+  test("retries network errors", async () => {
+    let calls = 0;
+    const client = makeClient(
+      () => {
+        calls++;
+        if (calls === 1) throw new TypeError("fetch failed");
+        return jsonResponse({ ok: true });
+      },
+      { retry: fast },
+    );
+    expect(await client.request("GET", "/test")).toEqual({ ok: true });
+    expect(calls).toBe(2);
+  });
+
+  test("per-request retry overrides the client policy", async () => {
+    let calls = 0;
+    const client = makeClient(
+      () => {
+        calls++;
+        return new Response("busy", { status: 503 });
+      },
+      { retry: fast },
+    );
+    await expect(client.request("GET", "/test", { retry: false })).rejects.toBeInstanceOf(SeclaiAPIStatusError);
+    expect(calls).toBe(1);
+
+    calls = 0;
+    const optIn = makeClient(
+      () => {
+        calls++;
+        return calls < 2 ? new Response("busy", { status: 503 }) : jsonResponse({ ok: true });
+      },
+    );
+    expect(await optIn.request("GET", "/test", { retry: fast })).toEqual({ ok: true });
+    expect(calls).toBe(2);
+  });
+
+  test("uploadFile retries only with retryNonIdempotent", async () => {
+    let calls = 0;
+    const client = makeClient(
+      () => {
+        calls++;
+        return calls < 2 ? new Response("busy", { status: 503 }) : jsonResponse({ ok: true });
+      },
+      { retry: { ...fast, retryNonIdempotent: true } },
+    );
+    await client.uploadFileToSource("src_1", { file: new Uint8Array([1]), fileName: "a.txt" });
+    expect(calls).toBe(2);
+  });
+
+  test("parseRetryAfter reads seconds and HTTP dates", () => {
+    expect(parseRetryAfter("2")).toBe(2_000);
+    expect(parseRetryAfter(null)).toBeUndefined();
+    expect(parseRetryAfter("soon")).toBeUndefined();
+    const now = Date.parse("2026-01-01T00:00:00Z");
+    expect(parseRetryAfter("Thu, 01 Jan 2026 00:00:05 GMT", now)).toBe(5_000);
+  });
+
+  test("computeRetryDelay backs off exponentially and honors Retry-After", () => {
+    const policy = resolveRetryPolicy({ baseDelayMs: 100, maxDelayMs: 1_000, jitter: false });
+    expect(backoffDelay(1, policy)).toBe(100);
+    expect(backoffDelay(3, policy)).toBe(400);
+    expect(backoffDelay(10, policy)).toBe(1_000);
+    expect(computeRetryDelay(3, policy)).toBe(400);
+    expect(computeRetryDelay(1, policy, 800)).toBe(800);
+    expect(computeRetryDelay(1, policy, 5_000)).toBeUndefined();
+  });
+
+  test("gives up at once when Retry-After exceeds maxDelayMs", async () => {
+    let calls = 0;
+    const client = makeClient(
+      () => {
+        calls++;
+        return new Response(JSON.stringify({ detail: "slow down" }), {
+          status: 429,
+          headers: { "content-type": "application/json", "retry-after": "3600" },
+        });
+      },
+      { retry: { maxAttempts: 3, maxDelayMs: 1_000 } },
+    );
+    const err = await client.listAgents().catch((e) => e);
+    expect(err).toBeInstanceOf(SeclaiRateLimitError);
+    expect(err.retryAfter).toBe(3_600_000);
+    expect(calls).toBe(1);
+  });
+});
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Typed iterators
+// ─────────────────────────────────────────────────────────────────────────────
+
+describe("Typed iterators", () => {
+  test("iterAgents follows pagination.has_next across envelope pages", async () => {
+    const pages: number[] = [];
+    const client = makeClient((req) => {
+      const u = new URL(req.url);
+      expect(u.pathname).toBe("/agents");
+      const page = Number(u.searchParams.get("page"));
+      pages.push(page);
+      return jsonResponse({
+        data: page === 1 ? [{ id: "a" }, { id: "b" }] : [{ id: "c" }],
+        pagination: { page, pages: 2, limit: 2, total: 3, has_next: page < 2, has_prev: page > 1 },
+      });
+    });
+
+    const ids: string[] = [];
+    for await (const agent of client.iterAgents({ limit: 2 })) ids.push(agent.id);
+    expect(ids).toEqual(["a", "b", "c"]);
+    expect(pages).toEqual([1, 2]);
+  });
+
+  test("paginate reads the canonical envelope instead of stopping after page one", async () => {
+    const client = makeClient((req) => {
+      const page = Number(new URL(req.url).searchParams.get("page"));
+      return jsonResponse({
+        data: [{ id: `s${page}` }],
+        pagination: { page, pages: 3, limit: 1, total: 3, has_next: page < 3, has_prev: page > 1 },
+      });
+    });
+
+    const ids: string[] = [];
+    for await (const source of client.paginate((opts) => client.listSources(opts), { limit: 1 })) {
+      ids.push((source as any).id);
+    }
+    expect(ids).toEqual(["s1", "s2", "s3"]);
+  });
+
+  test("iterKnowledgeBases reads the legacy keyed shape with flat totals", async () => {
+    const client = makeClient((req) => {
+      const u = new URL(req.url);
+      const page = Number(u.searchParams.get("page"));
+      expect(u.searchParams.get("sort")).toBe("name");
+      return jsonResponse({
+        knowledge_bases: page === 1 ? [{ id: "kb1" }, { id: "kb2" }] : [{ id: "kb3" }],
+        total: 3,
+        page,
+        limit: 2,
+      });
+    });
+
+    const ids: string[] = [];
+    for await (const kb of client.iterKnowledgeBases({ limit: 2, sort: "name" })) ids.push(kb.id);
+    expect(ids).toEqual(["kb1", "kb2", "kb3"]);
+  });
+
+  test("iterAlertConfigs reads both legacy and envelope shapes", async () => {
+    const legacy = makeClient(() => jsonResponse({ configs: [{ id: "c1" }], total: 1 }));
+    const envelope = makeClient(() =>
+      jsonResponse({
+        data: [{ id: "c1" }],
+        pagination: { page: 1, pages: 1, limit: 50, total: 1, has_next: false, has_prev: false },
+      }),
+    );
+    for (const client of [legacy, envelope]) {
+      const ids: string[] = [];
+      for await (const config of client.iterAlertConfigs()) ids.push((config as any).id);
+      expect(ids).toEqual(["c1"]);
+    }
+  });
+
+  test("iterExperiments pages by offset", async () => {
+    const offsets: string[] = [];
+    const client = makeClient((req) => {
+      const u = new URL(req.url);
+      offsets.push(u.searchParams.get("offset") ?? "");
+      expect(u.searchParams.get("days")).toBe("7");
+      const offset = Number(u.searchParams.get("offset"));
+      return jsonResponse({ experiments: offset === 0 ? [{ id: "e1" }, { id: "e2" }] : [{ id: "e3" }], total: 3 });
+    });
+
+    const ids: string[] = [];
+    for await (const exp of client.iterExperiments({ limit: 2, days: 7 })) ids.push((exp as any).id);
+    expect(ids).toEqual(["e1", "e2", "e3"]);
+    expect(offsets).toEqual(["0", "2"]);
+  });
+
+  test("iterAgentRuns stops at maxItems without fetching further pages", async () => {
+    let calls = 0;
+    const client = makeClient((req) => {
+      calls++;
+      expect(new URL(req.url).searchParams.get("status")).toBe("failed");
+      return jsonResponse({
+        data: [{ run_id: "r1" }, { run_id: "r2" }],
+        pagination: { page: calls, pages: 10, limit: 2, total: 20, has_next: true, has_prev: false },
+      });
+    });
+
+    const ids: string[] = [];
+    for await (const run of client.iterAgentRuns("ag_1", { limit: 2, maxItems: 3, status: "failed" })) {
+      ids.push(run.run_id);
+    }
+    expect(ids).toEqual(["r1", "r2", "r1"]);
+    expect(calls).toBe(2);
+  });
+
+  test("iterAlerts stops when the signal aborts", async () => {
+    const controller = new AbortController();
+    const client = makeClient(() =>
+      jsonResponse({
+        data: [{ id: "al1" }, { id: "al2" }],
+        pagination: { page: 1, pages: 5, limit: 2, total: 10, has_next: true, has_prev: false },
+      }),
+    );
+
+    const ids: string[] = [];
+    const run = async () => {
+      for await (const alert of client.iterAlerts({ signal: controller.signal })) {
+        ids.push((alert as any).id);
+        controller.abort();
+      }
+    };
+    await expect(run()).rejects.toMatchObject({ name: "AbortError" });
+    expect(ids).toEqual(["al1"]);
+  });
+
+  test("iterAgents aborts the page request in flight with the signal's reason", async () => {
+    const controller = new AbortController();
+    const reason = new Error("stop");
+    const client = makeClient(
+      (req) =>
+        new Promise<Response>((_, reject) => {
+          req.signal?.addEventListener("abort", () => reject(req.signal?.reason));
+          controller.abort(reason);
+        }),
+      { retry: false },
+    );
+
+    const run = async () => {
+      for await (const _ of client.iterAgents({ signal: controller.signal })) {
+        /* unreachable */
+      }
+    };
+    await expect(run()).rejects.toBe(reason);
+  });
+
+  test("iterEvaluationCriteria stops on a short bare-array page", async () => {
+    let calls = 0;
+    const client = makeClient(() => {
+      calls++;
+      return jsonResponse([{ id: "crit1" }]);
+    });
+    const ids: string[] = [];
+    for await (const c of client.iterEvaluationCriteria("ag_1", { limit: 10 })) ids.push((c as any).id);
+    expect(ids).toEqual(["crit1"]);
+    expect(calls).toBe(1);
+  });
+});
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Timeouts
+// ─────────────────────────────────────────────────────────────────────────────
+
+describe("Timeouts", () => {
+  /** A fetch that never answers until its signal aborts. */
+  function stalledFetch(seen?: (init?: RequestInit) => void) {
+    return async (_input: RequestInfo | URL, init?: RequestInit): Promise<Response> => {
+      seen?.(init);
+      return await new Promise<Response>((_resolve, reject) => {
+        const abort = () => reject(new DOMException("aborted", "AbortError"));
+        if (init?.signal?.aborted) abort();
+        init?.signal?.addEventListener("abort", abort, { once: true });
+      });
+    };
+  }
+
+  test("client-wide timeoutMs raises SeclaiTimeoutError carrying method and URL", async () => {
+    const client = new Seclai({
+      apiKey: "k",
+      baseUrl: "https://test.invalid",
+      fetch: stalledFetch(),
+      timeoutMs: 5,
+    });
+    const err = await client.getAgent("ag_1").catch((e) => e);
+    expect(err).toBeInstanceOf(SeclaiTimeoutError);
+    expect(err).toBeInstanceOf(SeclaiError);
+    expect(err.method).toBe("GET");
+    expect(err.url).toBe("https://test.invalid/agents/ag_1");
+    expect(err.timeoutMs).toBe(5);
+  });
+
+  test("per-call timeoutMs overrides the client default", async () => {
+    const client = new Seclai({ apiKey: "k", baseUrl: "https://test.invalid", fetch: stalledFetch() });
+    await expect(client.requestRaw("GET", "/slow", { timeoutMs: 5 })).rejects.toBeInstanceOf(SeclaiTimeoutError);
+  });
+
+  test("a caller abort is not reported as a timeout", async () => {
+    const controller = new AbortController();
+    const client = new Seclai({
+      apiKey: "k",
+      baseUrl: "https://test.invalid",
+      fetch: stalledFetch(() => controller.abort()),
+      timeoutMs: 10_000,
+    });
+    const err = await client.request("GET", "/test", { signal: controller.signal }).catch((e) => e);
+    expect(err).not.toBeInstanceOf(SeclaiTimeoutError);
+    expect(err.name).toBe("AbortError");
+  });
+
+  test("timeoutMs: 0 disables the client default for one call", async () => {
+    let signal: AbortSignal | null | undefined;
+    const client = makeClient(
+      (req) => {
+        signal = req.signal;
+        return jsonResponse({ ok: true });
+      },
+      { timeoutMs: 5 },
+    );
+    await client.request("GET", "/test", { timeoutMs: 0 });
+    expect(signal).toBeNull();
+  });
+
+  test("the timeout spans retries", async () => {
+    let calls = 0;
+    const client = makeClient(
+      () => {
+        calls++;
+        return new Response("busy", { status: 503, headers: { "retry-after": "5" } });
+      },
+      { retry: { maxAttempts: 5 }, timeoutMs: 20 },
+    );
+    await expect(client.listAgents()).rejects.toBeInstanceOf(SeclaiTimeoutError);
+    expect(calls).toBe(1);
+  });
+});
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Middleware
+// ─────────────────────────────────────────────────────────────────────────────
+
+describe("Middleware", () => {
+  test("runs in order around the request and sees resolved headers", async () => {
+    const order: string[] = [];
+    let seenHeaders: Record<string, string> | undefined;
+    const client = makeClient(
+      (req) => {
+        order.push("fetch");
+        expect(req.headers["x-trace"]).toBe("t-1");
+        return jsonResponse({ ok: true });
+      },
+      {
+        middleware: [
+          async (ctx, next) => {
+            order.push("outer:before");
+            seenHeaders = ctx.headers;
+            const res = await next({ ...ctx, headers: { ...ctx.headers, "x-trace": "t-1" } });
+            order.push(`outer:after:${res.status}`);
+            return res;
+          },
+          async (ctx, next) => {
+            order.push(`inner:${ctx.method} ${ctx.url.pathname}`);
+            return next();
+          },
+        ],
+      },
+    );
+    await client.request("GET", "/test");
+    expect(seenHeaders?.["x-api-key"]).toBe("test-key");
+    expect(order).toEqual(["outer:before", "inner:GET /test", "fetch", "outer:after:200"]);
+  });
+
+  test("can short-circuit with a synthetic response", async () => {
+    let fetched = false;
+    const client = makeClient(
+      () => {
+        fetched = true;
+        return jsonResponse({});
+      },
+      { middleware: [async () => jsonResponse({ id: "ag_cached" })] },
+    );
+    expect(await client.getAgent("ag_cached")).toEqual({ id: "ag_cached" });
+    expect(fetched).toBe(false);
+  });
+
+  test("can rewrite the JSON body", async () => {
+    let body: string | undefined;
+    const client = makeClient(
+      (req) => {
+        body = req.bodyText;
+        return jsonResponse({ ok: true });
+      },
+      {
+        middleware: [
+          async (ctx, next) => {
+            const parsed = JSON.parse(ctx.body as string);
+            return next({ ...ctx, body: JSON.stringify({ ...parsed, injected: true }) });
+          },
+        ],
+      },
+    );
+    await client.request("POST", "/test", { json: { a: 1 } });
+    expect(JSON.parse(body!)).toEqual({ a: 1, injected: true });
+  });
+
+  test("runs once per retry attempt", async () => {
+    let seen = 0;
+    let calls = 0;
+    const client = makeClient(
+      () => (++calls < 3 ? new Response("busy", { status: 503 }) : jsonResponse({ ok: true })),
+      {
+        retry: { baseDelayMs: 1, jitter: false },
+        middleware: [async (_ctx, next) => { seen++; return next(); }],
+      },
+    );
+    await client.request("GET", "/test");
+    expect(seen).toBe(3);
+  });
+
+  test("wraps uploads and streaming runs", async () => {
+    const seen: string[] = [];
+    const client = makeClient(
+      (req) => {
+        if (req.url.includes("/upload")) return jsonResponse({ id: "c_1" });
+        return makeSseResponse(
+          [`event: done\ndata: ${JSON.stringify({ run_id: "run_1", status: "completed" })}\n\n`],
+          { signal: req.signal },
+        );
+      },
+      {
+        middleware: [
+          async (ctx, next) => {
+            seen.push(`${ctx.method} ${ctx.url.pathname} ${ctx.body instanceof FormData ? "form" : typeof ctx.body}`);
+            return next();
+          },
+        ],
+      },
+    );
+    await client.uploadFileToSource("src_1", { file: new Uint8Array([1]), fileName: "a.txt" });
+    for await (const _ of client.runStreamingAgent("ag_1", { input: "hi" } as any)) { /* drain */ }
+    expect(seen).toEqual([
+      "POST /sources/src_1/upload form",
+      "POST /agents/ag_1/runs/stream string",
+    ]);
+  });
+});
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Resumable streaming
+// ─────────────────────────────────────────────────────────────────────────────
+
+describe("Resumable streaming", () => {
+  /** An SSE body that delivers `chunks`, then fails like a dropped connection. */
+  function droppedSseResponse(chunks: string[]): Response {
+    const encoder = new TextEncoder();
+    const pending = [...chunks];
+    const stream = new ReadableStream<Uint8Array>({
+      pull(controller) {
+        const chunk = pending.shift();
+        if (chunk === undefined) controller.error(new TypeError("network connection lost"));
+        else controller.enqueue(encoder.encode(chunk));
+      },
+    });
+    return new Response(stream as any, { status: 200, headers: { "content-type": "text/event-stream" } });
+  }
+
+  const initChunk = `event: init\ndata: ${JSON.stringify({ run_id: "run_1", status: "processing" })}\n\n`;
+
+  function resumingClient(stream: () => Response, statuses: string[]) {
+    const polls: string[] = [];
+    const client = makeClient((req) => {
+      if (req.url.endsWith("/runs/stream")) return stream();
+      polls.push(req.url);
+      return jsonResponse({ run_id: "run_1", status: statuses.shift() ?? "completed", output: "ok" });
+    });
+    return { client, polls };
+  }
+
+  test("runStreamingAgent polls after a disconnect and yields a synthetic done", async () => {
+    const { client, polls } = resumingClient(() => droppedSseResponse([initChunk]), ["processing", "completed"]);
+
+    const events: { event: string; data: any }[] = [];
+    for await (const event of client.runStreamingAgent("ag_1", { input: "hi" } as any, { resume: true, pollIntervalMs: 1 })) {
+      events.push(event);
+    }
+
+    expect(events.map((e) => e.event)).toEqual(["init", "done"]);
+    expect(events[1].data).toMatchObject({ run_id: "run_1", status: "completed", output: "ok" });
+    expect(polls).toEqual(["https://test.invalid/agents/runs/run_1", "https://test.invalid/agents/runs/run_1"]);
+  });
+
+  test("runStreamingAgentAndWait resolves from polling when the stream ends early", async () => {
+    const { client } = resumingClient(() => makeSseResponse([initChunk]), []);
+    const run = await client.runStreamingAgentAndWait("ag_1", { input: "hi" } as any, { resume: true, pollIntervalMs: 1 });
+    expect(run.status).toBe("completed");
+  });
+
+  test("runStreamingAgentAndWait resumes after a disconnect", async () => {
+    const { client } = resumingClient(() => droppedSseResponse([initChunk]), ["failed"]);
+    const run = await client.runStreamingAgentAndWait("ag_1", { input: "hi" } as any, { resume: true, pollIntervalMs: 1 });
+    expect(run.status).toBe("failed");
+  });
+
+  test("a disconnect before init still throws", async () => {
+    const { client, polls } = resumingClient(() => droppedSseResponse([]), []);
+    const drain = async () => {
+      for await (const _ of client.runStreamingAgent("ag_1", { input: "hi" } as any, { resume: true })) { /* drain */ }
+    };
+    await expect(drain()).rejects.toThrow(/network connection lost/);
+    expect(polls).toEqual([]);
+  });
+
+  test("an error the consumer throws into the generator is not taken for a disconnect", async () => {
+    const { client, polls } = resumingClient(() => droppedSseResponse([initChunk]), []);
+    const gen = client.runStreamingAgent("ag_1", { input: "hi" } as any, { resume: true, pollIntervalMs: 1 });
+    expect((await gen.next()).value).toMatchObject({ event: "init" });
+    await expect(gen.throw(new Error("consumer gave up"))).rejects.toThrow("consumer gave up");
+    expect(polls).toEqual([]);
+  });
+
+  test("without resume a disconnect throws", async () => {
+    const { client } = resumingClient(() => droppedSseResponse([initChunk]), []);
+    await expect(
+      client.runStreamingAgentAndWait("ag_1", { input: "hi" } as any),
+    ).rejects.toThrow(/network connection lost/);
+  });
+});
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Typed run events
+// ─────────────────────────────────────────────────────────────────────────────
+
+describe("Typed run events", () => {
+  test("guards narrow the events yielded by runStreamingAgent", async () => {
+    const client = makeClient((req) =>
+      makeSseResponse(
+        [
+          `event: init\ndata: ${JSON.stringify({ run_id: "run_1", status: "processing" })}\n\n`,
+          `event: step\ndata: ${JSON.stringify({ agent_step_id: "s_1", step_type: "prompt_call", status: "completed" })}\n\n`,
+          `event: stream_token\ndata: ${JSON.stringify({ token: "Hel" })}\n\n`,
+          `event: stream_token\ndata: ${JSON.stringify({ token: "lo" })}\n\n`,
+          `event: status\ndata: ${JSON.stringify({ status: "processing" })}\n\n`,
+          `event: done\ndata: ${JSON.stringify({ run_id: "run_1", status: "completed", output: "Hello" })}\n\n`,
+        ],
+        { signal: req.signal },
+      ),
+    );
+
+    let runId = "";
+    let tokens = "";
+    const steps: string[] = [];
+    let output: string | null = null;
+    const other: string[] = [];
+    for await (const e of client.runStreamingAgent("ag_1", { input: "hi" } as any)) {
+      if (isInitEvent(e)) runId = e.data.run_id;
+      else if (isStepEvent(e)) steps.push(e.data.step_type);
+      else if (isStreamTokenEvent(e)) tokens += e.data.token;
+      else if (isDoneEvent(e)) output = e.data.output;
+      else other.push(e.event);
+    }
+
+    expect(runId).toBe("run_1");
+    expect(steps).toEqual(["prompt_call"]);
+    expect(tokens).toBe("Hello");
+    expect(output).toBe("Hello");
+    expect(other).toEqual(["status"]);
+  });
+
+  test("guards reject payloads that are not objects", () => {
+    expect(isStepEvent({ event: "step", data: "not json" })).toBe(false);
+    expect(isStreamTokenEvent({ event: "stream_token", data: { text: "x" } })).toBe(false);
+    expect(isErrorEvent({ event: "error", data: { run_id: "run_1" } })).toBe(true);
+  });
+});
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Streaming text
+// ─────────────────────────────────────────────────────────────────────────────
+
+describe("Streaming text", () => {
+  const sse = (event: string, data: unknown) => `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
+  const chunks = [
+    sse("init", { run_id: "run_1", status: "processing" }),
+    sse("stream_token", { token: "Hel" }),
+    sse("stream_token", { token: "lo" }),
+    sse("stream_end", { run_id: "run_1" }),
+    sse("stream_token", { token: "Bye" }),
+    sse("stream_end", { run_id: "run_1" }),
+    sse("done", { run_id: "run_1", status: "completed", output: "Hello" }),
+  ];
+
+  test("yields deltas with per-step accumulated text and resolves the final run", async () => {
+    const client = makeClient((req) => makeSseResponse(chunks, { signal: req.signal }));
+    const stream = client.streamAgentText("ag_1", { input: "hi" } as any);
+
+    const deltas = [];
+    for await (const d of stream) deltas.push(d);
+
+    expect(deltas).toEqual([
+      { delta: "Hel", step: 0, text: "Hel" },
+      { delta: "lo", step: 0, text: "Hello" },
+      { delta: "Bye", step: 1, text: "Bye" },
+    ]);
+    expect(stream.steps).toEqual(["Hello", "Bye"]);
+    expect(stream.text).toBe("HelloBye");
+    expect((await stream.finalRun()).output).toBe("Hello");
+  });
+
+  test("finalRun drains an unconsumed stream", async () => {
+    const client = makeClient((req) => makeSseResponse(chunks, { signal: req.signal }));
+    const stream = client.streamAgentText("ag_1", { input: "hi" } as any);
+    expect((await stream.finalRun()).status).toBe("completed");
+    expect(stream.steps).toEqual(["Hello", "Bye"]);
+  });
+
+  test("toReadableStream emits the deltas", async () => {
+    const client = makeClient((req) => makeSseResponse(chunks, { signal: req.signal }));
+    const readable = client.streamAgentText("ag_1", { input: "hi" } as any).toReadableStream();
+    const text = await new Response(readable.pipeThrough(new TextEncoderStream())).text();
+    expect(text).toBe("HelloBye");
+  });
+
+  test("finalRun rejects when the stream ends without done", async () => {
+    const client = makeClient((req) => makeSseResponse(chunks.slice(0, 3), { signal: req.signal }));
+    const stream = client.streamAgentText("ag_1", { input: "hi" } as any);
+    await expect(stream.finalRun()).rejects.toBeInstanceOf(SeclaiStreamingError);
+  });
+
+  test("can only be consumed once", async () => {
+    const client = makeClient((req) => makeSseResponse(chunks, { signal: req.signal }));
+    const stream = client.streamAgentText("ag_1", { input: "hi" } as any);
+    await stream.finalRun();
+    await expect(stream[Symbol.asyncIterator]().next()).rejects.toThrow(/only be consumed once/);
+  });
+});
+
+// ─────────────────────────────────────────────────────────────────────────────
+// RunStream
+// ─────────────────────────────────────────────────────────────────────────────
+
+describe("RunStream", () => {
+  const sse = (event: string, data: unknown) => `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
+  const chunks = [
+    sse("init", { run_id: "run_1", status: "processing" }),
+    sse("step", { agent_step_id: "s_1", step_type: "prompt_call", status: "completed" }),
+    sse("stream_token", { token: "Hi" }),
+    sse("done", { run_id: "run_1", status: "completed", output: "Hi" }),
+  ];
+
+  test("emits typed callbacks and resolves finalRun", async () => {
+    const client = makeClient((req) => makeSseResponse(chunks, { signal: req.signal }));
+    const seen: string[] = [];
+    const stream = client.agents
+      .stream("ag_1", { input: "hi" } as any)
+      .on("step", (step) => seen.push(`step:${step.step_type}`))
+      .on("token", (token) => seen.push(`token:${token}`))
+      .on("done", (run) => seen.push(`done:${run.output}`));
+
+    const run = await stream.finalRun();
+    expect(run.status).toBe("completed");
+    expect(stream.runId).toBe("run_1");
+    expect(seen).toEqual(["step:prompt_call", "token:Hi", "done:Hi"]);
+  });
+
+  test("is async-iterable and buffers events for a late iterator", async () => {
+    const client = makeClient((req) => makeSseResponse(chunks, { signal: req.signal }));
+    const stream = client.streamAgentRun("ag_1", { input: "hi" } as any);
+    await stream.finalRun();
+    const events: string[] = [];
+    for await (const e of stream) events.push(e.event);
+    expect(events).toEqual(["init", "step", "stream_token", "done"]);
+  });
+
+  test("keeps no events for a late iterator past the buffer limit", async () => {
+    const many = [chunks[0]!, ...Array.from({ length: 1_000 }, () => chunks[2]!), chunks[3]!];
+    const client = makeClient((req) => makeSseResponse(many, { signal: req.signal }));
+
+    const early = client.streamAgentRun("ag_1", { input: "hi" } as any);
+    let count = 0;
+    for await (const _ of early) count++;
+    expect(count).toBe(many.length);
+
+    const late = client.streamAgentRun("ag_1", { input: "hi" } as any);
+    await late.finalRun();
+    await expect(async () => {
+      for await (const _ of late) { /* unreachable */ }
+    }).rejects.toThrow(SeclaiError);
+  });
+
+  test("reports a stream without done to error listeners and finalRun", async () => {
+    const client = makeClient((req) => makeSseResponse(chunks.slice(0, 2), { signal: req.signal }));
+    const errors: unknown[] = [];
+    const stream = client.agents.stream("ag_1", { input: "hi" } as any).on("error", (err) => errors.push(err));
+    await expect(stream.finalRun()).rejects.toBeInstanceOf(SeclaiStreamingError);
+    expect(errors).toHaveLength(1);
+  });
+
+  test("abort() closes the connection", async () => {
+    let signal: AbortSignal | null | undefined;
+    const client = makeClient((req) => {
+      signal = req.signal;
+      return new Promise<Response>((_, reject) => {
+        const fail = () => reject(new DOMException("aborted", "AbortError"));
+        if (req.signal?.aborted) fail();
+        else req.signal?.addEventListener("abort", fail, { once: true });
+      });
+    });
+    const stream = client.agents.stream("ag_1", { input: "hi" } as any);
+    stream.abort();
+    await expect(stream.finalRun()).rejects.toMatchObject({ name: "AbortError" });
+    expect(signal?.aborted).toBe(true);
+  });
+});
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Resource namespaces
+// ─────────────────────────────────────────────────────────────────────────────
+
+describe("Resource namespaces", () => {
+  test("are created on first access and reused", () => {
+    const client = makeClient(() => jsonResponse({}));
+    expect(client.agents).toBe(client.agents);
+    expect(client.sources.exports).toBe(client.sources.exports);
+  });
+
+  test("delegate to the same endpoints as the flat methods", async () => {
+    const seen: string[] = [];
+    const client = makeClient((req) => {
+      seen.push(`${req.method} ${new URL(req.url).pathname}`);
+      return jsonResponse({ data: [], pagination: { has_next: false } });
+    });
+
+    await client.agents.runs.create("ag_1", { input: "hi" } as any);
+    await client.agents.runs.get("run_1");
+    await client.agents.definition.get("ag_1");
+    await client.agents.evaluations.criteria.list("ag_1");
+    await client.sources.exports.list("src_1", { page: 2 });
+    await client.solutions.links.linkKnowledgeBases("sol_1", { ids: ["kb_1"] } as any);
+    await client.alerts.configs.delete("cfg_1");
+    await client.models.alerts.markAllRead();
+    await client.email.domains.list();
+
+    expect(seen).toEqual([
+      "POST /agents/ag_1/runs",
+      "GET /agents/runs/run_1",
+      "GET /agents/ag_1/definition",
+      "GET /agents/ag_1/evaluation-criteria",
+      "GET /sources/src_1/exports",
+      "POST /solutions/sol_1/knowledge-bases",
+      "DELETE /alerts/configs/cfg_1",
+      "POST /models/alerts/mark-all-read",
+      "GET /email-domains",
+    ]);
+  });
+
+  test("namespace iterators paginate", async () => {
+    const client = makeClient(() => jsonResponse({ data: [{ id: "ag_1" }], pagination: { has_next: false } }));
+    const ids: string[] = [];
+    for await (const agent of client.agents.iter()) ids.push((agent as any).id);
+    expect(ids).toEqual(["ag_1"]);
+  });
+});
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Status error subclasses
+// ─────────────────────────────────────────────────────────────────────────────
+
+describe("Status error subclasses", () => {
+  test.each([
+    [401, SeclaiAuthenticationError],
+    [403, SeclaiPermissionDeniedError],
+    [404, SeclaiNotFoundError],
+    [409, SeclaiConflictError],
+    [429, SeclaiRateLimitError],
+    [500, SeclaiServerError],
+    [503, SeclaiServerError],
+  ])("HTTP %i throws %o with the parsed detail", async (status, cls) => {
+    const client = makeClient(() => jsonResponse({ detail: "Nope" }, status));
+    const err: any = await client.getAgent("ag_1").catch((e) => e);
+    expect(err).toBeInstanceOf(cls);
+    expect(err).toBeInstanceOf(SeclaiAPIStatusError);
+    expect(err.name).toBe(cls.name);
+    expect(err.statusCode).toBe(status);
+    expect(err.detail).toBe("Nope");
+  });
+
+  test("other statuses keep the base class", async () => {
+    const client = makeClient(() => new Response("teapot", { status: 418 }));
+    const err: any = await client.getAgent("ag_1").catch((e) => e);
+    expect(err.constructor).toBe(SeclaiAPIStatusError);
+    expect(err.detail).toBeUndefined();
+  });
+
+  test("rate limit errors expose Retry-After in ms", async () => {
+    const client = makeClient(
+      () => new Response(JSON.stringify({ detail: { reason: "burst" } }), {
+        status: 429,
+        headers: { "content-type": "application/json", "retry-after": "7" },
+      }),
+    );
+    const err: any = await client.listAgents().catch((e) => e);
+    expect(err).toBeInstanceOf(SeclaiRateLimitError);
+    expect(err.retryAfter).toBe(7_000);
+    expect(err.detail).toEqual({ reason: "burst" });
+  });
+
+  test("streaming and upload failures use the subclasses too", async () => {
+    const client = makeClient(() => jsonResponse({ detail: "Agent not found" }, 404));
+    await expect(
+      client.runStreamingAgentAndWait("ag_1", { input: "hi" } as any),
+    ).rejects.toBeInstanceOf(SeclaiNotFoundError);
+    await expect(
+      client.uploadFileToSource("src_1", { file: new Uint8Array([1]), fileName: "a.txt" }),
+    ).rejects.toBeInstanceOf(SeclaiNotFoundError);
+  });
+});
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Insufficient credits
+// ─────────────────────────────────────────────────────────────────────────────
+
+describe("Insufficient credits", () => {
+  const payload = {
+    detail: { error: "insufficient_credits", message: "Account has no credits left.", account_id: "acct_1" },
+  };
+
+  test.each([
+    ["runAgent", (c: Seclai) => c.runAgent("ag_1", { input: "hi" } as any)],
+    ["createExperiment", (c: Seclai) => c.createExperiment({} as any)],
+    ["createSourceExport", (c: Seclai) => c.createSourceExport("src_1", { format: "json" } as any)],
+    ["runStreamingAgentAndWait", (c: Seclai) => c.runStreamingAgentAndWait("ag_1", { input: "hi" } as any)],
+  ])("%s throws SeclaiInsufficientCreditsError", async (_name, call) => {
+    const client = makeClient(() => jsonResponse(payload, 402));
+    const err: any = await call(client).catch((e) => e);
+    expect(err).toBeInstanceOf(SeclaiInsufficientCreditsError);
+    expect(err).toBeInstanceOf(SeclaiAPIStatusError);
+    expect(err.statusCode).toBe(402);
+    expect(err.accountId).toBe("acct_1");
+    expect(err.detail).toEqual(payload.detail);
+    expect(err.message).toBe("Account has no credits left.");
+  });
+
+  test("a 402 without the payload stays a plain status error", async () => {
+    const client = makeClient(() => jsonResponse({ detail: "Payment required" }, 402));
+    const err: any = await client.runAgent("ag_1", { input: "hi" } as any).catch((e) => e);
+    expect(err.constructor).toBe(SeclaiAPIStatusError);
+    expect(err.detail).toBe("Payment required");
+  });
+});
+
+// ─────────────────────────────────────────────────────────────────────────────
+// modifyAgentDefinition
+// ─────────────────────────────────────────────────────────────────────────────
+
+describe("modifyAgentDefinition", () => {
+  function definitionServer(conflicts: number) {
+    let changeId = 1;
+    let definition: Record<string, unknown> = { name: "a", steps: [] };
+    const puts: any[] = [];
+    const client = makeClient((req) => {
+      if (req.method === "GET") {
+        return jsonResponse({ change_id: `c${changeId}`, definition, schema_version: "1" });
+      }
+      const body = JSON.parse(req.bodyText!);
+      puts.push(body);
+      if (conflicts > 0) {
+        conflicts--;
+        changeId++; // someone else saved in between
+        return jsonResponse({ detail: "Definition changed" }, 409);
+      }
+      definition = body.definition;
+      changeId++;
+      return jsonResponse({
+        change_id: `c${changeId}`,
+        definition,
+        schema_version: "1",
+        warnings: [{ step: "s_1" }],
+      });
+    });
+    return { client, puts };
+  }
+
+  test("submits the mutated definition with the current change id", async () => {
+    const { client, puts } = definitionServer(0);
+    const res = await client.modifyAgentDefinition("ag_1", (def) => ({ ...def, name: "b" }));
+    expect(puts).toEqual([{ definition: { name: "b", steps: [] }, expected_change_id: "c1" }]);
+    expect(res.warnings).toEqual([{ step: "s_1" }]);
+  });
+
+  test("refetches and reapplies on conflict", async () => {
+    const { client, puts } = definitionServer(2);
+    let calls = 0;
+    await client.agents.definition.modify("ag_1", (def) => {
+      calls++;
+      return { ...def, name: "b" };
+    });
+    expect(calls).toBe(3);
+    expect(puts.map((p) => p.expected_change_id)).toEqual(["c1", "c2", "c3"]);
+  });
+
+  test("gives up after maxAttempts", async () => {
+    const { client, puts } = definitionServer(5);
+    await expect(
+      client.modifyAgentDefinition("ag_1", (def) => def, { maxAttempts: 2 }),
+    ).rejects.toBeInstanceOf(SeclaiConflictError);
+    expect(puts).toHaveLength(2);
+  });
+
+  test("the mutator gets a copy of the fetched definition", async () => {
+    const { client } = definitionServer(0);
+    let untouched: unknown;
+    await client.modifyAgentDefinition("ag_1", (def, current) => {
+      (def.steps as unknown[]).push({ id: "s_new" });
+      untouched = current.definition.steps;
+      return def;
+    });
+    expect(untouched).toEqual([]);
+  });
+});
+
+// ─── Agent definition builder ───────────────────────────────────────────────
+
+describe("agent definition builder", () => {
+  test("then() chains each step under the previous one", () => {
+    const def = defineAgent(
+      { name: "Summarizer", tags: ["demo"] },
+      steps
+        .retrieval({ id: "search" })
+        .then(steps.promptCall({ id: "answer", name: "Answer", model: "m" }))
+        .then(steps.displayResult({ id: "show" })),
+    );
+    expect(def).toEqual({
+      name: "Summarizer",
+      tags: ["demo"],
+      child_steps: [
+        {
+          id: "search",
+          step_type: "retrieval",
+          child_steps: [
+            {
+              id: "answer",
+              name: "Answer",
+              model: "m",
+              step_type: "prompt_call",
+              child_steps: [{ id: "show", step_type: "display_result" }],
+            },
+          ],
+        },
+      ],
+    });
+  });
+
+  test("fanOut() adds parallel children and generates missing ids", () => {
+    const root = steps.promptCall({ id: "p" }).fanOut(steps.streamingResult(), steps.text()).build();
+    expect(root.child_steps?.map((s) => s.step_type)).toEqual(["streaming_result", "text"]);
+    expect(root.child_steps?.[0]?.id).toMatch(/^[0-9a-f-]{36}$/);
+    expect(root.child_steps?.[0]?.id).not.toBe(root.child_steps?.[1]?.id);
+  });
+
+  test("then() and fanOut() copy the steps they extend, so a chain can be reused", () => {
+    const base = steps.retrieval({ id: "r" }).then(steps.promptCall({ id: "p" }));
+    const built = base.build();
+    const a = base.then(steps.text({ id: "a" })).build();
+    const b = base.fanOut(steps.text({ id: "b" }), steps.merge({ id: "m" })).build();
+
+    expect(built).toEqual({ id: "r", step_type: "retrieval", child_steps: [{ id: "p", step_type: "prompt_call" }] });
+    expect(a.child_steps?.[0]?.child_steps?.map((s) => s.id)).toEqual(["a"]);
+    expect(b.child_steps?.[0]?.child_steps?.map((s) => s.id)).toEqual(["b", "m"]);
+    expect(a).not.toBe(built);
+  });
+
+  test("branching steps take chains for their branches", () => {
+    const step = steps
+      .switch({
+        id: "route",
+        cases: [{ match: ["a", "b"], steps: [steps.text({ id: "t1" })] }],
+        else_steps: [steps.text({ id: "t2" })],
+      })
+      .then(steps.join({ id: "j" }))
+      .build();
+    expect(step).toEqual({
+      id: "route",
+      step_type: "switch",
+      cases: [{ match: ["a", "b"], steps: [{ id: "t1", step_type: "text" }] }],
+      else_steps: [{ id: "t2", step_type: "text" }],
+      child_steps: [{ id: "j", step_type: "join" }],
+    });
+    const ifElse = steps.ifElse({ id: "c", conditions: [], then_steps: [steps.merge({ id: "m" })] }).build();
+    expect(ifElse).toEqual({ id: "c", step_type: "if_else", conditions: [], then_steps: [{ id: "m", step_type: "merge" }] });
+  });
+
+  test("rejects children under non-composite steps", () => {
+    const leaf = steps.retry({ target_step_id: "p", max_retries: 2 });
+    // @ts-expect-error retry steps cannot have children
+    expect(() => leaf.then(steps.text())).toThrow(SeclaiError);
+  });
+
+  test("the built definition is accepted by updateAgentDefinition", async () => {
+    let sent: unknown;
+    const client = makeClient((req) => {
+      sent = JSON.parse(req.bodyText!);
+      return jsonResponse({ change_id: "c2", definition: {}, schema_version: "1" });
+    });
+    const definition = defineAgent({}, steps.loadContent({ id: "l" }));
+    await client.updateAgentDefinition("ag_1", { definition, expected_change_id: "c1" });
+    expect(sent).toEqual({ definition: { child_steps: [{ id: "l", step_type: "load_content" }] }, expected_change_id: "c1" });
+  });
+});
+
+// ─── Agent definition validation ────────────────────────────────────────────
+
+describe("validateAgentDefinition", () => {
+  test("accepts a well-formed definition", () => {
+    const def = defineAgent(
+      {},
+      steps
+        .promptCall({ id: "p" })
+        .fanOut(steps.streamingResult(), steps.retry({ target_step_id: "p", max_retries: 3 })),
+    );
+    expect(validateAgentDefinition(def)).toEqual([]);
+  });
+
+  test("reports output steps anywhere inside a branch", () => {
+    const def = defineAgent(
+      {},
+      steps.ifElse({
+        conditions: [],
+        then_steps: [steps.text().then(steps.displayResult({ id: "d" }))],
+        else_steps: [steps.promptCall().then(steps.streamingResult({ id: "s" }))],
+      }),
+    );
+    const issues = validateAgentDefinition(def);
+    expect(issues.map((i) => [i.code, i.path, i.stepId])).toEqual([
+      ["output_in_branch", "child_steps[0].then_steps[0].child_steps[0]", "d"],
+      ["output_in_branch", "child_steps[0].else_steps[0].child_steps[0]", "s"],
+    ]);
+  });
+
+  test("checks streaming_result placement, retry targets and non-composite children", () => {
+    const issues = validateAgentDefinition({
+      child_steps: [
+        { id: "s", step_type: "streaming_result" },
+        {
+          id: "t",
+          step_type: "text",
+          child_steps: [
+            { id: "r", step_type: "retry", target_step_id: "elsewhere", max_retries: 11 },
+            { id: "j", step_type: "join", child_steps: [{ id: "x", step_type: "text" }] },
+          ],
+        },
+        { id: "c", step_type: "switch", cases: [{ match: "a", steps: [{ name: "no type" }] }] },
+      ],
+    });
+    expect(issues.map((i) => [i.code, i.path])).toEqual([
+      ["streaming_result_parent", "child_steps[0]"],
+      ["retry_target", "child_steps[1].child_steps[0].target_step_id"],
+      ["max_retries", "child_steps[1].child_steps[0].max_retries"],
+      ["non_composite_children", "child_steps[1].child_steps[1].child_steps"],
+      ["invalid_structure", "child_steps[2].cases[0].steps[0].step_type"],
+    ]);
+  });
+
+  test("validate option rejects before sending", async () => {
+    let calls = 0;
+    const client = makeClient(() => {
+      calls++;
+      return jsonResponse({});
+    });
+    const definition = { child_steps: [{ id: "s", step_type: "streaming_result" }] };
+    const err = await client
+      .updateAgentDefinition("ag_1", { definition, expected_change_id: "c1" }, { validate: true })
+      .catch((e) => e);
+    expect(err).toBeInstanceOf(SeclaiDefinitionValidationError);
+    expect(err.issues[0].path).toBe("child_steps[0]");
+    await expect(
+      client.createAgent(
+        { name: "a", trigger_type: "dynamic_input", agent_definition: { agent: { definition } } },
+        { validate: true },
+      ),
+    ).rejects.toBeInstanceOf(SeclaiDefinitionValidationError);
+    expect(calls).toBe(0);
+
+    await client.updateAgentDefinition("ag_1", { definition, expected_change_id: "c1" });
+    expect(calls).toBe(1);
+  });
+});
+
+// ─── Agent definition diff / merge ──────────────────────────────────────────
+
+describe("diffAgentDefinitions / mergeAgentDefinitions", () => {
+  const base = {
+    name: "bot",
+    child_steps: [
+      {
+        id: "p",
+        step_type: "prompt_call",
+        prompt: "v1",
+        child_steps: [
+          { id: "a", step_type: "text" },
+          { id: "b", step_type: "text" },
+          { id: "c", step_type: "text" },
+        ],
+      },
+      { id: "g", step_type: "gate", child_steps: [] },
+    ],
+  };
+  const clone = () => structuredClone(base) as any;
+
+  test("reports nothing for identical definitions, ignoring key order", () => {
+    const reordered = { child_steps: base.child_steps, name: "bot" };
+    expect(diffAgentDefinitions(base, reordered)).toEqual({
+      added: [],
+      removed: [],
+      moved: [],
+      modified: [],
+      metadata: [],
+    });
+  });
+
+  test("reports added, removed, moved and modified steps by id", () => {
+    const next = clone();
+    next.description = "new";
+    next.child_steps[0].prompt = "v2";
+    next.child_steps[0].child_steps = [
+      { id: "x", step_type: "text" },
+      { id: "c", step_type: "text" },
+      { id: "a", step_type: "text" },
+    ];
+    next.child_steps[1].child_steps.push({ id: "b", step_type: "text" });
+
+    const diff = diffAgentDefinitions(base, next);
+    expect(diff.metadata).toEqual([{ field: "description", before: undefined, after: "new" }]);
+    expect(diff.added.map((s) => [s.id, s.position.path])).toEqual([["x", "child_steps[0].child_steps[0]"]]);
+    expect(diff.removed).toEqual([]);
+    expect(diff.modified).toEqual([
+      expect.objectContaining({ id: "p", changes: [{ field: "prompt", before: "v1", after: "v2" }] }),
+    ]);
+    // b changed parent; of a and c, only one needs to move to explain the swap
+    expect(diff.moved).toHaveLength(2);
+    expect(diff.moved.find((m) => m.id === "b")).toMatchObject({
+      from: { parentId: "p", slot: "child_steps", index: 1 },
+      to: { parentId: "g", slot: "child_steps", index: 0 },
+    });
+  });
+
+  test("merges non-overlapping edits from both sides", () => {
+    const ours = clone();
+    ours.child_steps[0].prompt = "v2";
+    ours.child_steps[0].child_steps.push({ id: "d", step_type: "text" });
+    const theirs = clone();
+    theirs.name = "renamed";
+    theirs.child_steps[0].child_steps.splice(1, 1); // remove b
+    theirs.child_steps[1].child_steps.push({ id: "h", step_type: "join" });
+
+    const { definition, conflicts } = mergeAgentDefinitions(base, ours, theirs);
+    expect(conflicts).toEqual([]);
+    expect(definition).toEqual({
+      name: "renamed",
+      child_steps: [
+        {
+          id: "p",
+          step_type: "prompt_call",
+          prompt: "v2",
+          child_steps: [
+            { id: "a", step_type: "text" },
+            { id: "c", step_type: "text" },
+            { id: "d", step_type: "text" },
+          ],
+        },
+        { id: "g", step_type: "gate", child_steps: [{ id: "h", step_type: "join" }] },
+      ],
+    });
+  });
+
+  test("reports conflicts and resolves them toward the preferred side", () => {
+    const ours = clone();
+    ours.child_steps[0].prompt = "mine";
+    ours.child_steps[0].child_steps[0].note = "kept";
+    const theirs = clone();
+    theirs.child_steps[0].prompt = "yours";
+    theirs.child_steps[0].child_steps.shift(); // remove a, which ours edited
+
+    const mine = mergeAgentDefinitions(base, ours, theirs);
+    expect(mine.conflicts.map((c) => [c.kind, c.stepId, c.field])).toEqual([
+      ["field", "p", "prompt"],
+      ["delete_modify", "a", undefined],
+    ]);
+    expect(mine.definition.child_steps[0]).toMatchObject({ prompt: "mine" });
+    expect(mine.definition.child_steps[0]!.child_steps!.map((s) => s.id)).toEqual(["a", "b", "c"]);
+
+    const yours = mergeAgentDefinitions(base, ours, theirs, { prefer: "theirs" });
+    expect(yours.definition.child_steps[0]).toMatchObject({ prompt: "yours" });
+    expect(yours.definition.child_steps[0]!.child_steps!.map((s) => s.id)).toEqual(["b", "c"]);
+  });
+
+  test("keys switch cases by match, so removing one keeps edits to the others", () => {
+    const switchBase = {
+      child_steps: [
+        {
+          id: "sw",
+          step_type: "switch",
+          cases: [
+            { match: "billing", steps: [{ id: "s1", step_type: "text" }] },
+            { match: "support", steps: [{ id: "s2", step_type: "text" }] },
+          ],
+        },
+      ],
+    };
+    const ours = structuredClone(switchBase) as any;
+    ours.child_steps[0].cases[1].steps.push({ id: "s3", step_type: "text" });
+    const theirs = structuredClone(switchBase) as any;
+    theirs.child_steps[0].cases.shift();
+
+    const { definition, conflicts } = mergeAgentDefinitions(switchBase, ours, theirs);
+    expect(conflicts).toEqual([]);
+    expect(definition.child_steps[0]!["cases"]).toEqual([
+      {
+        match: "support",
+        steps: [
+          { id: "s2", step_type: "text" },
+          { id: "s3", step_type: "text" },
+        ],
+      },
+    ]);
+    expect(diffAgentDefinitions(switchBase, theirs).moved).toEqual([]);
+  });
+
+  test("requires step ids", () => {
+    expect(() => diffAgentDefinitions({ child_steps: [{ step_type: "text" }] }, base)).toThrow(SeclaiError);
+  });
+});
+
+// ─── Agents as code ─────────────────────────────────────────────────────────
+
+describe("planAgentSync / applyAgentSync", () => {
+  const exportOf = (name: string, steps: unknown[]) => ({
+    agent: { name, definition: { child_steps: steps } },
+  });
+  const kbStep = (kb: string) => ({ id: "r", step_type: "retrieval", knowledge_base_id: kb });
+  const files = [
+    { path: "changed.json", payload: exportOf("changed", [kbStep("kb_dev")]) },
+    { path: "new.json", payload: exportOf("new", [kbStep("kb_dev")]) },
+    { path: "same.json", payload: exportOf("same", [{ id: "t", step_type: "text" }]) },
+  ];
+
+  function accountServer(opts: { conflict?: boolean } = {}) {
+    const writes: { method: string; path: string; body: any }[] = [];
+    const client = makeClient((req) => {
+      const { pathname } = new URL(req.url);
+      if (req.method === "GET" && pathname === "/agents") {
+        return jsonResponse({
+          data: [
+            { id: "ag_changed", name: "changed" },
+            { id: "ag_same", name: "same" },
+          ],
+          pagination: { page: 1, limit: 50, total: 2, pages: 1, has_next: false, has_prev: false },
+        });
+      }
+      if (pathname === "/agents/preview-import") {
+        return jsonResponse({
+          ok: true,
+          unresolved_refs: [
+            { category: "knowledge_base", ref_id: "kb_dev", ref_name: "Docs", locations: ["step:r"], alternatives: [] },
+          ],
+        });
+      }
+      if (req.method === "GET" && pathname === "/agents/ag_changed/definition") {
+        return jsonResponse({ change_id: "c7", definition: { child_steps: [kbStep("kb_old")] }, schema_version: "1" });
+      }
+      if (req.method === "GET" && pathname === "/agents/ag_same/definition") {
+        return jsonResponse({ change_id: "c3", definition: { child_steps: [{ id: "t", step_type: "text" }] }, schema_version: "1" });
+      }
+      writes.push({ method: req.method, path: pathname, body: JSON.parse(req.bodyText!) });
+      if (req.method === "PUT" && opts.conflict) return jsonResponse({ detail: "changed" }, 409);
+      if (req.method === "POST") return jsonResponse({ id: "ag_new", name: "new" });
+      return jsonResponse({ change_id: "c8", definition: {}, schema_version: "1" });
+    });
+    return { client, writes };
+  }
+
+  test("plans creates, updates and unchanged agents by name", async () => {
+    const { client, writes } = accountServer();
+    const plan = await client.planAgentSync(files);
+    expect(plan.changes.map((c) => [c.name, c.action, c.agentId, c.expectedChangeId])).toEqual([
+      ["changed", "update", "ag_changed", "c7"],
+      ["new", "create", undefined, undefined],
+      ["same", "noop", "ag_same", "c3"],
+    ]);
+    expect(plan.changes[0]!.diff!.modified[0]!.changes).toEqual([
+      { field: "knowledge_base_id", before: "kb_old", after: "kb_dev" },
+    ]);
+    expect(plan.changes[1]!.unresolvedRefs.map((r) => r.ref_id)).toEqual(["kb_dev"]);
+    expect(writes).toEqual([]);
+  });
+
+  test("refuses to apply a plan with unresolved references", async () => {
+    const { client, writes } = accountServer();
+    const plan = await client.planAgentSync(files);
+    await expect(client.applyAgentSync(plan)).rejects.toThrow(/Unresolved references in changed, new, same/);
+    expect(writes).toEqual([]);
+  });
+
+  test("applies with the entity remap and optimistic locking", async () => {
+    const { client, writes } = accountServer();
+    const plan = await client.agents.planSync(files, { entityRemap: { kb_dev: "kb_prod" } });
+    expect(plan.changes.every((c) => c.unresolvedRefs.length === 0)).toBe(true);
+
+    const results = await client.agents.applySync(plan);
+    expect(results.map((r) => [r.name, r.status, r.agentId])).toEqual([
+      ["changed", "updated", "ag_changed"],
+      ["new", "created", "ag_new"],
+      ["same", "unchanged", "ag_same"],
+    ]);
+    expect(writes).toEqual([
+      {
+        method: "PUT",
+        path: "/agents/ag_changed/definition",
+        body: { definition: { child_steps: [kbStep("kb_prod")] }, expected_change_id: "c7" },
+      },
+      {
+        method: "POST",
+        path: "/agents",
+        body: {
+          name: "new",
+          trigger_type: "dynamic_input",
+          agent_definition: exportOf("new", [kbStep("kb_dev")]),
+          entity_remap: { kb_dev: "kb_prod" },
+        },
+      },
+    ]);
+  });
+
+  test("stops at the first failure", async () => {
+    const { client, writes } = accountServer({ conflict: true });
+    const plan = await client.planAgentSync(files, { entityRemap: { kb_dev: "kb_prod" } });
+    const results = await client.applyAgentSync(plan);
+    expect(results.map((r) => r.status)).toEqual(["failed", "skipped", "skipped"]);
+    expect(results[0]!.error).toBeInstanceOf(SeclaiConflictError);
+    expect(writes).toHaveLength(1);
+  });
+
+  test("loadAgentFiles reads *.json exports in name order", async () => {
+    const dir = mkdtempSync(join(tmpdir(), "seclai-agents-"));
+    try {
+      writeFileSync(join(dir, "b.json"), JSON.stringify(exportOf("b", [])));
+      writeFileSync(join(dir, "a.json"), JSON.stringify(exportOf("a", [])));
+      writeFileSync(join(dir, "notes.txt"), "ignored");
+      const loaded = await loadAgentFiles(dir);
+      expect(loaded.map((f) => [f.path, f.payload.agent["name"]])).toEqual([
+        [join(dir, "a.json"), "a"],
+        [join(dir, "b.json"), "b"],
+      ]);
+
+      writeFileSync(join(dir, "c.json"), JSON.stringify({ agent: { name: "a", definition: {} } }));
+      await expect(loadAgentFiles(dir)).rejects.toThrow(/both define agent "a"/);
+      writeFileSync(join(dir, "c.json"), JSON.stringify({ name: "c" }));
+      await expect(loadAgentFiles(dir)).rejects.toThrow(/not an agent export/);
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
+
+// ─── Cross-account migration ────────────────────────────────────────────────
+
+describe("migrateAgent", () => {
+  const page = (data: unknown[]) =>
+    jsonResponse({ data, pagination: { page: 1, limit: 50, total: data.length, pages: 1, has_next: false, has_prev: false } });
+  const ref = (category: string, ref_id: string, ref_name: string, alternatives: { id: string; name: string }[] = []) => ({
+    category,
+    ref_id,
+    ref_name,
+    locations: ["step:s1"],
+    alternatives,
+  });
+
+  const exports: Record<string, unknown> = {
+    ag_main: { agent: { name: "Main", trigger_type: "schedule", definition: { child_steps: [] } } },
+    ag_sub: { agent: { name: "Helper", definition: { child_steps: [] } } },
+  };
+  const source = makeClient((req) => {
+    const { pathname } = new URL(req.url);
+    const exported = /^\/agents\/(\w+)\/export$/.exec(pathname);
+    if (exported) return jsonResponse(exports[exported[1]!]);
+    if (pathname === "/memory_banks/mb_src") {
+      return jsonResponse({ id: "mb_src", name: "Mem", mode: "balanced", type: "general", retention_days: 7, created_at: "", updated_at: "" });
+    }
+    if (pathname === "/knowledge_bases/kb_src") {
+      return jsonResponse({ id: "kb_src", name: "Docs", sources: [{ id: "src_gone", name: "Gone" }] });
+    }
+    return jsonResponse({ detail: "unexpected" }, 500);
+  });
+
+  function target(refsFor: (name: string) => unknown[]) {
+    const writes: { path: string; body: any }[] = [];
+    const client = makeClient((req) => {
+      const { pathname } = new URL(req.url);
+      if (pathname === "/agents/preview-import") {
+        const body = JSON.parse(req.bodyText!);
+        return jsonResponse({ ok: true, unresolved_refs: refsFor(body.agent_definition.agent.name) });
+      }
+      if (req.method === "GET" && pathname === "/memory_banks") return page([]);
+      if (req.method === "GET" && pathname === "/knowledge_bases") return page([]);
+      if (req.method === "GET" && pathname === "/sources") return page([{ id: "src_t", name: "Feed" }]);
+      if (req.method === "GET" && pathname === "/agents") return page([]);
+      const body = JSON.parse(req.bodyText!);
+      writes.push({ path: pathname, body });
+      return jsonResponse({ id: `new_${writes.length}`, name: body.name });
+    });
+    return { client, writes };
+  }
+
+  test("matches references by name and stops before writing when one is missing", async () => {
+    const { client: prod, writes } = target(() => [
+      ref("knowledge_base", "kb_src", "Docs", [{ id: "kb_other", name: "Other" }, { id: "kb_t", name: "Docs" }]),
+      ref("source_connection", "src_src", "Feed"),
+      ref("memory_bank", "mb_src", "Mem"),
+    ]);
+    const res = await source.migrateAgent({ agentId: "ag_main", to: prod });
+    expect(res.agent).toBeUndefined();
+    expect(res.resolved.map((r) => [r.ref.ref_id, r.targetId, r.via])).toEqual([
+      ["kb_src", "kb_t", "name"],
+      ["src_src", "src_t", "name"],
+    ]);
+    expect(res.unresolved).toEqual([{ ref: expect.objectContaining({ ref_id: "mb_src" }), reason: 'No target entity is named "Mem".' }]);
+    expect(writes).toEqual([]);
+  });
+
+  test("creates missing memory banks and migrates sub-agents with createMissing", async () => {
+    const { client: prod, writes } = target((name) =>
+      name === "Main" ? [ref("memory_bank", "mb_src", "Mem"), ref("agent", "ag_sub", "Helper")] : [],
+    );
+    const res = await source.agents.migrate({ agentId: "ag_main", to: prod, createMissing: true, name: "Main (prod)" });
+    expect(writes).toEqual([
+      { path: "/memory_banks", body: { name: "Mem", mode: "balanced", type: "general", retention_days: 7 } },
+      { path: "/agents", body: { name: "Helper", trigger_type: "dynamic_input", agent_definition: exports["ag_sub"] } },
+      {
+        path: "/agents",
+        body: {
+          name: "Main (prod)",
+          trigger_type: "schedule",
+          agent_definition: exports["ag_main"],
+          entity_remap: { mb_src: "new_1", ag_sub: "new_2" },
+        },
+      },
+    ]);
+    expect(res.agent?.id).toBe("new_3");
+    expect(res.resolved.map((r) => r.via)).toEqual(["created", "created"]);
+    expect(res.subAgents["ag_sub"]?.agent?.id).toBe("new_2");
+  });
+
+  test("creates nothing when a knowledge base source or a sub-agent reference cannot be resolved", async () => {
+    const kb = target(() => [ref("memory_bank", "mb_src", "Mem"), ref("knowledge_base", "kb_src", "Docs")]);
+    const kbRes = await source.migrateAgent({ agentId: "ag_main", to: kb.client, createMissing: true });
+    expect(kbRes.agent).toBeUndefined();
+    expect(kbRes.unresolved).toEqual([
+      { ref: expect.objectContaining({ ref_id: "kb_src" }), reason: 'Its source "Gone" has no counterpart in the target account.' },
+    ]);
+    expect(kb.writes).toEqual([]);
+
+    const sub = target((name) =>
+      name === "Main"
+        ? [ref("memory_bank", "mb_src", "Mem"), ref("agent", "ag_sub", "Helper")]
+        : [ref("source_connection", "src_gone", "Gone")],
+    );
+    const subRes = await source.migrateAgent({ agentId: "ag_main", to: sub.client, createMissing: true });
+    expect(subRes.agent).toBeUndefined();
+    expect(subRes.unresolved.map((u) => u.ref.ref_id)).toEqual(["ag_sub"]);
+    expect(subRes.subAgents["ag_sub"]?.unresolved.map((u) => u.ref.ref_id)).toEqual(["src_gone"]);
+    expect(sub.writes).toEqual([]);
+  });
+
+  test("uses an explicit map as given", async () => {
+    const { client: prod, writes } = target(() => [ref("knowledge_base", "kb_src", "Docs", [{ id: "kb_t", name: "Docs" }])]);
+    const res = await prod.migrateAgent({ agentId: "ag_main", from: source, to: prod, remap: { kb_src: "kb_chosen" } });
+    expect(res.entityRemap).toEqual({ kb_src: "kb_chosen" });
+    expect(writes[0]!.body.entity_remap).toEqual({ kb_src: "kb_chosen" });
+  });
+});
+
+// ─── Solution bundles ───────────────────────────────────────────────────────
+
+describe("exportSolutionBundle / importSolutionBundle", () => {
+  const agentExports: Record<string, unknown> = {
+    ag_a: {
+      agent: { name: "A", definition: { child_steps: [] } },
+      dependencies: { agents: [{ id: "ag_b" }], memory_banks: [{ id: "mb_1" }], knowledge_bases: [{ id: "kb_1" }] },
+    },
+    ag_b: { agent: { name: "B", definition: { child_steps: [{ id: "s", step_type: "call_agent", agent_id: "ag_a" }] } }, dependencies: { agents: [{ id: "ag_a" }] } },
+  };
+  const sourceAccount = makeClient((req) => {
+    const path = new URL(req.url).pathname;
+    const routes: Record<string, unknown> = {
+      "/solutions/sol_1": {
+        id: "sol_1",
+        name: "Support",
+        description: "Support desk",
+        agents: [{ id: "ag_a", name: "A" }],
+        knowledge_bases: [{ id: "kb_1", name: "KB" }],
+        source_connections: [],
+      },
+      "/agents/ag_a/export": agentExports["ag_a"],
+      "/agents/ag_b/export": agentExports["ag_b"],
+      "/knowledge_bases/kb_1": { id: "kb_1", name: "KB", description: null, sources: [{ id: "src_1", name: "Site" }] },
+      "/sources/src_1": {
+        id: "src_1",
+        name: "Site",
+        source_type: "web",
+        content_filter: "all",
+        polling: "daily",
+        polling_action: null,
+        polling_max_items: null,
+        retention: null,
+      },
+      "/memory_banks/mb_1": { id: "mb_1", name: "Mem", mode: "balanced", type: "general", created_at: "", updated_at: "" },
+    };
+    return path in routes ? jsonResponse(routes[path]) : jsonResponse({ detail: "not found" }, 404);
+  });
+
+  test("bundles linked resources and what their agents depend on", async () => {
+    const bundle = await sourceAccount.solutions.exportBundle("sol_1");
+    expect(bundle.format).toBe("seclai-solution-bundle");
+    expect(bundle.solution).toEqual({ id: "sol_1", name: "Support", description: "Support desk" });
+    expect(bundle.agents.map((a) => [a.id, a.linked])).toEqual([["ag_a", true], ["ag_b", false]]);
+    expect(bundle.knowledge_bases).toEqual([
+      { id: "kb_1", linked: true, config: expect.objectContaining({ name: "KB", source_ids: ["src_1"] }) },
+    ]);
+    expect(bundle.source_connections).toEqual([
+      { id: "src_1", linked: false, config: expect.objectContaining({ name: "Site", source_type: "web", polling: "daily" }) },
+    ]);
+    expect(bundle.memory_banks).toEqual([
+      { id: "mb_1", config: { name: "Mem", mode: "balanced", type: "general", retention_days: null } },
+    ]);
+  });
+
+  test("recreates, relinks and links everything in the target account", async () => {
+    const bundle = JSON.parse(JSON.stringify(await sourceAccount.exportSolutionBundle("sol_1")));
+    const writes: { method: string; path: string; body: any }[] = [];
+    let n = 0;
+    const target = makeClient((req) => {
+      const path = new URL(req.url).pathname;
+      if (req.method === "GET") {
+        return jsonResponse({ change_id: "c1", definition: { child_steps: [{ id: "s", agent_id: "ag_a" }] }, schema_version: "1" });
+      }
+      const body = JSON.parse(req.bodyText!);
+      writes.push({ method: req.method, path, body });
+      const linkedTo = /^\/solutions\/(\w+)\//.exec(path)?.[1];
+      return jsonResponse({ id: linkedTo ?? `new_${++n}`, name: body.name, agents: [], knowledge_bases: [], source_connections: [] });
+    });
+
+    const { solution, idMap } = await target.importSolutionBundle(bundle, { name: "Support (prod)" });
+    expect(idMap).toEqual({ src_1: "new_1", mb_1: "new_2", kb_1: "new_3", ag_a: "new_4", ag_b: "new_5" });
+    expect(writes.map((w) => `${w.method} ${w.path}`)).toEqual([
+      "POST /sources",
+      "POST /memory_banks",
+      "POST /knowledge_bases",
+      "POST /agents",
+      "POST /agents",
+      "PUT /agents/new_4/definition",
+      "POST /solutions",
+      "POST /solutions/new_7/agents",
+      "POST /solutions/new_7/knowledge-bases",
+    ]);
+    expect(writes[2]!.body.source_ids).toEqual(["new_1"]);
+    // A and B call each other: A was created first, so B's remap includes A and A is relinked afterwards
+    expect(writes[3]!.body.entity_remap).toEqual({ src_1: "new_1", mb_1: "new_2", kb_1: "new_3" });
+    expect(writes[4]!.body.entity_remap).toMatchObject({ ag_a: "new_4" });
+    expect(writes[5]!.body).toEqual({ definition: { child_steps: [{ id: "s", agent_id: "new_4" }] }, expected_change_id: "c1" });
+    expect(writes[6]!.body).toEqual({ name: "Support (prod)", description: "Support desk" });
+    expect(writes[7]!.body).toEqual({ ids: ["new_4"] });
+    expect(writes[8]!.body).toEqual({ ids: ["new_3"] });
+    expect(solution.id).toBe("new_7");
+  });
+
+  test("rejects documents that are not bundles", async () => {
+    const client = makeClient(() => jsonResponse({}));
+    await expect(client.importSolutionBundle({ format: "other" } as any)).rejects.toThrow(SeclaiError);
+  });
+});
+
+// ─── Testing: FakeSeclaiBackend ───────────────────────────────────────────────
+
+describe("FakeSeclaiBackend", () => {
+  const fakeClient = (backend: FakeSeclaiBackend) => new Seclai({ apiKey: "k", fetch: backend.fetch });
+
+  test("keeps agents and definitions across calls", async () => {
+    const backend = new FakeSeclaiBackend();
+    const client = fakeClient(backend);
+
+    const agent = await client.createAgent({
+      name: "Bot",
+      trigger_type: "dynamic_input",
+      agent_definition: { agent: { definition: { child_steps: [{ id: "s1", step_type: "display_result" }] } } },
+    });
+    expect(agent.id).toBe("agent_1");
+    await client.updateAgent(agent.id, { name: "Renamed" } as any);
+    expect((await client.getAgent(agent.id)).name).toBe("Renamed");
+
+    const saved = await client.agents.definition.modify(agent.id, (def) => {
+      (def.child_steps as unknown[]).push({ id: "s2", step_type: "display_result" });
+    });
+    expect(backend.definitions.get(agent.id)!.definition).toEqual(saved.definition);
+    await expect(
+      client.updateAgentDefinition(agent.id, { definition: {}, expected_change_id: "stale" }),
+    ).rejects.toBeInstanceOf(SeclaiConflictError);
+
+    backend.seedAgent({ name: "Other" });
+    const names: string[] = [];
+    for await (const a of client.iterAgents({ limit: 1 })) names.push(a.name);
+    expect(names).toEqual(["Renamed", "Other"]);
+    await client.deleteAgent(agent.id);
+    await expect(client.getAgent(agent.id)).rejects.toBeInstanceOf(SeclaiNotFoundError);
+  });
+
+  test("plays scripted runs, streamed and not", async () => {
+    const backend = new FakeSeclaiBackend();
+    const agent = backend.seedAgent();
+    backend.scriptRun(
+      agent.id,
+      { tokens: ["Hi", " there"], steps: [{ step_type: "prompt_call", output: "Hi there" }], credits: 2 },
+      { status: "processing" },
+    );
+    const client = fakeClient(backend);
+
+    const events = [];
+    for await (const e of client.runStreamingAgent(agent.id, { input: "hello" })) events.push(e);
+    expect(events.map((e) => e.event)).toEqual(["init", "step", "stream_token", "stream_token", "stream_end", "done"]);
+    expect(events.at(-1)!.data).toMatchObject({ run_id: "run_1", status: "completed", output: "Hi there", credits: 2 });
+
+    const pending = await client.runAgent(agent.id, { input: "again", priority: false });
+    expect(pending.status).toBe("processing");
+    expect((await client.cancelAgentRun(pending.run_id)).status).toBe("cancelled");
+    await expect(client.cancelAgentRun(pending.run_id)).rejects.toBeInstanceOf(SeclaiConflictError);
+
+    // Unscripted runs echo their input
+    expect((await client.runAgent(agent.id, { input: "echo", priority: false })).output).toBe("echo");
+    expect((await client.listAgentRuns(agent.id)).pagination.total).toBe(3);
+    expect((await client.listAgentRuns(agent.id, { status: "completed" })).data.map((r) => r.run_id)).toEqual([
+      "run_1",
+      "run_3",
+    ]);
+  });
+
+  test("sends raw scripted events, so dropped streams can be simulated", async () => {
+    const backend = new FakeSeclaiBackend();
+    const agent = backend.seedAgent();
+    backend.scriptRun(agent.id, {
+      output: "done",
+      events: [{ event: "init", data: { run_id: "run_1" } as any }],
+    });
+    const client = fakeClient(backend);
+
+    const run = await client.runStreamingAgentAndWait(agent.id, { input: "x" }, { resume: true, pollIntervalMs: 1 });
+    expect(run).toMatchObject({ run_id: "run_1", output: "done" });
+    expect(backend.requests.map((r) => `${r.method} ${r.path}`)).toEqual([
+      `POST /agents/${agent.id}/runs/stream`,
+      "GET /agents/runs/run_1",
+    ]);
+  });
+
+  test("links knowledge bases to sources and tracks alert activity", async () => {
+    const backend = new FakeSeclaiBackend({ baseUrl: "https://example.test/api/" });
+    const client = new Seclai({ apiKey: "k", baseUrl: "https://example.test/api", fetch: backend.fetch });
+
+    const source = await client.createSource({ name: "Docs", source_type: "web" });
+    const kb = await client.createKnowledgeBase({ name: "KB", source_ids: [source.id] });
+    expect(kb.sources).toEqual([expect.objectContaining({ id: source.id, name: "Docs" })]);
+    expect((await client.listKnowledgeBases()).knowledge_bases).toHaveLength(1);
+    await client.deleteSource(source.id);
+    expect((await client.listSources()).data).toEqual([]);
+
+    const alert = backend.seedAlert({ title: "Run failed" });
+    await client.changeAlertStatus(alert.id, { status: "resolved", note: "fixed" });
+    await client.addAlertComment(alert.id, { body: "Looked into it" });
+    const detail = await client.subscribeToAlert(alert.id);
+    expect(detail.alert).toMatchObject({ status: "resolved", comment_count: 1, is_subscribed: true, subscriber_count: 1 });
+    expect(detail.history).toEqual([expect.objectContaining({ previous_status: "open", new_status: "resolved" })]);
+    expect((await client.listAlerts({ status: "open" })).data).toEqual([]);
+  });
+
+  test("injects failures and answers unknown routes with 404", async () => {
+    const backend = new FakeSeclaiBackend();
+    backend.fail(429, "Slow down", { method: "GET", path: "/agents", headers: { "retry-after": "3" } });
+    const client = fakeClient(backend);
+
+    const err = await client.listAgents().catch((e) => e);
+    expect(err).toBeInstanceOf(SeclaiRateLimitError);
+    expect(err.retryAfter).toBe(3000);
+    expect((await client.listAgents()).data).toEqual([]);
+    await expect(client.getSolution("sol_1")).rejects.toBeInstanceOf(SeclaiNotFoundError);
+  });
+});
+
+// ─── Testing: cassettes ───────────────────────────────────────────────────────
+
+describe("createCassette", () => {
+  const withDir = async (fn: (dir: string) => Promise<void>) => {
+    const dir = mkdtempSync(join(tmpdir(), "seclai-cassette-"));
+    try {
+      await fn(dir);
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  };
+
+  /** A backend with one agent whose run streams, plus a binary export download. */
+  const liveFetch = () => {
+    const backend = new FakeSeclaiBackend();
+    const agent = backend.seedAgent({ name: "Bot" });
+    backend.scriptRun(agent.id, { tokens: ["Hel", "lo"] });
+    const bytes = new Uint8Array([0x50, 0x4b, 0x03, 0x04, 0xff, 0x00]);
+    const fetch = async (input: RequestInfo | URL, init?: RequestInit) =>
+      (input instanceof Request ? input.url : String(input)).endsWith("/download")
+        ? new Response(bytes, { headers: { "content-type": "application/zip" } })
+        : backend.fetch(input, init);
+    return { agent, bytes, fetch };
+  };
+
+  test("records JSON, SSE and binary bodies and replays them without a network", async () => {
+    await withDir(async (dir) => {
+      const file = join(dir, "nested", "session.json");
+      const { agent, bytes, fetch } = liveFetch();
+
+      const recorder = await createCassette(file, { fetch });
+      expect(recorder.mode).toBe("record");
+      const live = new Seclai({ apiKey: "sk-secret", fetch: recorder.fetch });
+      await live.getAgent(agent.id);
+      const liveRun = await live.runStreamingAgentAndWait(agent.id, { input: "hi" });
+      await (await live.downloadSourceExport("src_1", "exp_1")).arrayBuffer();
+      await recorder.save();
+
+      const saved = JSON.parse(readFileSync(file, "utf-8"));
+      expect(saved.interactions).toHaveLength(3);
+      expect(saved.interactions[0].request.headers["x-api-key"]).toBe("[REDACTED]");
+      expect(JSON.stringify(saved)).not.toContain("sk-secret");
+      expect(saved.interactions[1].response.body).toContain("event: stream_token");
+      expect(saved.interactions[2].response.bodyEncoding).toBe("base64");
+
+      const player = await createCassette(file);
+      expect(player.mode).toBe("replay");
+      const replayed = new Seclai({ apiKey: "other", fetch: player.fetch });
+      expect((await replayed.getAgent(agent.id)).name).toBe("Bot");
+      const tokens: string[] = [];
+      for await (const e of replayed.runStreamingAgent(agent.id, { input: "hi" })) {
+        if (isStreamTokenEvent(e)) tokens.push(e.data.token);
+      }
+      expect(tokens).toEqual(["Hel", "lo"]);
+      const download = await replayed.downloadSourceExport("src_1", "exp_1");
+      expect(new Uint8Array(await download.arrayBuffer())).toEqual(bytes);
+      expect(liveRun.output).toBe("Hello");
+    });
+  });
+
+  test("matches on the configured fields and uses each interaction once", async () => {
+    await withDir(async (dir) => {
+      const file = join(dir, "runs.json");
+      const { agent, fetch } = liveFetch();
+      const recorder = await createCassette(file, { fetch, mode: "record" });
+      await new Seclai({ apiKey: "k", fetch: recorder.fetch }).runAgent(agent.id, { input: "a", priority: false });
+      await recorder.save();
+
+      const strict = new Seclai({ apiKey: "k", fetch: (await createCassette(file, { mode: "replay" })).fetch });
+      await expect(strict.runAgent(agent.id, { input: "b", priority: false })).rejects.toThrow(/no unused interaction/);
+
+      const loose = new Seclai({
+        apiKey: "k",
+        fetch: (await createCassette(file, { match: ["method", "path"] })).fetch,
+      });
+      expect((await loose.runAgent(agent.id, { priority: false, input: "b" })).input).toBe("a");
+      await expect(loose.runAgent(agent.id, { input: "b", priority: false })).rejects.toThrow(SeclaiError);
+    });
+  });
+
+  test("redacts extra headers and applies the redact hook", async () => {
+    await withDir(async (dir) => {
+      const file = join(dir, "redact.json");
+      const { agent, fetch } = liveFetch();
+      const recorder = await createCassette(file, {
+        fetch,
+        redactHeaders: ["X-Tenant"],
+        redact: (i) => ({ ...i, response: { ...i.response, body: i.response.body.replace("Bot", "[name]") } }),
+      });
+      await new Seclai({ apiKey: "k", fetch: recorder.fetch, defaultHeaders: { "x-tenant": "acme" } }).getAgent(agent.id);
+      await recorder.save();
+
+      const [interaction] = JSON.parse(readFileSync(file, "utf-8")).interactions;
+      expect(interaction.request.headers["x-tenant"]).toBe("[REDACTED]");
+      expect(interaction.response.body).toContain('"name":"[name]"');
+      await expect(createCassette(join(dir, "missing.json"), { mode: "replay" })).rejects.toThrow(SeclaiError);
+    });
+  });
+
+  test("forwards the client's input and init to the recorded fetch unchanged", async () => {
+    await withDir(async (dir) => {
+      const file = join(dir, "upload.json");
+      const seen: { input: RequestInfo | URL; init: RequestInit | undefined; body: string }[] = [];
+      const recorder = await createCassette(file, {
+        fetch: async (input, init) => {
+          seen.push({ input, init, body: await new Response(init?.body).text() });
+          return jsonResponse({ ok: true });
+        },
+      });
+      const client = new Seclai({ apiKey: "k", baseUrl: "https://test.invalid", fetch: recorder.fetch });
+      await client.getAgent("ag_1");
+      await client.uploadFileToSource("src_1", {
+        file: new ReadableStream({
+          start(c) {
+            c.enqueue(new TextEncoder().encode("hello"));
+            c.close();
+          },
+        }),
+        size: 5,
+        fileName: "a.txt",
+      });
+      await recorder.save();
+
+      expect(seen[0]!.input).toBeInstanceOf(URL);
+      expect(seen[0]!.init?.method).toBe("GET");
+      expect((seen[1]!.init as { duplex?: string }).duplex).toBe("half");
+      expect(seen[1]!.body).toContain("hello");
+      expect(recorder.interactions[1]!.request.body).toContain("hello");
+    });
+  });
+
+  test("save() reports a response that failed while it was recorded and writes nothing", async () => {
+    await withDir(async (dir) => {
+      const file = join(dir, "broken.json");
+      const recorder = await createCassette(file, {
+        fetch: async () =>
+          new Response(
+            new ReadableStream({
+              pull(c) {
+                c.error(new Error("connection reset"));
+              },
+            }),
+          ),
+      });
+      const response = await recorder.fetch("https://test.invalid/agents");
+      await expect(response.text()).rejects.toThrow();
+
+      await expect(recorder.save()).rejects.toThrow(/GET https:\/\/test.invalid\/agents: connection reset/);
+      expect(existsSync(file)).toBe(false);
+    });
+  });
+});
+
+// ─── Attachments ────────────────────────────────────────────────────────────
+
+describe("findAttachmentRefs / downloadAttachmentRef", () => {
+  const manifest = {
+    text: "Report attached",
+    attachments: [
+      { storage_key: "runs/r1/report?.pdf", mime: "application/pdf", name: "report.pdf", bytes: 1024 },
+      { storage_key: "runs/r1/chart.png", mime: "image/png", name: "chart.png", bytes: 2048 },
+    ],
+  };
+
+  test("finds references in manifests serialized into payload output", () => {
+    const payload = {
+      run_id: "run_1",
+      output_content_type: "application/vnd.seclai.manifest+json",
+      output: JSON.stringify(manifest),
+      extra: { files: [manifest.attachments[1]] },
+    };
+    expect(findAttachmentRefs(payload)).toEqual(manifest.attachments);
+    expect(findAttachmentRefs({ output: "plain text" })).toEqual([]);
+  });
+
+  test("parseWebhookPayload types a delivery body and rejects other shapes", () => {
+    const body = JSON.stringify({ run_id: "run_1", status: "completed", output: JSON.stringify(manifest) });
+    const payload = parseWebhookPayload(new TextEncoder().encode(body));
+    expect(payload.run_id).toBe("run_1");
+    expect(findAttachmentRefs(payload)).toEqual(manifest.attachments);
+    expect(() => parseWebhookPayload("not json")).toThrow(SeclaiError);
+    expect(() => parseWebhookPayload("[]")).toThrow(SeclaiError);
+    expect(() => parseWebhookPayload('{"status":"completed"}')).toThrow(/run_id/);
+  });
+
+  test("downloads a reference by its URL-safe-base64 storage key", async () => {
+    const urls: string[] = [];
+    const client = makeClient((req) => {
+      urls.push(req.url);
+      return new Response(new Uint8Array([1, 2, 3]));
+    });
+
+    const ref = manifest.attachments[0]!;
+    const res = await client.agents.runs.attachments.downloadRef("run_1", ref);
+    expect(new Uint8Array(await res.arrayBuffer())).toEqual(new Uint8Array([1, 2, 3]));
+
+    const expectedId = Buffer.from(ref.storage_key).toString("base64").replace(/\+/g, "-").replace(/\//g, "_");
+    expect(expectedId).toMatch(/[-_]/);
+    const url = new URL(urls[0]!);
+    expect(url.pathname).toBe(`/v2/agent-runs/run_1/attachments/${expectedId}`);
+    expect(url.searchParams.get("download_name")).toBe("report.pdf");
+  });
+});
+
+describe("encodeAttachmentId / decodeAttachmentId / listRunAttachments", () => {
+  test("round-trips storage keys through URL-safe base64", () => {
+    const key = "runs/r1/résumé?v=1>.pdf";
+    const id = encodeAttachmentId(key);
+    expect(id).toBe(Buffer.from(key).toString("base64").replace(/\+/g, "-").replace(/\//g, "_"));
+    expect(id).not.toMatch(/[+/]/);
+    expect(decodeAttachmentId(id)).toBe(key);
+    expect(decodeAttachmentId(id.replace(/=+$/, ""))).toBe(key);
+    expect(() => decodeAttachmentId("not base64!")).toThrow(SeclaiError);
+    expect(() => decodeAttachmentId("_w")).toThrow(SeclaiError);
+  });
+
+  test("yields a downloadable handle per attachment in the run's step outputs", async () => {
+    const manifest = (files: { storage_key: string; mime: string; name: string }[]) =>
+      JSON.stringify({ text: "", attachments: files });
+    const pdf = { storage_key: "runs/r1/report.pdf", mime: "application/pdf", name: "report.pdf" };
+    const png = { storage_key: "runs/r1/chart.png", mime: "image/png", name: "chart.png" };
+    const urls: string[] = [];
+    const client = makeClient((req) => {
+      urls.push(req.url);
+      const url = new URL(req.url);
+      if (url.pathname === "/agents/runs/run_1") {
+        return jsonResponse({
+          run_id: "run_1",
+          status: "completed",
+          output: manifest([png]),
+          steps: [
+            { agent_step_id: "step_a", output: "plain text" },
+            { agent_step_id: "step_b", output: manifest([pdf, png]) },
+          ],
+        });
+      }
+      const key = decodeAttachmentId(url.pathname.split("/").at(-1)!);
+      return new Response(new TextEncoder().encode(`bytes of ${key}`));
+    });
+
+    const files = [];
+    for await (const file of client.agents.runs.attachments.list("run_1")) files.push(file);
+    expect(new URL(urls[0]!).searchParams.get("include_step_outputs")).toBe("true");
+    expect(files.map((f) => [f.stepId, f.storageKey, f.mime, f.name])).toEqual([
+      ["step_b", pdf.storage_key, "application/pdf", "report.pdf"],
+      ["step_b", png.storage_key, "image/png", "chart.png"],
+    ]);
+    expect(files[0]!.attachmentId).toBe(encodeAttachmentId(pdf.storage_key));
+    expect(new TextDecoder().decode(await files[0]!.arrayBuffer())).toBe("bytes of runs/r1/report.pdf");
+    const text = await new Response(await files[1]!.stream()).text();
+    expect(text).toBe("bytes of runs/r1/chart.png");
+    expect(urls).toHaveLength(3);
+  });
+});
+
+// ─── Downloads ──────────────────────────────────────────────────────────────
+
+describe("downloadSourceExportToFile / downloadSourceExportToBlob", () => {
+  const data = new Uint8Array(Array.from({ length: 1000 }, (_, i) => i % 251));
+
+  /**
+   * Serve `data` in 100-byte chunks with an `ETag`, honoring `Range` when
+   * `If-Range` matches it unless told not to.
+   */
+  const exportServer = (
+    opts: { ranges?: boolean; truncateTo?: number; etag?: string | null; encoding?: string } = {},
+  ) => {
+    const requests: { range: string | undefined; ifRange: string | undefined }[] = [];
+    const etag = opts.etag === undefined ? '"v1"' : opts.etag;
+    const client = makeClient((req) => {
+      expect(new URL(req.url).pathname).toBe("/sources/src_1/exports/exp_1/download");
+      requests.push({ range: req.headers["range"], ifRange: req.headers["if-range"] });
+      const requested = Number(/bytes=(\d+)-/.exec(req.headers["range"] ?? "")?.[1] ?? 0);
+      const start = opts.ranges !== false && etag !== null && req.headers["if-range"] === etag ? requested : 0;
+      const body = data.slice(start, opts.truncateTo ?? data.length);
+      const stream = new ReadableStream<Uint8Array>({
+        start(controller) {
+          for (let i = 0; i < body.length; i += 100) controller.enqueue(body.slice(i, i + 100));
+          controller.close();
+        },
+      });
+      const headers: Record<string, string> = {
+        "content-type": "application/zip",
+        "content-length": String(data.length - start),
+      };
+      if (etag !== null) headers["etag"] = etag;
+      if (opts.encoding) headers["content-encoding"] = opts.encoding;
+      if (start > 0) headers["content-range"] = `bytes ${start}-${data.length - 1}/${data.length}`;
+      return new Response(stream, { status: start > 0 ? 206 : 200, headers });
+    });
+    return { client, requests };
+  };
+
+  const withDir = async (fn: (dir: string) => Promise<void>) => {
+    const dir = mkdtempSync(join(tmpdir(), "seclai-download-"));
+    try {
+      await fn(dir);
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  };
+
+  test("streams to the file through a temp file, reporting progress", async () => {
+    await withDir(async (dir) => {
+      const { client } = exportServer();
+      const progress: [number, number | undefined][] = [];
+      const path = join(dir, "export.zip");
+      const result = await client.sources.exports.downloadToFile("src_1", "exp_1", path, {
+        onProgress: ({ loaded, total }) => progress.push([loaded, total]),
+      });
+      expect(result).toEqual({ path, bytes: 1000, resumed: false });
+      expect(new Uint8Array(readFileSync(path))).toEqual(data);
+      expect(existsSync(`${path}.part`)).toBe(false);
+      expect(progress).toHaveLength(10);
+      expect(progress.at(-1)).toEqual([1000, 1000]);
+    });
+  });
+
+  test("resumes a partial file with a Range request guarded by If-Range", async () => {
+    await withDir(async (dir) => {
+      const path = join(dir, "export.zip");
+      await expect(
+        exportServer({ truncateTo: 400 }).client.downloadSourceExportToFile("src_1", "exp_1", path),
+      ).rejects.toThrow(/400 of 1000 bytes/);
+
+      const { client, requests } = exportServer();
+      const progress: number[] = [];
+      const result = await client.downloadSourceExportToFile("src_1", "exp_1", path, {
+        onProgress: ({ loaded }) => progress.push(loaded),
+      });
+      expect(requests).toEqual([{ range: "bytes=400-", ifRange: '"v1"' }]);
+      expect(result).toEqual({ path, bytes: 1000, resumed: true });
+      expect(progress[0]).toBe(500);
+      expect(new Uint8Array(readFileSync(path))).toEqual(data);
+      expect(existsSync(`${path}.part.validator`)).toBe(false);
+    });
+  });
+
+  test("starts over when the export changed, the server ignores the range, or resume is off", async () => {
+    await withDir(async (dir) => {
+      const path = join(dir, "export.zip");
+      const interrupt = () =>
+        expect(
+          exportServer({ truncateTo: 400 }).client.downloadSourceExportToFile("src_1", "exp_1", path),
+        ).rejects.toThrow(SeclaiError);
+
+      await interrupt();
+      const changed = exportServer({ etag: '"v2"' });
+      const result = await changed.client.downloadSourceExportToFile("src_1", "exp_1", path);
+      expect(changed.requests).toEqual([{ range: "bytes=400-", ifRange: '"v1"' }]);
+      expect(result.resumed).toBe(false);
+      expect(new Uint8Array(readFileSync(path))).toEqual(data);
+
+      await interrupt();
+      const ignored = await exportServer({ ranges: false }).client.downloadSourceExportToFile("src_1", "exp_1", path);
+      expect(ignored.resumed).toBe(false);
+      expect(new Uint8Array(readFileSync(path))).toEqual(data);
+
+      await interrupt();
+      const { client, requests } = exportServer();
+      await client.downloadSourceExportToFile("src_1", "exp_1", path, { resume: false });
+      expect(requests).toEqual([{ range: undefined, ifRange: undefined }]);
+      expect(new Uint8Array(readFileSync(path))).toEqual(data);
+    });
+  });
+
+  test("does not resume a partial file without a validator or with a content encoding", async () => {
+    await withDir(async (dir) => {
+      const path = join(dir, "export.zip");
+      writeFileSync(`${path}.part`, new Uint8Array(400).fill(9));
+      const unknown = exportServer();
+      expect((await unknown.client.downloadSourceExportToFile("src_1", "exp_1", path)).resumed).toBe(false);
+      expect(unknown.requests).toEqual([{ range: undefined, ifRange: undefined }]);
+      expect(new Uint8Array(readFileSync(path))).toEqual(data);
+
+      const dropped = new Error("connection dropped");
+      await expect(
+        exportServer({ encoding: "gzip" }).client.downloadSourceExportToFile("src_1", "exp_1", path, {
+          onProgress: ({ loaded }) => {
+            if (loaded === 400) throw dropped;
+          },
+        }),
+      ).rejects.toBe(dropped);
+      expect(readFileSync(`${path}.part`)).toHaveLength(400);
+      expect(existsSync(`${path}.part.validator`)).toBe(false);
+      const encoded = exportServer({ encoding: "gzip" });
+      await encoded.client.downloadSourceExportToFile("src_1", "exp_1", path);
+      expect(encoded.requests).toEqual([{ range: undefined, ifRange: undefined }]);
+
+      // A partial file from a plain response, answered with an encoded range: fetched whole instead.
+      await expect(
+        exportServer({ truncateTo: 400 }).client.downloadSourceExportToFile("src_1", "exp_1", path),
+      ).rejects.toThrow(SeclaiError);
+      const switched = exportServer({ encoding: "gzip" });
+      const result = await switched.client.downloadSourceExportToFile("src_1", "exp_1", path);
+      expect(switched.requests.map((r) => r.range)).toEqual(["bytes=400-", undefined]);
+      expect(result.resumed).toBe(false);
+      expect(new Uint8Array(readFileSync(path))).toEqual(data);
+    });
+  });
+
+  test("keeps a short download as a partial file instead of finishing it", async () => {
+    await withDir(async (dir) => {
+      const path = join(dir, "export.zip");
+      const { client } = exportServer({ truncateTo: 600 });
+      await expect(client.downloadSourceExportToFile("src_1", "exp_1", path)).rejects.toThrow(/600 of 1000 bytes/);
+      expect(existsSync(path)).toBe(false);
+      expect(readFileSync(`${path}.part`)).toHaveLength(600);
+
+      const result = await exportServer().client.downloadSourceExportToFile("src_1", "exp_1", path);
+      expect(result).toMatchObject({ bytes: 1000, resumed: true });
+      expect(new Uint8Array(readFileSync(path))).toEqual(data);
+    });
+  });
+
+  test("buffers into a typed Blob for browsers", async () => {
+    const loaded: number[] = [];
+    const blob = await exportServer().client.downloadSourceExportToBlob("src_1", "exp_1", {
+      onProgress: (p) => loaded.push(p.loaded),
+    });
+    expect(blob.type).toBe("application/zip");
+    expect(new Uint8Array(await blob.arrayBuffer())).toEqual(data);
+    expect(loaded.at(-1)).toBe(1000);
+    await expect(exportServer({ truncateTo: 10 }).client.downloadSourceExportToBlob("src_1", "exp_1")).rejects.toThrow(
+      SeclaiError,
+    );
+  });
+});
+
+// ─── Streaming uploads ──────────────────────────────────────────────────────
+
+describe("streaming uploads", () => {
+  /** Reads the streamed body back the way a server would. */
+  async function readUpload(req: RecordedRequest): Promise<{ bytes: Uint8Array; form: FormData }> {
+    const bytes = new Uint8Array(await new Response(req.body).arrayBuffer());
+    const form = await new Request("https://test.invalid", {
+      method: "POST",
+      body: bytes,
+      headers: { "content-type": req.headers["content-type"]! },
+    }).formData();
+    return { bytes, form };
+  }
+
+  function streamOf(...chunks: number[][]): ReadableStream<Uint8Array> {
+    return new ReadableStream({
+      start(controller) {
+        for (const chunk of chunks) controller.enqueue(new Uint8Array(chunk));
+        controller.close();
+      },
+    });
+  }
+
+  test("streams a ReadableStream with its size and reports progress", async () => {
+    const uploads: { bytes: Uint8Array; form: FormData; headers: Record<string, string> }[] = [];
+    const client = makeClient(async (req) => {
+      uploads.push({ ...(await readUpload(req)), headers: req.headers });
+      return jsonResponse({ ok: true });
+    });
+    const progress: [number, number][] = [];
+
+    await client.uploadFileToSource("src_1", {
+      file: streamOf([1, 2, 3], [4, 5]),
+      size: 5,
+      fileName: 'clip "final".mp4',
+      title: "Clip",
+      metadata: { lang: "en" },
+      onUploadProgress: (loaded, total) => progress.push([loaded, total]),
+    });
+
+    const [upload] = uploads;
+    expect(upload!.headers["content-type"]).toMatch(/^multipart\/form-data; boundary=/);
+    expect(Number(upload!.headers["content-length"])).toBe(upload!.bytes.byteLength);
+    expect(upload!.form.get("title")).toBe("Clip");
+    expect(upload!.form.get("metadata")).toBe(JSON.stringify({ lang: "en" }));
+    const file = upload!.form.get("file") as File;
+    expect(file.name).toBe('clip "final".mp4');
+    expect(file.type).toBe("video/mp4");
+    expect(new Uint8Array(await file.arrayBuffer())).toEqual(new Uint8Array([1, 2, 3, 4, 5]));
+    expect(progress).toEqual([[0, 5], [3, 5], [5, 5]]);
+  });
+
+  test("accepts async iterables such as a Node.js ReadStream", async () => {
+    let received: Uint8Array | undefined;
+    const client = makeClient(async (req) => {
+      received = new Uint8Array(await ((await readUpload(req)).form.get("file") as File).arrayBuffer());
+      return jsonResponse({ upload_id: "up_1" });
+    });
+    async function* source() {
+      yield new Uint8Array([104, 105]);
+      yield "!";
+    }
+
+    const res = await client.uploadAgentInput("agent_1", { file: source(), size: 3, fileName: "a.txt" });
+    expect(res).toEqual({ upload_id: "up_1" });
+    expect(new TextDecoder().decode(received)).toBe("hi!");
+  });
+
+  test("streams buffered payloads when onUploadProgress is set", async () => {
+    const client = makeClient(async (req) => {
+      expect(req.body).toBeInstanceOf(ReadableStream);
+      expect((await readUpload(req)).form.get("title")).toBe("v2");
+      return jsonResponse({ ok: true });
+    });
+    const progress: number[] = [];
+
+    await client.uploadFileToContent("cv_1", {
+      file: new Uint8Array(10),
+      title: "v2",
+      onUploadProgress: (loaded) => progress.push(loaded),
+    });
+    expect(progress.at(-1)).toBe(10);
+  });
+
+  test("requires a size for streams and rejects a stream that does not match it", async () => {
+    const client = makeClient(async (req) => {
+      await readUpload(req);
+      return jsonResponse({ ok: true });
+    });
+
+    await expect(client.uploadFileToSource("src_1", { file: streamOf([1]) })).rejects.toThrow(
+      SeclaiConfigurationError,
+    );
+    await expect(client.uploadFileToSource("src_1", { file: streamOf([1, 2]), size: 3 })).rejects.toThrow(
+      /ended after 2 of 3 bytes/,
+    );
+    await expect(client.uploadFileToSource("src_1", { file: streamOf([1, 2]), size: 1 })).rejects.toThrow(
+      /more than the 1 bytes/,
+    );
+  });
+
+  test("sends a stream once even with retries enabled", async () => {
+    let calls = 0;
+    const client = makeClient(
+      () => {
+        calls++;
+        return jsonResponse({ detail: "busy" }, 503);
+      },
+      { retry: { maxAttempts: 3, retryNonIdempotent: true, baseDelayMs: 0 } },
+    );
+
+    await expect(client.uploadFileToSource("src_1", { file: streamOf([1]), size: 1 })).rejects.toThrow(
+      SeclaiServerError,
+    );
+    expect(calls).toBe(1);
+  });
+
+  test("timeoutMs overrides the client's timeout for one upload", async () => {
+    const signals: (AbortSignal | null | undefined)[] = [];
+    const client = makeClient(
+      (req) => {
+        signals.push(req.signal);
+        return jsonResponse({ ok: true });
+      },
+      { timeoutMs: 5 },
+    );
+
+    await client.uploadFileToSource("src_1", { file: streamOf([1]), size: 1, timeoutMs: 0 });
+    expect(signals).toEqual([null]);
+
+    const slow = makeClient(
+      (req) => new Promise<Response>((_, reject) => req.signal?.addEventListener("abort", () => reject(req.signal?.reason))),
+    );
+    await expect(
+      slow.uploadFileToContent("cv_1", { file: new Uint8Array([1]), timeoutMs: 5 }),
+    ).rejects.toBeInstanceOf(SeclaiTimeoutError);
+  });
+});
+
+// ─── MIME sniffing and path uploads ─────────────────────────────────────────
+
+describe("sniffMimeType / uploadPathToSource", () => {
+  const bytes = (...parts: (string | number[])[]) =>
+    new Uint8Array(parts.flatMap((p) => (typeof p === "string" ? Array.from(p, (c) => c.charCodeAt(0)) : p)));
+  /** A ZIP local file header for `name`, padded to where its data would start. */
+  const zipEntry = (name: string, data = "") => bytes("PK\x03\x04", new Array(22).fill(0), [name.length, 0, 0, 0], name, data);
+
+  test.each([
+    ["application/pdf", bytes("%PDF-1.7\n")],
+    ["application/zip", zipEntry("notes.txt")],
+    ["application/vnd.openxmlformats-officedocument.wordprocessingml.document", zipEntry("[Content_Types].xml", "word/document.xml")],
+    ["application/vnd.openxmlformats-officedocument.spreadsheetml.sheet", zipEntry("xl/workbook.xml")],
+    ["application/vnd.openxmlformats-officedocument.presentationml.presentation", zipEntry("ppt/presentation.xml")],
+    ["application/epub+zip", zipEntry("mimetype", "application/epub+zip")],
+    ["image/png", bytes([0x89], "PNG\r\n\x1a\n")],
+    ["image/jpeg", bytes([0xff, 0xd8, 0xff, 0xe0])],
+    ["image/gif", bytes("GIF89a")],
+    ["image/webp", bytes("RIFF", [0, 0, 0, 0], "WEBPVP8 ")],
+    ["image/tiff", bytes("II*\0")],
+    ["audio/mpeg", bytes("ID3", [4, 0])],
+    ["audio/mpeg", bytes([0xff, 0xfb, 0x90, 0x64])],
+    ["audio/wav", bytes("RIFF", [0, 0, 0, 0], "WAVEfmt ")],
+    ["audio/flac", bytes("fLaC")],
+    ["audio/ogg", bytes("OggS")],
+    ["video/mp4", bytes([0, 0, 0, 0x20], "ftypisom")],
+    ["audio/mp4", bytes([0, 0, 0, 0x20], "ftypM4A ")],
+    ["video/quicktime", bytes([0, 0, 0, 0x14], "ftypqt  ")],
+    ["video/quicktime", bytes([0, 0, 0, 8], "wide")],
+    [undefined, bytes("hello, world")],
+  ])("detects %s", (expected, head) => {
+    expect(sniffMimeType(head)).toBe(expected);
+  });
+
+  test("finds Office entries listed in the tail", () => {
+    expect(sniffMimeType(zipEntry("[Content_Types].xml"), bytes("PK\x01\x02", "xl/styles.xml"))).toBe(
+      "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+    );
+  });
+
+  test("registered types take precedence, and can be removed", () => {
+    const unregister = registerMimeType({
+      mimeType: "application/x-parquet",
+      extensions: ["parquet"],
+      signatures: [{ bytes: "PAR1" }],
+    });
+    try {
+      expect(sniffMimeType(bytes("PAR1\0\0"))).toBe("application/x-parquet");
+    } finally {
+      unregister();
+    }
+    expect(sniffMimeType(bytes("PAR1\0\0"))).toBeUndefined();
+  });
+
+  const withFile = async (name: string, content: Uint8Array, fn: (path: string) => Promise<void>) => {
+    const dir = mkdtempSync(join(tmpdir(), "seclai-upload-"));
+    try {
+      const path = join(dir, name);
+      writeFileSync(path, content);
+      await fn(path);
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  };
+
+  const uploadServer = () => {
+    const uploads: File[] = [];
+    const client = makeClient(async (req) => {
+      expect(new URL(req.url).pathname).toBe("/sources/src_1/upload");
+      const form = await new Request("https://test.invalid", {
+        method: "POST",
+        body: await new Response(req.body).arrayBuffer(),
+        headers: { "content-type": req.headers["content-type"]! },
+      }).formData();
+      uploads.push(form.get("file") as File);
+      return jsonResponse({ ok: true });
+    });
+    return { client, uploads };
+  };
+
+  test("uploads a file by path, naming and typing it from its contents", async () => {
+    const pdf = bytes("%PDF-1.4\n", "x".repeat(10_000));
+    await withFile("scan", pdf, async (path) => {
+      const { client, uploads } = uploadServer();
+      const progress: number[] = [];
+      await client.sources.uploadPath("src_1", path, { onUploadProgress: (loaded) => progress.push(loaded) });
+      expect(uploads[0]!.name).toBe("scan");
+      expect(uploads[0]!.type).toBe("application/pdf");
+      expect(new Uint8Array(await uploads[0]!.arrayBuffer())).toEqual(pdf);
+      expect(progress.at(-1)).toBe(pdf.length);
+    });
+  });
+
+  test("trusts content over a wrong extension, and the extension when content is inconclusive", async () => {
+    await withFile("photo.txt", bytes([0xff, 0xd8, 0xff, 0xe1]), async (path) => {
+      const { client, uploads } = uploadServer();
+      await client.uploadPathToSource("src_1", path);
+      expect(uploads[0]!.type).toBe("image/jpeg");
+    });
+    await withFile("report.docx", zipEntry("[Content_Types].xml"), async (path) => {
+      const { client, uploads } = uploadServer();
+      await client.uploadPathToSource("src_1", path, { fileName: "q4.docx" });
+      expect(uploads[0]!.name).toBe("q4.docx");
+      expect(uploads[0]!.type).toBe("application/vnd.openxmlformats-officedocument.wordprocessingml.document");
+    });
+    await withFile("notes.md", bytes("# Notes"), async (path) => {
+      const { client, uploads } = uploadServer();
+      await client.uploadPathToSource("src_1", path);
+      expect(uploads[0]!.type).toBe("text/markdown");
+    });
+  });
+
+  test("rejects a path that is not a file", async () => {
+    const { client } = uploadServer();
+    await expect(client.uploadPathToSource("src_1", tmpdir())).rejects.toThrow(SeclaiConfigurationError);
+  });
+});
@@ -1,8 +1,11 @@
 import { defineConfig } from "tsup";
 
 export default defineConfig({
-  entry: ["src/index.ts"],
+  entry: ["src/index.ts", "src/testing.ts"],
   format: ["esm", "cjs"],
+  // Share one copy of the client and error classes between the entry points in
+  // CJS too, so `instanceof` holds across `@seclai/sdk` and `@seclai/sdk/testing`.
+  splitting: true,
   dts: true,
   sourcemap: true,
   clean: true,